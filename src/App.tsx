@@ -3,20 +3,37 @@ import DronePage from './Drone';
 import Taipei101Page from './Taipei101';
 import KalimbaPage from './Kalimba';
 import ViolinPage from './Violin';
+import ModelViewerPage from './ModelViewer';
+import EditorPage from './Editor';
+import { SeedContext, randomSeed, readSeedParam } from './lego/random';
 
 export default function App() {
-  const [page, setPage] = useState<'drone' | 't101' | 'kalimba' | 'violin'>('drone');
+  const [page, setPage] = useState<'drone' | 't101' | 'kalimba' | 'violin' | 'models' | 'editor'>('drone');
+  // 隨機種子：網址帶 ?seed= 時重現同一組散落位置與飛入順序
+  const [seed, setSeed] = useState(() => readSeedParam(window.location.search) ?? randomSeed());
+
+  const rerollSeed = () => {
+    const next = randomSeed();
+    const url = new URL(window.location.href);
+    url.searchParams.set('seed', String(next));
+    window.history.replaceState(null, '', url);
+    setSeed(next);
+  };
 
   return (
     <div style={{ width: '100vw', height: '100vh', overflow: 'hidden', position: 'relative' }}>
       
       {/* 頁面內容 */}
-      <div style={{ width: '100%', height: '100%' }}>
-        {page === 'drone' && <DronePage />}
-        {page === 't101' && <Taipei101Page />}
-        {page === 'kalimba' && <KalimbaPage />}
-        {page === 'violin' && <ViolinPage />}
-      </div>
+      <SeedContext.Provider value={seed}>
+        <div style={{ width: '100%', height: '100%' }}>
+          {page === 'drone' && <DronePage />}
+          {page === 't101' && <Taipei101Page />}
+          {page === 'kalimba' && <KalimbaPage />}
+          {page === 'violin' && <ViolinPage />}
+          {page === 'models' && <ModelViewerPage />}
+          {page === 'editor' && <EditorPage />}
+        </div>
+      </SeedContext.Provider>
 
       {/* 導航切換器 (RWD 優化) */}
       <div style={{
@@ -49,6 +66,8 @@ export default function App() {
             { id: 't101', label: '台北 101', color: '#2E8B57' },
             { id: 'kalimba', label: '電子拇指琴', color: '#00ced1' },
             { id: 'violin', label: '小提琴模擬', color: '#8b4513' },
+            { id: 'models', label: '積木模型庫', color: '#DAA520' },
+            { id: 'editor', label: '積木編輯器', color: '#1E90FF' },
           ].map((item) => (
             <button
               key={item.id}
@@ -70,6 +89,23 @@ export default function App() {
               {item.label}
             </button>
           ))}
+          <button
+            onClick={rerollSeed}
+            title="隨機種子：點擊換一組，網址加上 ?seed= 可重現相同畫面"
+            style={{
+              padding: '8px 12px',
+              background: 'transparent',
+              color: '#888',
+              border: '1px dashed rgba(255,255,255,0.2)',
+              borderRadius: '16px',
+              cursor: 'pointer',
+              fontFamily: 'monospace',
+              fontSize: '0.85rem',
+              flexShrink: 0
+            }}
+          >
+            🎲 {seed}
+          </button>
         </div>
       </div>
     </div>
@@ -1,263 +1,113 @@
-import React, { useState, useMemo, useRef, useEffect } from 'react';
+import React, { useState, useMemo, useRef, useEffect, useCallback } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
 import { OrbitControls, PerspectiveCamera, Environment, ContactShadows, Float, Stars } from '@react-three/drei';
 import * as THREE from 'three';
 import { motion, AnimatePresence } from 'framer-motion';
-
-// --- 設定與型別 ---
-type BrickData = {
-  id: string;
-  pos: [number, number, number]; // 實際世界座標
-  size: [number, number, number]; // 積木尺寸 (寬, 高, 深)
-  color: string;
-  stage: number; // 組裝階段: 0:機身底座, 1:核心電路, 2:外殼, 3:機臂, 4:鏡頭雲台, 5:螺旋槳
-  rotation?: [number, number, number];
-};
-
-// 樂高材質設定
-const MATERIALS = {
-  BODY_WHITE: '#F0F0F0',    // 機身亮灰白
-  BODY_GREY: '#A0A0A0',     // 機身結構灰
-  DARK_MECH: '#2D2D2D',     // 深色機械件
-  BLACK_PROP: '#151515',    // 螺旋槳黑
-  ORANGE_ACCENT: '#FF6600', // 翼尖橙色
-  LENS_GLASS: '#050505',    // 鏡頭黑
-  SENSOR_BLACK: '#111111',  // 感測器
-  LED_GREEN: '#00FF00',     // 狀態燈
-  LED_RED: '#FF0000'        // 尾燈
-};
-
-// --- 單個樂高積木組件 ---
-const LegoBrick = ({ data, isAssembled, progress }: { data: BrickData, isAssembled: boolean, progress: number }) => {
-  const meshRef = useRef<THREE.Group>(null);
-  
-  // 隨機生成初始散落位置 (在天空上方)
-  const initialPos = useMemo(() => {
-    const angle = Math.random() * Math.PI * 2;
-    const radius = 10 + Math.random() * 20;
-    return new THREE.Vector3(
-      Math.cos(angle) * radius,
-      15 + Math.random() * 15,
-      Math.sin(angle) * radius
-    );
-  }, []);
-
-  // 每個積木的觸發閾值 (0.0 ~ 1.0)
-  // 根據階段和一些隨機性來決定何時開始飛入
-  const threshold = useMemo(() => {
-    // 總階段數 6，每階段佔約 0.15 的進度，稍微重疊
-    const stageBase = data.stage * 0.15; 
-    const randomOffset = Math.random() * 0.1;
-    return stageBase + randomOffset;
-  }, [data.stage]);
-
-  useFrame((state, delta) => {
-    if (!meshRef.current) return;
-
-    // 計算目標位置
-    const targetPos = new THREE.Vector3(...data.pos);
-    
-    // 判斷是否應該開始組裝
-    // 當總體進度 (progress) 超過此積木的閾值 (threshold) 時，開始移動
-    let isActive = isAssembled && progress > threshold;
-    
-    // 如果是「拆解」狀態，我們希望它們反向飛走
-    // 這裡簡化邏輯：只要 isAssembled 為 false，就視為回到初始點
-    if (!isAssembled) isActive = false;
-
-    if (isActive) {
-      // 飛向組裝位置 (Lerp)
-      // 速度隨距離變快，最後變慢
-      meshRef.current.position.lerp(targetPos, 0.1);
-      
-      // 旋轉歸零
-      if (data.rotation) {
-        const targetQ = new THREE.Quaternion().setFromEuler(new THREE.Euler(...data.rotation));
-        meshRef.current.quaternion.slerp(targetQ, 0.1);
-      } else {
-        meshRef.current.quaternion.slerp(new THREE.Quaternion(0,0,0,1), 0.1);
-      }
-    } else {
-      // 飛回初始散落位置
-      meshRef.current.position.lerp(initialPos, 0.05);
-      // 閒置時隨機旋轉
-      meshRef.current.rotation.x += delta * 0.5;
-      meshRef.current.rotation.z += delta * 0.2;
-    }
-  });
-
-  // 幾何體優化：根據尺寸選擇
-  // 這裡為了效能與外觀，統一使用 BoxGeometry 但動態調整 args
-  // 頂部的 Stud (突起)
-  const showStuds = data.size[1] >= 0.2; // 太薄的平板可能不需要側邊細節，但樂高通常頂部都有
-  
-  return (
-    <group ref={meshRef} position={initialPos}>
-      <mesh castShadow receiveShadow>
-        <boxGeometry args={data.size} />
-        <meshStandardMaterial 
-          color={data.color} 
-          roughness={0.2} 
-          metalness={data.color === MATERIALS.LENS_GLASS ? 0.8 : 0.1} 
-        />
-      </mesh>
-      {/* 模擬樂高頂部凸起 (Studs) */}
-      {/* 為了效能，只在積木中心畫一個代表性的 Stud，或是如果積木較大則畫多個 (這裡簡化為中心一個) */}
-      {showStuds && (
-        <mesh position={[0, data.size[1]/2 + 0.05, 0]} castShadow receiveShadow>
-          <cylinderGeometry args={[0.15, 0.15, 0.1, 8]} />
-          <meshStandardMaterial color={data.color} roughness={0.2} />
-        </mesh>
-      )}
-    </group>
-  );
-};
-
-// --- 生成高解析度無人機模型 ---
-const generateComplexDrone = () => {
-  const bricks: BrickData[] = [];
-  let idCounter = 0;
-  
-  // 輔助函數：添加積木
-  // pos: 中心座標, size: 尺寸 (W, H, D)
-  const add = (x: number, y: number, z: number, w: number, h: number, d: number, color: string, stage: number, rot?: [number, number, number]) => {
-    bricks.push({
-      id: `b_${idCounter++}`,
-      pos: [x, y, z],
-      size: [w, h, d],
-      color,
-      stage,
-      rotation: rot
-    });
-  };
-
-  // 單位轉換: 1 unit = 1 standard block size roughly
-  // 使用較小的單位來構建細節 (scale 0.2)
-  const S = 0.25; // 基礎網格大小
-
-  // --- 階段 0: 機身底盤 (Chassis) ---
-  // 底部主板 (長條型)
-  for (let z = -4; z <= 4; z++) {
-    for (let x = -1; x <= 1; x++) {
-      add(x*S*2, 0, z*S*2, S*2, S, S*2, MATERIALS.BODY_GREY, 0);
-    }
-  }
-  // 下腹部感測器區
-  add(0, -S, 0, S*4, S/2, S*4, MATERIALS.DARK_MECH, 0);
-  add(0, -S*1.5, 0, S*2, S/2, S*2, MATERIALS.SENSOR_BLACK, 0);
-
-  // --- 階段 1: 核心結構與電池艙 (Core & Battery) ---
-  // 機身加高
-  for (let z = -3; z <= 3; z++) {
-     add(0.5*S*2, S, z*S*2, S*2, S, S*2, MATERIALS.BODY_WHITE, 1);
-     add(-0.5*S*2, S, z*S*2, S*2, S, S*2, MATERIALS.BODY_WHITE, 1);
-  }
-  // 電池艙隆起 (後方)
-  for (let z = 1; z <= 3; z++) {
-    add(0, S*2, z*S*2, S*3.8, S, S*2, MATERIALS.BODY_GREY, 1);
-  }
-  // 尾部散熱孔細節
-  add(0, S*2, 4*S*2, S*3, S, S/2, MATERIALS.DARK_MECH, 1);
-
-  // --- 階段 2: 外殼修飾 (Shell) ---
-  // 機頭圓潤化 (前緣)
-  add(0, S, -4*S*2 - S, S*3, S, S*2, MATERIALS.BODY_WHITE, 2);
-  // 機背流線型
-  add(0, S*2.5, 0, S*3.5, S/2, S*6, MATERIALS.BODY_WHITE, 2);
-  // 側邊裝飾線條
-  add(1.2*S*2, S*0.5, 0, S/2, S, S*8, MATERIALS.DARK_MECH, 2);
-  add(-1.2*S*2, S*0.5, 0, S/2, S, S*8, MATERIALS.DARK_MECH, 2);
-
-  // --- 階段 3: 機臂 (Arms) ---
-  // 前機臂 (向外展開)
-  const armLen = 6;
-  const armThick = S;
-  // 左前
-  for(let i=1; i<=armLen; i++) {
-    add((-2*S) - (i*S), S, (-3*S) - (i*S*0.5), S*2, armThick, S*2, MATERIALS.BODY_GREY, 3);
-  }
-  // 右前
-  for(let i=1; i<=armLen; i++) {
-    add((2*S) + (i*S), S, (-3*S) - (i*S*0.5), S*2, armThick, S*2, MATERIALS.BODY_GREY, 3);
-  }
-  // 左後 (較低)
-  for(let i=1; i<=armLen; i++) {
-    add((-2*S) - (i*S), 0, (3*S) + (i*S*0.5), S*2, armThick, S*2, MATERIALS.BODY_GREY, 3);
-  }
-  // 右後 (較低)
-  for(let i=1; i<=armLen; i++) {
-    add((2*S) + (i*S), 0, (3*S) + (i*S*0.5), S*2, armThick, S*2, MATERIALS.BODY_GREY, 3);
-  }
-  // 機臂腳墊
-  add((-2*S) - (armLen*S), -S, (-3*S) - (armLen*S*0.5), S, S, S, MATERIALS.DARK_MECH, 3);
-  add((2*S) + (armLen*S), -S, (-3*S) - (armLen*S*0.5), S, S, S, MATERIALS.DARK_MECH, 3);
-
-  // --- 階段 4: 鏡頭雲台 (Gimbal) ---
-  // 懸掛支架
-  add(0, -S, -4.5*S*2, S*2, S, S*2, MATERIALS.DARK_MECH, 4);
-  // 鏡頭主體 (黑色方塊)
-  add(0, -S*2, -4.5*S*2, S*2.5, S*2, S*2.5, MATERIALS.LENS_GLASS, 4);
-  // 鏡頭圈 (灰色環)
-  add(0, -S*2, -4.5*S*2 - S*1.5, S*1.5, S*1.5, S/2, MATERIALS.BODY_GREY, 4);
-  // 鏡頭玻璃
-  add(0, -S*2, -4.5*S*2 - S*1.8, S, S, S/4, '#000033', 4);
-
-  // --- 階段 5: 螺旋槳與馬達 (Props) ---
-  const motorPositions = [
-    { x: (-2*S) - (armLen*S), z: (-3*S) - (armLen*S*0.5), y: S + armThick }, // FL
-    { x: (2*S) + (armLen*S), z: (-3*S) - (armLen*S*0.5), y: S + armThick },  // FR
-    { x: (-2*S) - (armLen*S), z: (3*S) + (armLen*S*0.5), y: 0 + armThick },  // BL
-    { x: (2*S) + (armLen*S), z: (3*S) + (armLen*S*0.5), y: 0 + armThick },   // BR
-  ];
-
-  motorPositions.forEach(pos => {
-    // 馬達座
-    add(pos.x, pos.y, pos.z, S*2.5, S, S*2.5, MATERIALS.DARK_MECH, 5);
-    // 轉軸
-    add(pos.x, pos.y + S, pos.z, S, S/2, S, MATERIALS.BODY_WHITE, 5);
-    
-    // 槳葉 (兩片) - 這裡做成靜態的「積木」，旋轉由父級 Group 控制
-    // 為了視覺效果，我們把槳葉拆成幾段小板
-    const bladeLen = 5;
-    // Blade 1
-    for(let k=1; k<=bladeLen; k++) {
-       const color = k === bladeLen ? MATERIALS.ORANGE_ACCENT : MATERIALS.BLACK_PROP;
-       add(pos.x + k*S*0.8, pos.y + S*1.2, pos.z + k*S*0.2, S*1.5, S/5, S, color, 5, [0, 0.2, 0]);
-    }
-    // Blade 2
-    for(let k=1; k<=bladeLen; k++) {
-       const color = k === bladeLen ? MATERIALS.ORANGE_ACCENT : MATERIALS.BLACK_PROP;
-       add(pos.x - k*S*0.8, pos.y + S*1.2, pos.z - k*S*0.2, S*1.5, S/5, S, color, 5, [0, 0.2, 0]);
-    }
-  });
-
-  return bricks;
-};
+import { BrickData, getAssemblyDuration, getMaxStage } from './lego/model';
+import { getModel } from './lego/registry';
+import BrickInstances from './lego/BrickInstances';
+import { BrickAppearance } from './lego/geometry';
+import { buildInstructionSteps } from './lego/instructions';
+import { CaptureBridge, CaptureFn, InstructionScene, InstructionsPanel } from './lego/Instructions';
+import PartsPanel from './lego/PartsPanel';
+import ValidationPanel, { ISSUE_COLORS } from './lego/ValidationPanel';
+import { collectIssues, validateModel } from './lego/validate';
+import StructurePanel, { structureColors } from './lego/StructurePanel';
+import { analyzeStructure } from './lego/structure';
+import { THEMES, nextTheme, themeColorOf } from './lego/themes';
+import { AssemblyTimeline, useAssemblyTimeline, useTimelineClock } from './lego/timeline';
+import { PhysicsWorld, createPhysicsWorld, shatter, stepPhysics } from './lego/physics';
+import { hashString, mulberry32, useSeed } from './lego/random';
+import ToolButton from './ui/ToolButton';
+import TimelineBar from './ui/TimelineBar';
+import { dampVector3, lambdaFromFrameFactor } from './animation';
+import { headingOf, resetQuadrotor, stepQuadrotor } from './flight/quadrotor';
+import { createDroneSim, splitDroneBricks } from './flight/airframe';
+import { FlightMode, Path, flightSetpoint, pathSetpoint } from './flight/modes';
+import { Setpoint } from './flight/controller';
+import {
+  DEFAULT_MISSION, Mission, MissionPlan, MissionProgress, missionProgress as getMissionProgress, missionPosition, planMission
+} from './flight/mission';
+import MissionPath from './flight/MissionPath';
+import MissionPanel from './ui/MissionPanel';
+import { DEFAULT_PILOT, Pilot, PilotInput, PilotSettings, pilotSetpoint, shapeSticks, usePilotInput } from './flight/pilot';
+import PilotPanel from './ui/PilotPanel';
+import { DEFAULT_GIMBAL, LENS_POSITION } from './flight/gimbal';
+import GimbalView from './flight/GimbalView';
+import GimbalPanel from './ui/GimbalPanel';
+import { downloadUrl } from './download';
+import { Telemetry, createTelemetry, recordTelemetry, resetTelemetry } from './flight/telemetry';
+import TelemetryHud from './ui/TelemetryHud';
+import {
+  Battery, BatteryPhase, BatterySettings, DEFAULT_BATTERY, batteryInControl, batterySetpoint, createBattery, drainBattery,
+  motorsStopped, resetBattery
+} from './flight/battery';
+import BatteryPanel from './ui/BatteryPanel';
+import {
+  FlightRecording, Recorder, createRecorder, recordFrame, sampleRecording, startRecorder, stopRecorder
+} from './flight/recording';
+import FlightTrail from './flight/FlightTrail';
+import RecordingPanel from './ui/RecordingPanel';
+
+const droneModel = getModel('drone');
+
+// 1 倍速時每秒組裝的階段數
+const STAGES_PER_SECOND = 2;
+// 地面高度 (陰影與格線所在的平面，也是墜機時積木落地的地方)
+const GROUND_Y = -2;
+// 回到原點的速率 (沿用 60fps 下每幀 lerp 0.1 的手感)
+const RETURN_LAMBDA = lambdaFromFrameFactor(0.1);
+const ORIGIN = new THREE.Vector3(0, 0, 0);
+
+// 飛行控制面板的模式按鈕
+const FLIGHT_MODES: { id: FlightMode, label: string, icon: string }[] = [
+  { id: 'idle', label: '懸停待機', icon: '⏹' },
+  { id: 'circle', label: '環繞偵查', icon: '↺' },
+  { id: 'figure8', label: '8字巡航', icon: '∞' },
+  { id: 'spiral', label: '螺旋戰術', icon: '⌇' },
+  { id: 'flip', label: '特技翻滾', icon: '⤾' },
+  { id: 'manual', label: '手動飛行', icon: '🎮' },
+  { id: 'mission', label: '航點任務', icon: '📍' }
+];
 
 // --- 螺旋槳組件 ---
 const PropellerGroup = ({ 
   bricks, 
   position, 
-  isAssembled, 
-  progress, 
-  direction 
+  time, 
+  teardown, 
+  ready, 
+  direction,
+  still,
+  appearance,
+  colorOf
 }: { 
   bricks: BrickData[], 
   position: [number, number, number], 
-  isAssembled: boolean, 
-  progress: number,
-  direction: number // 1 for CW, -1 for CCW
+  time: number, 
+  teardown: boolean, 
+  ready: boolean, // 馬達運轉中 (組裝完成且電池有電)
+  direction: number, // 1 = 由上往下看逆時針 (rotation.y 遞增)，-1 = 順時針
+  still?: boolean,   // 重播的幽靈機：積木直接擺在組裝位置
+  appearance?: BrickAppearance,
+  colorOf?: (brick: BrickData) => string
 }) => {
   const groupRef = useRef<THREE.Group>(null);
 
+  // 修正積木位置：因為 Group 已經在馬達位置了，積木的 local position 需要減去馬達位置
+  const localBricks = useMemo(() => bricks.map(brick => ({
+    ...brick,
+    pos: [brick.pos[0] - position[0], brick.pos[1] - position[1], brick.pos[2] - position[2]] as [number, number, number]
+  })), [bricks, position]);
+
   useFrame((state, delta) => {
     if (!groupRef.current) return;
     
-    // 當組裝進度到達一定程度（螺旋槳已安裝），且處於組裝狀態時，開始旋轉
-    if (isAssembled && progress > 1.2) {
+    // 組裝完成 (螺旋槳已安裝) 且電池有電時旋轉
+    if (ready) {
       // 高速旋轉
       groupRef.current.rotation.y += delta * 20 * direction;
-    } else if (!isAssembled) {
+    } else {
       // 停止旋轉
        groupRef.current.rotation.y = 0;
     }
@@ -265,220 +115,354 @@ const PropellerGroup = ({
 
   return (
     <group ref={groupRef} position={position}>
-      {bricks.map((brick) => (
-        // 修正積木位置：因為 Group 已經在馬達位置了，積木的 local position 需要減去馬達位置
-        <LegoBrick 
-          key={brick.id} 
-          data={{
-            ...brick, 
-            pos: [brick.pos[0] - position[0], brick.pos[1] - position[1], brick.pos[2] - position[2]]
-          }} 
-          isAssembled={isAssembled}
-          progress={progress}
-        />
-      ))}
+      <BrickInstances
+        bricks={localBricks}
+        time={time}
+        teardown={teardown}
+        fly={droneModel.fly}
+        still={still}
+        appearance={appearance}
+        colorOf={colorOf}
+      />
     </group>
   );
 };
 
+// --- 分離積木數據：機身積木 vs 螺旋槳積木 (即時的無人機與重播的幽靈機共用) ---
+const splitDrone = () => splitDroneBricks(droneModel.generate());
+
 // --- 無人機整體組件 ---
-const Drone = ({ assemble, flightMode }: { assemble: boolean, flightMode: string }) => {
-  // 分離積木數據：機身積木 vs 螺旋槳積木
-  const { bodyBricks, propGroups } = useMemo(() => {
-    const allBricks = generateComplexDrone();
-    const body: BrickData[] = [];
-    // 依據馬達位置將螺旋槳分組
-    // 這裡我們硬編碼馬達位置來過濾 (從 generateComplexDrone 裡面的邏輯反推)
-    // 馬達位置 roughly at: FL(-3.5, -3.5), FR(3.5, -3.5), BL(-3.5, 3.5), BR(3.5, 3.5)
-    // 我們可以根據 stage 5 來抓取
-    
-    const groups: { [key: string]: BrickData[] } = {
-      'FL': [], 'FR': [], 'BL': [], 'BR': []
-    };
-
-    allBricks.forEach(b => {
-      if (b.stage === 5 && b.color !== '#2D2D2D') { 
-        // 排除馬達座本身 (DARK_MECH #2D2D2D)，只取轉軸和葉片
-        // 根據位置判斷屬於哪個螺旋槳
-        if (b.pos[0] < 0 && b.pos[2] < 0) groups['FL'].push(b);
-        else if (b.pos[0] > 0 && b.pos[2] < 0) groups['FR'].push(b);
-        else if (b.pos[0] < 0 && b.pos[2] > 0) groups['BL'].push(b);
-        else if (b.pos[0] > 0 && b.pos[2] > 0) groups['BR'].push(b);
-        else body.push(b); // 應該不會發生，除非有正中心的
-      } else {
-        body.push(b);
-      }
-    });
-
-    return { 
-      bodyBricks: body, 
-      propGroups: [
-        { name: 'FL', bricks: groups['FL'], pos: [-3.5 * 0.25 - 6 * 0.25, 0.25 + 0.25, -3 * 0.25 - 6 * 0.25 * 0.5], dir: 1 }, 
-        // 注意：這裡的位置必須跟 generateComplexDrone 裡的馬達中心完全一致，否則旋轉會偏心
-        // 讓我們重新看 generateComplexDrone 的邏輯：
-        // motorPositions:
-        // FL: x: (-2*S) - (armLen*S), z: (-3*S) - (armLen*S*0.5)
-        // S = 0.25, armLen = 6
-        // x = -0.5 - 1.5 = -2.0
-        // z = -0.75 - 0.75 = -1.5
-        // y = S + S = 0.5
-        // 讓我們直接用數值
-        { name: 'FL', bricks: groups['FL'], pos: [-2.0, 0.5, -1.5], dir: 1 },
-        { name: 'FR', bricks: groups['FR'], pos: [2.0, 0.5, -1.5], dir: -1 },
-        { name: 'BL', bricks: groups['BL'], pos: [-2.0, 0.25, 1.5], dir: -1 }, // Back arms are lower (y=0 + armThick=0.25) => y=0.25
-        { name: 'BR', bricks: groups['BR'], pos: [2.0, 0.25, 1.5], dir: 1 },
-      ] as const
-    };
-  }, []);
+const Drone = ({ timeline, flightMode, pilotInput, pilotSettings, missionPlan, missionRunning, missionProgress, lens, telemetry, battery, batterySettings, batteryPhase, onBatteryPhase, recorder, crashed, colorOf }: {
+  timeline: AssemblyTimeline,
+  flightMode: FlightMode,
+  pilotInput: React.MutableRefObject<PilotInput>,
+  pilotSettings: PilotSettings,
+  missionPlan: MissionPlan,
+  missionRunning: boolean,
+  missionProgress: React.MutableRefObject<MissionProgress | null>, // 每幀寫入，供任務面板顯示
+  lens: React.RefObject<THREE.PerspectiveCamera>, // 雲台相機，航拍畫面由 GimbalView 繪製
+  telemetry: React.MutableRefObject<Telemetry>,   // 每幀寫入，供遙測 HUD 顯示
+  battery: React.MutableRefObject<Battery>,
+  batterySettings: BatterySettings,
+  batteryPhase: BatteryPhase,                     // 頁面上的電池階段 (切換時由 onBatteryPhase 通知)
+  onBatteryPhase: (phase: BatteryPhase) => void,
+  recorder: React.MutableRefObject<Recorder>,     // 錄製中時每幀寫入
+  crashed: boolean,
+  colorOf?: (brick: BrickData) => string
+}) => {
+  const { allBricks, bodyBricks, propGroups } = useMemo(splitDrone, []);
 
   const groupRef = useRef<THREE.Group>(null);
-  const [progress, setProgress] = useState(0);
   const flightTime = useRef(0);
-
-  // ... (保留原有的 useFrame 飛行邏輯，這部分不變) ...
-  useFrame((state, delta) => {
-    // 組裝/拆解進度邏輯
-    if (assemble) {
-      setProgress(p => Math.min(p + delta * 0.3, 1.5));
-    } else {
-      setProgress(p => Math.max(p - delta * 0.8, 0));
+  // 組裝進度由頁面的時間軸推進；全部落定後才開始轉動與飛行
+  useTimelineClock(timeline);
+  const ready = timeline.complete;
+  const spinning = ready && !motorsStopped(batteryPhase);
+
+  // 墜機：以無人機目前的飛行姿態建立物理世界並炸開，時間軸歸零後積木改由模擬擺放；
+  // 重新組裝時積木從摔落的位置飛回去
+  const seed = useSeed();
+  const [wreck, setWreck] = useState<PhysicsWorld | null>(null);
+  useEffect(() => {
+    if (crashed && !wreck && groupRef.current) {
+      groupRef.current.updateMatrix();
+      const world = createPhysicsWorld(allBricks, { groundY: GROUND_Y, transform: groupRef.current.matrix });
+      shatter(world, mulberry32(hashString(`${seed}:crash`)));
+      setWreck(world);
+      timeline.reset();
+    } else if (!crashed && wreck) {
+      setWreck(null);
     }
+  }, [crashed, wreck, allBricks, seed, timeline]);
 
+  // 飛行：四旋翼模擬追蹤飛行模式給的設定點，機身姿態完全來自模擬
+  const sim = useMemo(() => createDroneSim(allBricks, propGroups, GROUND_Y), [allBricks, propGroups]);
+
+  // 手動飛行的目標機頭方向；切進手動模式時從目前方向開始
+  const pilot = useRef<Pilot>({ yaw: 0 });
+  const lastMode = useRef(flightMode);
+  // 航點任務從按下「執行」開始計時
+  const missionTime = useRef(0);
+  const missionPath = useMemo<Path>(() => (t, out) => missionPosition(missionPlan, t, out), [missionPlan]);
+
+  useFrame((state, delta) => {
+    // 積木散落在地上時才模擬；開始重新組裝後就交給時間軸
+    if (wreck && timeline.time === 0) stepPhysics(wreck, delta);
     if (!groupRef.current) return;
 
-    // 基礎懸停 (當還沒組裝好，或處於 Idle 模式時)
-    if (progress > 1.2 && flightMode === 'idle') {
-       const t = state.clock.getElapsedTime();
-       groupRef.current.position.set(0, Math.sin(t * 1.5) * 0.3, 0);
-       groupRef.current.rotation.set(
-         Math.sin(t * 0.8) * 0.05, 
-         0, 
-         Math.cos(t * 0.5) * 0.05
-       );
-    } 
-    // 特技飛行模式邏輯
-    else if (progress > 1.2 && assemble) {
+    if (ready) {
       flightTime.current += delta;
-      const t = flightTime.current;
-
-      if (flightMode === 'circle') {
-        const radius = 6;
-        const speed = 0.8;
-        const x = Math.cos(t * speed) * radius;
-        const z = Math.sin(t * speed) * radius;
-        groupRef.current.position.set(x, 0, z);
-        groupRef.current.lookAt(0, 0, 0); 
-      } 
-      else if (flightMode === 'figure8') {
-        const scale = 6;
-        const speed = 1.0;
-        const x = (scale * Math.cos(t * speed)) / (1 + Math.sin(t * speed) ** 2);
-        const z = (scale * Math.cos(t * speed) * Math.sin(t * speed)) / (1 + Math.sin(t * speed) ** 2);
-        const y = Math.sin(t * speed * 2) * 1.5;
-        groupRef.current.position.set(x, y, z);
-        const nextT = t + 0.1;
-        const nextX = (scale * Math.cos(nextT * speed)) / (1 + Math.sin(nextT * speed) ** 2);
-        const nextZ = (scale * Math.cos(nextT * speed) * Math.sin(nextT * speed)) / (1 + Math.sin(nextT * speed) ** 2);
-        const nextY = Math.sin(nextT * speed * 2) * 1.5;
-        groupRef.current.lookAt(nextX, nextY, nextZ);
-        const bankAngle = (x - nextX) * 2; 
-        groupRef.current.rotateZ(bankAngle);
-      }
-      else if (flightMode === 'spiral') {
-        const cycle = t % 8; 
-        let y, x, z;
-        if (cycle < 5) {
-          const radius = 3;
-          const upSpeed = 2;
-          const rotSpeed = 3;
-          y = -2 + cycle * upSpeed;
-          x = Math.cos(cycle * rotSpeed) * radius;
-          z = Math.sin(cycle * rotSpeed) * radius;
-          groupRef.current.position.set(x, y, z);
-          groupRef.current.lookAt(
-            Math.cos((cycle+0.1) * rotSpeed) * radius,
-            -2 + (cycle+0.1) * upSpeed,
-            Math.sin((cycle+0.1) * rotSpeed) * radius
-          );
-        } else {
-          const dropProgress = (cycle - 5) / 3; 
-          groupRef.current.position.lerp(new THREE.Vector3(0, 0, 0), 0.1);
-          groupRef.current.rotation.set(0, 0, 0);
-        }
+      const heading = headingOf(sim.state.quaternion);
+      if (flightMode === 'manual' && lastMode.current !== 'manual') pilot.current.yaw = heading;
+      lastMode.current = flightMode;
+      let setpoint: Setpoint;
+      if (batteryInControl(battery.current.phase)) {
+        // 低電量：自動返航 / 降落，或馬達停轉，飛行模式暫停
+        setpoint = batterySetpoint(battery.current, sim, ORIGIN, delta);
+      } else if (flightMode === 'manual') {
+        setpoint = pilotSetpoint(shapeSticks(pilotInput.current.sticks, pilotSettings), pilotSettings, pilot.current, sim.state.quaternion, sim.params, delta);
+      } else if (flightMode === 'mission' && missionRunning) {
+        missionTime.current += delta;
+        missionProgress.current = getMissionProgress(missionPlan, missionTime.current);
+        setpoint = pathSetpoint(missionPath, missionTime.current, heading);
+      } else {
+        setpoint = flightSetpoint(flightMode === 'mission' ? 'idle' : flightMode, flightTime.current, heading, sim.params);
       }
-      else if (flightMode === 'flip') {
-        const cycle = t % 2; 
-        if (cycle > 0.5 && cycle < 1.5) {
-          const rotateProg = (cycle - 0.5) / 1; 
-          groupRef.current.rotation.z = rotateProg * Math.PI * 2;
-          groupRef.current.position.y = Math.sin(rotateProg * Math.PI) * 2; 
-        } else {
-           groupRef.current.rotation.z = 0;
-           groupRef.current.position.y = THREE.MathUtils.lerp(groupRef.current.position.y, 0, 0.1);
-        }
+      if (!(flightMode === 'mission' && missionRunning)) {
+        missionTime.current = 0;
+        missionProgress.current = null;
       }
+      stepQuadrotor(sim, setpoint, delta);
+      groupRef.current.position.copy(sim.state.position);
+      groupRef.current.quaternion.copy(sim.state.quaternion);
+      recordTelemetry(telemetry.current, groupRef.current, sim, delta);
+      const phase = drainBattery(battery.current, sim, batterySettings, delta);
+      if (phase !== batteryPhase) onBatteryPhase(phase);
+      recordFrame(recorder.current, groupRef.current, flightMode, !motorsStopped(phase), delta);
     } else {
-       if (groupRef.current) {
-         groupRef.current.position.y = THREE.MathUtils.lerp(groupRef.current.position.y, 0, 0.1);
-         groupRef.current.position.x = THREE.MathUtils.lerp(groupRef.current.position.x, 0, 0.1);
-         groupRef.current.position.z = THREE.MathUtils.lerp(groupRef.current.position.z, 0, 0.1);
-         groupRef.current.rotation.set(0,0,0);
-       }
+      // 組裝 / 拆解中：回到原點擺正，模擬也從這裡重新起飛
+      dampVector3(groupRef.current.position, ORIGIN, RETURN_LAMBDA, delta);
+      groupRef.current.rotation.set(0, 0, 0);
+      resetQuadrotor(sim, groupRef.current.position);
+      resetTelemetry(telemetry.current);
+      resetBattery(battery.current);
+      if (batteryPhase !== 'normal') onBatteryPhase('normal');
     }
   });
 
+  if (wreck) {
+    return (
+      <BrickInstances
+        bricks={allBricks}
+        time={timeline.time}
+        teardown={timeline.teardown}
+        from={wreck.bodies}
+        fly={droneModel.fly}
+        colorOf={colorOf}
+      />
+    );
+  }
+
   return (
-    <group ref={groupRef}>
-      {/* 靜態機身部分 */}
-      {bodyBricks.map((brick) => (
-        <LegoBrick 
-          key={brick.id} 
-          data={brick} 
-          isAssembled={assemble}
-          progress={progress}
-        />
-      ))}
-
-      {/* 動態螺旋槳部分 */}
-      {propGroups.map((group, i) => (
-        <PropellerGroup 
-          key={i}
-          bricks={group.bricks}
-          position={group.pos as [number, number, number]}
-          isAssembled={assemble}
-          progress={progress}
-          direction={group.dir}
+    <>
+      <FlightTrail target={groupRef} active={ready} color="#FF6600" />
+      <group ref={groupRef}>
+        {/* 鏡頭積木上的雲台相機 (姿態由 GimbalView 穩定) */}
+        <perspectiveCamera ref={lens} position={LENS_POSITION} fov={70} near={0.05} far={200} />
+
+        {/* 靜態機身部分 */}
+        <BrickInstances
+          bricks={bodyBricks}
+          time={timeline.time}
+          teardown={timeline.teardown}
+          fly={droneModel.fly}
+          colorOf={colorOf}
         />
-      ))}
-      
-      {/* 額外的視覺模糊圓盤 (當轉速快時顯示) */}
-      <AnimatePresence>
-        {progress > 1.2 && assemble && (
-           propGroups.map((group, i) => (
-             <group key={`blur_${i}`} position={group.pos as [number, number, number]}>
-               <mesh rotation={[0, 0, 0]} position={[0, 0.2, 0]}>
-                 <cylinderGeometry args={[2.0, 2.0, 0.02, 32]} />
-                 <meshBasicMaterial color="#ffffff" transparent opacity={0.1} depthWrite={false} />
-               </mesh>
-             </group>
-           ))
-        )}
-      </AnimatePresence>
-    </group>
+
+        {/* 動態螺旋槳部分 */}
+        {propGroups.map((group, i) => (
+          <PropellerGroup 
+            key={i}
+            bricks={group.bricks}
+            position={group.pos as [number, number, number]}
+            time={timeline.time}
+            teardown={timeline.teardown}
+            ready={spinning}
+            direction={group.dir}
+            colorOf={colorOf}
+          />
+        ))}
+        
+        {/* 額外的視覺模糊圓盤 (當轉速快時顯示) */}
+        <AnimatePresence>
+          {spinning && (
+             propGroups.map((group, i) => (
+               <group key={`blur_${i}`} position={group.pos as [number, number, number]}>
+                 <mesh rotation={[0, 0, 0]} position={[0, 0.2, 0]}>
+                   <cylinderGeometry args={[2.0, 2.0, 0.02, 32]} />
+                   <meshBasicMaterial color="#ffffff" transparent opacity={0.1} depthWrite={false} />
+                 </mesh>
+               </group>
+             ))
+          )}
+        </AnimatePresence>
+      </group>
+    </>
+  );
+};
+
+// --- 重播用的幽靈機 ---
+// 半透明、淡藍色，依飛行紀錄的時間內插姿態並循環播放；螺旋槳是否轉動也照紀錄
+const GHOST_COLOR = '#66ccff';
+const ghostColor = () => GHOST_COLOR;
+
+const GhostDrone = ({ recording, playing }: { recording: FlightRecording, playing: boolean }) => {
+  const { bodyBricks, propGroups } = useMemo(splitDrone, []);
+  const groupRef = useRef<THREE.Group>(null);
+  const time = useRef(0);
+  const [spinning, setSpinning] = useState(false);
+  // 每次循環回到起點時清掉航跡
+  const [loop, setLoop] = useState(0);
+  useEffect(() => { time.current = 0; }, [recording]);
+
+  useFrame((state, delta) => {
+    if (!groupRef.current) return;
+    if (playing) {
+      time.current += delta;
+      if (time.current > recording.duration) {
+        time.current %= recording.duration;
+        setLoop(n => n + 1);
+      }
+    }
+    const frame = sampleRecording(recording, time.current, groupRef.current);
+    if (frame.spinning !== spinning) setSpinning(frame.spinning);
+  });
+
+  return (
+    <>
+      <FlightTrail target={groupRef} active color={GHOST_COLOR} resetKey={loop} />
+      <group ref={groupRef}>
+        <BrickInstances bricks={bodyBricks} time={0} fly={droneModel.fly} still appearance="faded" colorOf={ghostColor} />
+        {propGroups.map((group, i) => (
+          <PropellerGroup
+            key={i}
+            bricks={group.bricks}
+            position={group.pos as [number, number, number]}
+            time={0}
+            teardown={false}
+            ready={spinning}
+            direction={group.dir}
+            still
+            appearance="faded"
+            colorOf={ghostColor}
+          />
+        ))}
+      </group>
+    </>
   );
 };
 
 // --- 主程式 ---
 export default function DronePage() {
-  const [assemble, setAssemble] = useState(false);
-  const [flightMode, setFlightMode] = useState('idle'); // idle, circle, figure8, spiral, flip
+  const [flightMode, setFlightMode] = useState<FlightMode>('idle');
+  // 手動飛行：只在手動模式且組裝完成時讀取鍵盤 / 手把
+  const [pilotSettings, setPilotSettings] = useState(DEFAULT_PILOT);
+  // 航點任務：規劃時點擊地面新增航點；修改航點會中止正在執行的任務
+  const [mission, setMission] = useState<Mission>(DEFAULT_MISSION);
+  const [planning, setPlanning] = useState(false);
+  const [missionRunning, setMissionRunning] = useState(false);
+  const missionProgress = useRef<MissionProgress | null>(null);
+  const missionPlan = useMemo(() => planMission(mission, ORIGIN, GROUND_Y), [mission]);
+  const editMission = (next: Mission) => {
+    setMissionRunning(false);
+    setMission(next);
+  };
+  const addWaypoint = (x: number, z: number) =>
+    editMission({ ...mission, waypoints: [...mission.waypoints, { x, z, altitude: 3, hover: 1 }] });
+  const selectFlightMode = (mode: FlightMode) => {
+    setFlightMode(mode);
+    setMissionRunning(false);
+  };
+  // 航拍畫面：鏡頭相機的子母畫面，可對調成全螢幕
+  const [aerial, setAerial] = useState(true);
+  const [aerialFullscreen, setAerialFullscreen] = useState(false);
+  const [gimbalSettings, setGimbalSettings] = useState(DEFAULT_GIMBAL);
+  const lensRef = useRef<THREE.PerspectiveCamera>(null);
+  const snapshotRef = useRef<CaptureFn | null>(null);
+  // 飛行遙測 (HUD 與小地圖航跡)
+  const telemetry = useRef(createTelemetry(ORIGIN));
+  // 電池：電量每幀在 Drone 裡扣，階段切換時才更新頁面 (螺旋槳停轉、面板狀態)
+  const battery = useRef(createBattery());
+  const [batterySettings, setBatterySettings] = useState(DEFAULT_BATTERY);
+  const [batteryPhase, setBatteryPhase] = useState<BatteryPhase>('normal');
+  const replaceBattery = () => {
+    resetBattery(battery.current);
+    setBatteryPhase('normal');
+  };
+  // 飛行紀錄：錄製停止後的紀錄 (或匯入的檔案) 由幽靈機重播
+  const [showRecorder, setShowRecorder] = useState(false);
+  const recorder = useRef(createRecorder());
+  const [recording, setRecording] = useState(false);
+  const [replay, setReplay] = useState<FlightRecording | null>(null);
+  const [replaying, setReplaying] = useState(false);
+  const toggleRecording = (next: boolean) => {
+    if (next) {
+      startRecorder(recorder.current);
+    } else {
+      const recorded = stopRecorder(recorder.current);
+      if (recorded) setReplay(recorded);
+      setReplaying(false);
+    }
+    setRecording(next);
+  };
+  const selectReplay = (next: FlightRecording | null) => {
+    setReplay(next);
+    if (!next) setReplaying(false);
+  };
+  const handleSnapshot = () => {
+    const url = snapshotRef.current?.();
+    if (url) downloadUrl(`aerial-${Date.now()}.png`, url);
+  };
+  // 墜機測試：積木摔散在地上，直到重新組裝完成
+  const [crashed, setCrashed] = useState(false);
+  // 說明書模式
+  const [instructions, setInstructions] = useState(false);
+  const [step, setStep] = useState(0);
+  const modelBricks = useMemo(() => droneModel.generate(), []);
+  const steps = useMemo(() => buildInstructionSteps(modelBricks), [modelBricks]);
+  // 組裝時間軸：倒帶回起點 (拆解完成) 時飛行模式一併重置
+  const duration = useMemo(() => getAssemblyDuration(modelBricks, droneModel.fly), [modelBricks]);
+  const maxStage = useMemo(() => getMaxStage(modelBricks), [modelBricks]);
+  const timeline = useAssemblyTimeline({
+    duration,
+    maxStage,
+    stagesPerSecond: STAGES_PER_SECOND,
+    onEvent: event => {
+      if (event.type === 'rewound') setFlightMode('idle');
+      if (event.type === 'complete') setCrashed(false);
+    }
+  });
+  // 正在組裝或已組裝 (按鈕變成「重置組裝」)
+  const assemble = timeline.time > 0 && timeline.direction > 0;
+  const flying = timeline.complete && !crashed && !instructions;
+  const manual = flightMode === 'manual' && flying;
+  const missionMode = flightMode === 'mission' && flying;
+  const aerialView = aerial && flying;
+  const pilotInput = usePilotInput(manual);
+  const [showParts, setShowParts] = useState(false);
+  // 模型檢查：有問題的積木標紅，其餘淡成灰色；結構分析：依弱點程度顯示熱度圖
+  const [overlay, setOverlay] = useState<'none' | 'validation' | 'structure'>('none');
+  const report = useMemo(() => validateModel(modelBricks), [modelBricks]);
+  const issues = useMemo(() => collectIssues(report), [report]);
+  const issueColor = useCallback((brick: BrickData) => ISSUE_COLORS[issues.get(brick.id) ?? 'ok'], [issues]);
+  const structure = useMemo(() => analyzeStructure(modelBricks), [modelBricks]);
+  const heat = useMemo(() => structureColors(modelBricks, structure), [modelBricks, structure]);
+  const heatColorOf = useCallback((brick: BrickData) => heat.get(brick.id) ?? '#555555', [heat]);
+  // 配色主題 (檢查 / 分析的標示優先)
+  const [theme, setTheme] = useState(THEMES[0]);
+  const themeColor = useMemo(() => themeColorOf(theme), [theme]);
+  const overlayColor = overlay === 'validation' ? issueColor : overlay === 'structure' ? heatColorOf : themeColor;
+  const toggleOverlay = (next: 'validation' | 'structure') => setOverlay(overlay === next ? 'none' : next);
+  const captureRef = useRef<CaptureFn | null>(null);
 
   const handleAssembleToggle = () => {
     if (assemble) {
       // 如果正在拆解，先重置飛行模式
       setFlightMode('idle');
+      timeline.rewind();
+    } else {
+      timeline.play();
     }
-    setAssemble(!assemble);
+  };
+
+  const handleInstructionsToggle = () => {
+    if (!instructions) {
+      timeline.reset();
+      setCrashed(false);
+      setFlightMode('idle');
+      setStep(0);
+    }
+    setInstructions(!instructions);
   };
 
   return (
@@ -495,12 +479,49 @@ export default function DronePage() {
         <pointLight position={[-10, 5, -10]} intensity={0.8} color="#4455ff" />
         <pointLight position={[10, -5, 10]} intensity={0.5} color="#ffaa44" />
 
-        <Float rotationIntensity={0} floatIntensity={0}> 
-          <Drone assemble={assemble} flightMode={flightMode} />
-        </Float>
+        {instructions ? (
+          <InstructionScene steps={steps} index={step} fly={droneModel.fly} />
+        ) : (
+          <Float rotationIntensity={0} floatIntensity={0}> 
+            <Drone
+              timeline={timeline}
+              flightMode={flightMode}
+              pilotInput={pilotInput}
+              pilotSettings={pilotSettings}
+              missionPlan={missionPlan}
+              missionRunning={missionRunning}
+              missionProgress={missionProgress}
+              lens={lensRef}
+              telemetry={telemetry}
+              battery={battery}
+              batterySettings={batterySettings}
+              batteryPhase={batteryPhase}
+              onBatteryPhase={setBatteryPhase}
+              recorder={recorder}
+              crashed={crashed}
+              colorOf={overlayColor}
+            />
+          </Float>
+        )}
+        {missionMode && (
+          <MissionPath
+            plan={missionPlan}
+            waypoints={mission.waypoints}
+            groundY={GROUND_Y}
+            planning={planning}
+            progress={missionProgress}
+            onAdd={addWaypoint}
+            accent="#FF6600"
+          />
+        )}
+        {replay && !instructions && <GhostDrone recording={replay} playing={replaying} />}
+        {aerialView && (
+          <GimbalView lens={lensRef} settings={gimbalSettings} fullscreen={aerialFullscreen} captureRef={snapshotRef} />
+        )}
+        <CaptureBridge captureRef={captureRef} />
 
-        <ContactShadows position={[0, -2, 0]} opacity={0.6} scale={40} blur={2} far={10} color="#000000" />
-        <gridHelper args={[100, 50, '#333333', '#111111']} position={[0, -2.1, 0]} />
+        <ContactShadows position={[0, GROUND_Y, 0]} opacity={0.6} scale={40} blur={2} far={10} color="#000000" />
+        <gridHelper args={[100, 50, '#333333', '#111111']} position={[0, GROUND_Y - 0.1, 0]} />
       </Canvas>
 
       {/* UI 介面 */}
@@ -529,9 +550,72 @@ export default function DronePage() {
            </p>
         </header>
 
+        {overlay === 'validation' && <ValidationPanel report={report} />}
+        {overlay === 'structure' && <StructurePanel bricks={modelBricks} report={structure} />}
+        {showParts && <PartsPanel name={droneModel.id} bricks={modelBricks} accent="#FF6600" />}
+
+        {instructions && (
+          <InstructionsPanel
+            title="積木無人機"
+            steps={steps}
+            index={step}
+            onIndex={setStep}
+            captureRef={captureRef}
+            accent="#FF6600"
+          />
+        )}
+
+        {manual && (
+          <PilotPanel
+            input={pilotInput}
+            settings={pilotSettings}
+            onSettings={setPilotSettings}
+            accent="#FF6600"
+            left={showParts ? '360px' : '30px'}
+          />
+        )}
+        {missionMode && (
+          <MissionPanel
+            mission={mission}
+            onMission={editMission}
+            planning={planning}
+            onPlanning={setPlanning}
+            running={missionRunning}
+            onRunning={setMissionRunning}
+            progress={missionProgress}
+            accent="#FF6600"
+            left={showParts ? '360px' : '30px'}
+          />
+        )}
+
+        {showRecorder && !instructions && (
+          <RecordingPanel
+            recorder={recorder}
+            recording={recording}
+            onRecording={toggleRecording}
+            replay={replay}
+            onReplay={selectReplay}
+            replaying={replaying}
+            onReplaying={setReplaying}
+            accent="#FF6600"
+            left={showParts ? '360px' : '30px'}
+          />
+        )}
+        {flying && <TelemetryHud telemetry={telemetry} accent="#FF6600" />}
+        {aerialView && (
+          <GimbalPanel
+            settings={gimbalSettings}
+            onSettings={setGimbalSettings}
+            fullscreen={aerialFullscreen}
+            onFullscreen={setAerialFullscreen}
+            onSnapshot={handleSnapshot}
+            accent="#FF6600"
+          />
+        )}
+
         {/* 飛行控制面板 (僅在組裝完成後顯示) */}
         <AnimatePresence>
-          {assemble && (
+          {timeline.complete && (
             <motion.div 
               initial={{ opacity: 0, x: 50 }}
               animate={{ opacity: 1, x: 0 }}
@@ -549,16 +633,10 @@ export default function DronePage() {
             >
                <h3 style={{ color: '#fff', textAlign: 'right', fontFamily: '"Microsoft JhengHei"', borderBottom: '1px solid #444', paddingBottom: '10px' }}>飛行路徑指令</h3>
                
-               {[
-                 { id: 'idle', label: '懸停待機', icon: '⏹' },
-                 { id: 'circle', label: '環繞偵查', icon: '↺' },
-                 { id: 'figure8', label: '8字巡航', icon: '∞' },
-                 { id: 'spiral', label: '螺旋戰術', icon: '⌇' },
-                 { id: 'flip', label: '特技翻滾', icon: '⤾' },
-               ].map((mode) => (
+               {FLIGHT_MODES.map((mode) => (
                  <button
                    key={mode.id}
-                   onClick={() => setFlightMode(mode.id)}
+                   onClick={() => selectFlightMode(mode.id)}
                    style={{
                      padding: '12px 20px',
                      textAlign: 'right',
@@ -580,6 +658,34 @@ export default function DronePage() {
                    <span>{mode.label}</span>
                  </button>
                ))}
+               <button
+                 onClick={() => setCrashed(true)}
+                 style={{
+                   padding: '12px 20px',
+                   background: 'rgba(180,0,0,0.6)',
+                   color: 'white',
+                   border: '1px solid rgba(255,255,255,0.1)',
+                   borderRadius: '4px',
+                   cursor: 'pointer',
+                   fontFamily: '"Microsoft JhengHei"',
+                   fontSize: '1rem',
+                   display: 'flex',
+                   justifyContent: 'space-between',
+                   alignItems: 'center',
+                   minWidth: '180px'
+                 }}
+               >
+                 <span>💥</span>
+                 <span>墜機測試</span>
+               </button>
+               <BatteryPanel
+                 battery={battery}
+                 phase={batteryPhase}
+                 settings={batterySettings}
+                 onSettings={setBatterySettings}
+                 onReplace={replaceBattery}
+                 accent="#FF6600"
+               />
             </motion.div>
           )}
         </AnimatePresence>
@@ -590,25 +696,37 @@ export default function DronePage() {
           background: 'linear-gradient(to top, rgba(0,0,0,0.9), transparent)',
           pointerEvents: 'auto'
         }}>
-          <button 
-            onClick={handleAssembleToggle}
-            style={{
-              padding: '15px 60px',
-              fontSize: '1.5rem',
-              fontFamily: '"Microsoft JhengHei", sans-serif',
-              fontWeight: 'bold',
-              color: assemble ? '#fff' : '#000',
-              backgroundColor: assemble ? '#444' : '#FF6600',
-              border: 'none',
-              borderRadius: '2px', 
-              cursor: 'pointer',
-              clipPath: 'polygon(10% 0, 100% 0, 100% 70%, 90% 100%, 0 100%, 0 30%)',
-              transition: 'all 0.3s ease',
-              boxShadow: assemble ? 'none' : '0 0 30px rgba(255, 102, 0, 0.4)'
-            }}
-          >
-            {assemble ? '重置組裝' : '開始組裝'}
-          </button>
+          <div style={{ display: 'flex', justifyContent: 'center', gap: '10px', marginBottom: '20px' }}>
+            <ToolButton active={instructions} accent="#FF6600" onClick={handleInstructionsToggle}>📖 說明書</ToolButton>
+            <ToolButton active={showParts} accent="#FF6600" onClick={() => setShowParts(!showParts)}>🧾 零件表</ToolButton>
+            <ToolButton active={overlay === 'validation'} accent="#FF6600" onClick={() => toggleOverlay('validation')}>🔍 模型檢查</ToolButton>
+            <ToolButton active={overlay === 'structure'} accent="#FF6600" onClick={() => toggleOverlay('structure')}>🧱 結構分析</ToolButton>
+            <ToolButton active={aerial} accent="#FF6600" onClick={() => setAerial(!aerial)}>🎥 航拍畫面</ToolButton>
+            <ToolButton active={showRecorder} accent="#FF6600" onClick={() => setShowRecorder(!showRecorder)}>🎬 飛行紀錄</ToolButton>
+            <ToolButton active={!!theme.recolor} accent="#FF6600" onClick={() => setTheme(nextTheme(theme))}>🎨 配色：{theme.label}</ToolButton>
+          </div>
+          {!instructions && <TimelineBar timeline={timeline} accent="#FF6600" />}
+          {!instructions && (
+            <button 
+              onClick={handleAssembleToggle}
+              style={{
+                padding: '15px 60px',
+                fontSize: '1.5rem',
+                fontFamily: '"Microsoft JhengHei", sans-serif',
+                fontWeight: 'bold',
+                color: assemble ? '#fff' : '#000',
+                backgroundColor: assemble ? '#444' : '#FF6600',
+                border: 'none',
+                borderRadius: '2px', 
+                cursor: 'pointer',
+                clipPath: 'polygon(10% 0, 100% 0, 100% 70%, 90% 100%, 0 100%, 0 30%)',
+                transition: 'all 0.3s ease',
+                boxShadow: assemble ? 'none' : '0 0 30px rgba(255, 102, 0, 0.4)'
+              }}
+            >
+              {assemble ? '重置組裝' : crashed ? '重新組裝' : '開始組裝'}
+            </button>
+          )}
         </div>
       </div>
     </div>
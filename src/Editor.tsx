@@ -0,0 +1,337 @@
+import React, { useState, useMemo, useRef, useEffect, useReducer } from 'react';
+import { Canvas, ThreeEvent } from '@react-three/fiber';
+import { OrbitControls, PerspectiveCamera, Environment, ContactShadows } from '@react-three/drei';
+import { BrickData, Vec3, createFlyConfig, describeBrickSize, getMaxStage } from './lego/model';
+import { LEGO_COLORS, PALETTE } from './lego/palette';
+import { getBrickGeometry } from './lego/geometry';
+import {
+  BRICK_PRESETS, historyReducer, moveBrick, nextBrickId, placementFor, rotateBrick
+} from './lego/editor';
+import { parseModelFile, serializeModel } from './lego/modelFile';
+import { downloadText } from './download';
+import LegoBrick from './lego/LegoBrick';
+import ToolButton from './ui/ToolButton';
+
+const ACCENT = '#1E90FF';
+// 編輯器中的積木都固定在組裝位置，飛入設定只是 LegoBrick 的必要參數
+const EDITOR_FLY = createFlyConfig([]);
+const UP: Vec3 = [0, 1, 0];
+
+type EditMode = 'place' | 'select';
+
+const toVec3 = (v: { x: number, y: number, z: number }): Vec3 => [v.x, v.y, v.z];
+
+const panelStyle: React.CSSProperties = {
+  position: 'absolute',
+  top: '140px',
+  width: '260px',
+  padding: '16px',
+  background: 'rgba(0,0,0,0.75)',
+  border: '1px solid rgba(255,255,255,0.1)',
+  borderRadius: '8px',
+  color: '#eee',
+  fontFamily: '"Microsoft JhengHei", sans-serif',
+  fontSize: '0.9rem',
+  pointerEvents: 'auto'
+};
+
+const smallButton: React.CSSProperties = {
+  padding: '6px 10px',
+  background: 'rgba(255,255,255,0.08)',
+  color: '#eee',
+  border: '1px solid rgba(255,255,255,0.2)',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontFamily: '"Microsoft JhengHei"'
+};
+
+// --- 放置預覽 (半透明) ---
+const GhostBrick = ({ pos, size, tile, color }: { pos: Vec3, size: Vec3, tile?: boolean, color: string }) => (
+  <mesh position={pos} geometry={getBrickGeometry({ size, tile })} raycast={() => null}>
+    <meshStandardMaterial color={color} transparent opacity={0.45} depthWrite={false} />
+  </mesh>
+);
+
+export default function EditorPage() {
+  const [history, dispatch] = useReducer(historyReducer, { past: [], present: [], future: [] });
+  const bricks = history.present;
+  const [name, setName] = useState('我的積木模型');
+  const [mode, setMode] = useState<EditMode>('place');
+  const [presetIndex, setPresetIndex] = useState(3);
+  const [rotated, setRotated] = useState(false);
+  const [color, setColor] = useState(LEGO_COLORS.ORANGE.hex);
+  const [stage, setStage] = useState(0);
+  const [stageView, setStageView] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [ghost, setGhost] = useState<Vec3 | null>(null);
+  const [message, setMessage] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const preset = BRICK_PRESETS[presetIndex];
+  const presetSize: Vec3 = rotated ? [preset.size[2], preset.size[1], preset.size[0]] : preset.size;
+  const selected = bricks.find(b => b.id === selectedId) ?? null;
+  // 階段檢視：只顯示目前階段 (含) 以前的積木，方便確認組裝順序
+  const visible = useMemo(() => (stageView ? bricks.filter(b => b.stage <= stage) : bricks), [bricks, stageView, stage]);
+
+  const apply = (next: BrickData[]) => dispatch({ type: 'apply', bricks: next });
+  const updateSelected = (fn: (b: BrickData) => BrickData) => {
+    if (!selected) return;
+    apply(bricks.map(b => (b.id === selected.id ? fn(b) : b)));
+  };
+  const deleteSelected = () => {
+    if (!selected) return;
+    apply(bricks.filter(b => b.id !== selected.id));
+    setSelectedId(null);
+  };
+
+  // --- 場景事件 ---
+  const handleHover = (e: ThreeEvent<PointerEvent>, target?: BrickData) => {
+    e.stopPropagation();
+    if (mode !== 'place') return;
+    const normal = target && e.face ? toVec3(e.face.normal) : UP;
+    setGhost(placementFor(toVec3(e.point), normal, presetSize, target));
+  };
+
+  const handleClick = (e: ThreeEvent<MouseEvent>, target?: BrickData) => {
+    e.stopPropagation();
+    // 拖曳旋轉視角時不算點擊
+    if (e.delta > 4) return;
+    if (mode === 'select') {
+      setSelectedId(target?.id ?? null);
+      return;
+    }
+    const normal = target && e.face ? toVec3(e.face.normal) : UP;
+    const brick: BrickData = {
+      id: nextBrickId(bricks),
+      pos: placementFor(toVec3(e.point), normal, presetSize, target),
+      size: presetSize,
+      color,
+      stage
+    };
+    if (preset.tile) brick.tile = true;
+    apply([...bricks, brick]);
+  };
+
+  // --- 鍵盤操作 ---
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement) return;
+      const ctrl = e.ctrlKey || e.metaKey;
+      if (ctrl && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        dispatch({ type: e.shiftKey ? 'redo' : 'undo' });
+        return;
+      }
+      if (ctrl && e.key.toLowerCase() === 'y') {
+        e.preventDefault();
+        dispatch({ type: 'redo' });
+        return;
+      }
+
+      const moves: { [key: string]: [number, number, number] } = {
+        ArrowLeft: [-1, 0, 0], ArrowRight: [1, 0, 0], ArrowUp: [0, 0, -1], ArrowDown: [0, 0, 1],
+        PageUp: [0, 1, 0], PageDown: [0, -1, 0]
+      };
+      if (moves[e.key] && selected) {
+        e.preventDefault();
+        updateSelected(b => moveBrick(b, ...moves[e.key]));
+      } else if (e.key === 'Delete' || e.key === 'Backspace') {
+        deleteSelected();
+      } else if (e.key.toLowerCase() === 'r') {
+        if (selected) updateSelected(rotateBrick);
+        else setRotated(r => !r);
+      } else if (e.key === 'Escape') {
+        setSelectedId(null);
+      }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
+  // --- 存檔 / 讀檔 ---
+  const save = () => {
+    downloadText(`${name.replace(/[\\/:*?"<>|\s]+/g, '_')}.json`, serializeModel(name, bricks), 'application/json');
+    setMessage(`已儲存 ${bricks.length} 個積木，可在「積木模型庫」匯入播放組裝動畫`);
+  };
+
+  const load = async (file: File) => {
+    try {
+      const model = parseModelFile(await file.text());
+      dispatch({ type: 'reset', bricks: model.bricks });
+      setName(model.name);
+      setSelectedId(null);
+      setStage(getMaxStage(model.bricks));
+      setMessage(`已讀取 ${model.name} (${model.bricks.length} 個積木)`);
+    } catch (err) {
+      setMessage(`無法讀取 ${file.name}：${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <div style={{ width: '100%', height: '100%', position: 'relative', background: '#101418' }}>
+      <Canvas shadows dpr={[1, 2]} onPointerMissed={() => mode === 'select' && setSelectedId(null)}>
+        <PerspectiveCamera makeDefault position={[6, 6, 6]} fov={40} />
+        <OrbitControls makeDefault maxPolarAngle={Math.PI / 2.05} maxDistance={40} />
+
+        <ambientLight intensity={0.5} />
+        <Environment preset="city" />
+        <spotLight position={[10, 20, 10]} angle={0.3} penumbra={1} intensity={1.2} castShadow />
+
+        {visible.map(b => (
+          <group
+            key={b.id}
+            onPointerMove={(e) => handleHover(e, b)}
+            onClick={(e) => handleClick(e, b)}
+          >
+            <LegoBrick data={b} time={0} fly={EDITOR_FLY} still selected={b.id === selectedId} />
+          </group>
+        ))}
+
+        {/* 地面：接收點擊與預覽的平面 */}
+        <mesh
+          rotation={[-Math.PI / 2, 0, 0]}
+          onPointerMove={(e) => handleHover(e)}
+          onPointerOut={() => setGhost(null)}
+          onClick={(e) => handleClick(e)}
+        >
+          <planeGeometry args={[40, 40]} />
+          <meshBasicMaterial transparent opacity={0} depthWrite={false} />
+        </mesh>
+        {mode === 'place' && ghost && <GhostBrick pos={ghost} size={presetSize} tile={preset.tile} color={color} />}
+
+        <ContactShadows position={[0, 0, 0]} opacity={0.4} scale={40} blur={2} far={10} />
+        {/* 一格 = 一顆凸起 */}
+        <gridHelper args={[40, 160, '#2a3a4a', '#1c242c']} position={[0, 0.001, 0]} />
+      </Canvas>
+
+      {/* UI */}
+      <div style={{
+        position: 'absolute',
+        top: 0, left: 0, width: '100%', height: '100%',
+        pointerEvents: 'none',
+        display: 'flex',
+        flexDirection: 'column',
+        justifyContent: 'space-between'
+      }}>
+
+        <header style={{ padding: '40px', background: 'linear-gradient(to bottom, rgba(0,0,0,0.8), transparent)' }}>
+          <h1 style={{
+            margin: 0,
+            fontSize: '3.5rem',
+            fontWeight: '900',
+            color: '#fff',
+            letterSpacing: '0.1em',
+            fontFamily: '"Microsoft JhengHei", sans-serif'
+          }}>
+            積木<span style={{ color: ACCENT }}>編輯器</span>
+          </h1>
+          <p style={{ color: '#aaa', marginTop: '10px', fontSize: '1.2rem', fontFamily: '"Microsoft JhengHei", sans-serif' }}>
+            {message || `${bricks.length} 個積木・方向鍵 / PageUp / PageDown 移動，R 旋轉，Delete 刪除，Ctrl+Z / Ctrl+Y 復原重做`}
+          </p>
+        </header>
+
+        {/* 零件與顏色 */}
+        <div style={{ ...panelStyle, left: '30px' }}>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            style={{ width: '100%', boxSizing: 'border-box', padding: '6px', marginBottom: '12px', background: '#222', color: '#fff', border: '1px solid #444', borderRadius: '4px', fontFamily: '"Microsoft JhengHei"' }}
+          />
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '6px' }}>
+            {BRICK_PRESETS.map((p, i) => (
+              <button
+                key={p.label}
+                onClick={() => { setPresetIndex(i); setMode('place'); }}
+                style={{ ...smallButton, background: i === presetIndex ? ACCENT : smallButton.background }}
+              >
+                {p.label}
+              </button>
+            ))}
+          </div>
+
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', margin: '12px 0' }}>
+            {PALETTE.map(c => (
+              <button
+                key={c.ldraw}
+                title={`${c.name} (${c.id})`}
+                onClick={() => setColor(c.hex)}
+                style={{
+                  width: '20px',
+                  height: '20px',
+                  background: c.hex,
+                  opacity: c.transparent ? 0.6 : 1,
+                  border: c.hex === color ? '2px solid #fff' : '1px solid #555',
+                  borderRadius: '4px',
+                  cursor: 'pointer'
+                }}
+              />
+            ))}
+          </div>
+
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <span style={{ flex: 1 }}>新積木階段</span>
+            <button style={smallButton} onClick={() => setStage(Math.max(0, stage - 1))}>−</button>
+            <b style={{ minWidth: '24px', textAlign: 'center' }}>{stage}</b>
+            <button style={smallButton} onClick={() => setStage(stage + 1)}>＋</button>
+          </div>
+          <label style={{ display: 'block', marginTop: '8px', color: '#aaa', cursor: 'pointer' }}>
+            <input type="checkbox" checked={stageView} onChange={(e) => setStageView(e.target.checked)} /> 只顯示到此階段
+          </label>
+        </div>
+
+        {/* 選取的積木 */}
+        {selected && (
+          <div style={{ ...panelStyle, right: '30px' }}>
+            <h3 style={{ margin: '0 0 8px', borderBottom: '1px solid #444', paddingBottom: '8px' }}>
+              {describeBrickSize(selected)}<span style={{ float: 'right', color: '#888', fontSize: '0.8rem' }}>{selected.id}</span>
+            </h3>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '10px' }}>
+              <span style={{ flex: 1 }}>階段</span>
+              <button style={smallButton} onClick={() => updateSelected(b => ({ ...b, stage: Math.max(0, b.stage - 1) }))}>−</button>
+              <b style={{ minWidth: '24px', textAlign: 'center' }}>{selected.stage}</b>
+              <button style={smallButton} onClick={() => updateSelected(b => ({ ...b, stage: b.stage + 1 }))}>＋</button>
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '6px', marginBottom: '10px' }}>
+              <button style={smallButton} onClick={() => updateSelected(b => moveBrick(b, 0, 1, 0))}>上移</button>
+              <button style={smallButton} onClick={() => updateSelected(b => moveBrick(b, 0, 0, -1))}>↑</button>
+              <button style={smallButton} onClick={() => updateSelected(b => moveBrick(b, 0, -1, 0))}>下移</button>
+              <button style={smallButton} onClick={() => updateSelected(b => moveBrick(b, -1, 0, 0))}>←</button>
+              <button style={smallButton} onClick={() => updateSelected(b => moveBrick(b, 0, 0, 1))}>↓</button>
+              <button style={smallButton} onClick={() => updateSelected(b => moveBrick(b, 1, 0, 0))}>→</button>
+            </div>
+            <div style={{ display: 'flex', gap: '6px' }}>
+              <button style={{ ...smallButton, flex: 1 }} onClick={() => updateSelected(b => ({ ...b, color }))}>
+                <span style={{ display: 'inline-block', width: '10px', height: '10px', background: color, marginRight: '4px' }} />換色
+              </button>
+              <button style={{ ...smallButton, flex: 1 }} onClick={() => updateSelected(rotateBrick)}>旋轉</button>
+              <button style={{ ...smallButton, flex: 1, color: '#ff6666' }} onClick={deleteSelected}>刪除</button>
+            </div>
+          </div>
+        )}
+
+        <div style={{ padding: '50px', textAlign: 'center', pointerEvents: 'auto' }}>
+          <div style={{ display: 'flex', justifyContent: 'center', flexWrap: 'wrap', gap: '10px' }}>
+            <ToolButton active={mode === 'place'} accent={ACCENT} onClick={() => setMode('place')}>➕ 放置</ToolButton>
+            <ToolButton active={mode === 'select'} accent={ACCENT} onClick={() => { setMode('select'); setGhost(null); }}>👆 選取</ToolButton>
+            <ToolButton active={false} accent={ACCENT} onClick={() => dispatch({ type: 'undo' })}>↶ 復原 ({history.past.length})</ToolButton>
+            <ToolButton active={false} accent={ACCENT} onClick={() => dispatch({ type: 'redo' })}>↷ 重做 ({history.future.length})</ToolButton>
+            <ToolButton active={false} accent={ACCENT} onClick={() => { if (bricks.length) apply([]); setSelectedId(null); }}>🗑 清空</ToolButton>
+            <ToolButton active={false} accent={ACCENT} onClick={save}>💾 儲存 JSON</ToolButton>
+            <ToolButton active={false} accent={ACCENT} onClick={() => fileInputRef.current?.click()}>📂 讀取 JSON</ToolButton>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json"
+            style={{ display: 'none' }}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) load(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
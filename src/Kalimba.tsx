@@ -2,6 +2,7 @@ import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { Canvas, useFrame, ThreeEvent } from '@react-three/fiber';
 import { OrbitControls, PerspectiveCamera, Environment, ContactShadows, Text } from '@react-three/drei';
 import * as THREE from 'three';
+import { SpringConfig, createSpring, stepSpring } from './animation';
 
 // --- 進階音頻引擎 (Web Audio API) ---
 class AudioEngine {
@@ -301,6 +302,9 @@ const SONGS: Song[] = [
   }
 ];
 
+// 琴鍵回彈 (略低於臨界阻尼，放開時會輕微晃動)
+const KEY_SPRING: SpringConfig = { stiffness: 400, damping: 28 };
+
 const Key = ({ data, active, isPlayingSong, onPlay }: { 
   data: any, 
   active: boolean, 
@@ -344,15 +348,19 @@ const Key = ({ data, active, isPlayingSong, onPlay }: {
     }
   };
 
-  useFrame((state) => {
+  // 按壓程度 0 ~ 1：按下時立即壓到底，放開後像簧片一樣彈回
+  const press = useRef(createSpring());
+
+  useFrame((state, delta) => {
     if (!meshRef.current) return;
     if (pressed) {
-      meshRef.current.rotation.x = 0.1;
-      meshRef.current.position.y = -0.05;
+      press.current.value = 1;
+      press.current.velocity = 0;
     } else {
-      meshRef.current.rotation.x = THREE.MathUtils.lerp(meshRef.current.rotation.x, 0, 0.2);
-      meshRef.current.position.y = THREE.MathUtils.lerp(meshRef.current.position.y, 0, 0.2);
+      stepSpring(press.current, 0, KEY_SPRING, delta);
     }
+    meshRef.current.rotation.x = press.current.value * 0.1;
+    meshRef.current.position.y = press.current.value * -0.05;
   });
 
   return (
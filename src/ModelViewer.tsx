@@ -0,0 +1,350 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { Canvas } from '@react-three/fiber';
+import { OrbitControls, PerspectiveCamera, Environment, ContactShadows } from '@react-three/drei';
+import { BrickData, BrickModelDefinition, createFlyConfig, getAssemblyDuration, getBounds, getMaxStage } from './lego/model';
+import { listModels } from './lego/registry';
+import { parseLDraw } from './lego/ldraw';
+import { exportLDraw } from './lego/ldrawExport';
+import { parseModelFile } from './lego/modelFile';
+import { MESH_FILE_PATTERN, loadMeshFile, voxelize } from './lego/voxelize';
+import { optimizeBricks } from './lego/optimize';
+import { THEMES, nextTheme, themeColorOf } from './lego/themes';
+import { AssemblyTimeline, useAssemblyTimeline, useTimelineClock } from './lego/timeline';
+import { downloadText } from './download';
+import BrickInstances from './lego/BrickInstances';
+import PartsPanel from './lego/PartsPanel';
+import ToolButton from './ui/ToolButton';
+import TimelineBar from './ui/TimelineBar';
+
+// 1 倍速時每秒組裝的階段數
+const STAGES_PER_SECOND = 2;
+// 體素化解析度 (模型最長邊的凸起數)
+const VOXEL_RESOLUTIONS = [16, 24, 32, 48];
+
+// --- 組裝中的模型 (置中並貼齊地面) ---
+const AssemblyModel = ({ model, bricks, timeline, colorOf }: {
+  model: BrickModelDefinition,
+  bricks: BrickData[],
+  timeline: AssemblyTimeline,
+  colorOf?: (brick: BrickData) => string
+}) => {
+  const offset = useMemo(() => {
+    const { min, max } = getBounds(bricks);
+    return [-(min[0] + max[0]) / 2, -min[1], -(min[2] + max[2]) / 2] as [number, number, number];
+  }, [bricks]);
+  useTimelineClock(timeline);
+
+  return (
+    <group position={offset}>
+      <BrickInstances bricks={bricks} time={timeline.time} teardown={timeline.teardown} fly={model.fly} colorOf={colorOf} />
+    </group>
+  );
+};
+
+// --- 依模型大小調整鏡頭距離 ---
+const FramedCamera = ({ model }: { model: BrickModelDefinition }) => {
+  const { min, max } = useMemo(() => getBounds(model.generate()), [model]);
+  const size = Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2], 2);
+  const height = max[1] - min[1];
+  return (
+    <>
+      <PerspectiveCamera makeDefault position={[size * 1.8, size * 1.2, size * 1.8]} fov={40} />
+      <OrbitControls makeDefault target={[0, height / 2, 0]} maxPolarAngle={Math.PI / 2} maxDistance={size * 6} />
+    </>
+  );
+};
+
+export default function ModelViewerPage() {
+  const [imported, setImported] = useState<BrickModelDefinition[]>([]);
+  const models = useMemo(() => [...listModels(), ...imported], [imported]);
+  const [selectedId, setSelectedId] = useState(models[0].id);
+  const [message, setMessage] = useState('');
+  const [dragging, setDragging] = useState(false);
+  const [showParts, setShowParts] = useState(false);
+  const [voxelResolution, setVoxelResolution] = useState(32);
+  const [optimize, setOptimize] = useState(false);
+  const [theme, setTheme] = useState(THEMES[0]);
+  const themeColor = useMemo(() => themeColorOf(theme), [theme]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const model = models.find(m => m.id === selectedId) ?? models[0];
+  const generated = useMemo(() => model.generate(), [model]);
+  // 合併最佳化：相鄰同色格子合併成標準零件，零件表與匯出也跟著使用合併後的結果
+  const optimized = useMemo(() => (optimize ? optimizeBricks(generated) : null), [optimize, generated]);
+  const modelBricks = optimized?.bricks ?? generated;
+  const duration = useMemo(() => getAssemblyDuration(modelBricks, model.fly), [modelBricks, model]);
+  const maxStage = useMemo(() => getMaxStage(modelBricks), [modelBricks]);
+  const timeline = useAssemblyTimeline({ duration, maxStage, stagesPerSecond: STAGES_PER_SECOND });
+  const assemble = timeline.time > 0 && timeline.direction > 0;
+  const progress = Math.floor((timeline.time / duration) * 100);
+
+  const selectModel = (id: string) => {
+    timeline.reset();
+    setSelectedId(id);
+  };
+
+  const addModel = (def: BrickModelDefinition) => {
+    setImported(prev => [...prev, def]);
+    selectModel(def.id);
+  };
+
+  // 編輯器存的 JSON 模型檔
+  const importModelFile = async (file: File) => {
+    try {
+      const result = parseModelFile(await file.text());
+      if (!result.bricks.length) {
+        setMessage(`${file.name} 中沒有積木`);
+        return;
+      }
+      addModel({
+        id: `json:${file.name}:${Date.now()}`,
+        label: result.name,
+        generate: () => result.bricks,
+        fly: createFlyConfig(result.bricks)
+      });
+      setMessage(`已匯入 ${result.bricks.length} 個積木 / ${getMaxStage(result.bricks) + 1} 個階段`);
+    } catch (err) {
+      setMessage(`無法讀取 ${file.name}：${(err as Error).message}`);
+    }
+  };
+
+  // glTF / OBJ 網格 → 體素化成 1x1 積木
+  const importMeshFile = async (file: File) => {
+    setMessage(`正在體素化 ${file.name} ...`);
+    try {
+      const { bricks, size } = voxelize(await loadMeshFile(file), { resolution: voxelResolution });
+      if (!bricks.length) {
+        setMessage(`${file.name} 中沒有可體素化的網格`);
+        return;
+      }
+      addModel({
+        id: `mesh:${file.name}:${Date.now()}`,
+        label: file.name.replace(MESH_FILE_PATTERN, ''),
+        generate: () => bricks,
+        fly: createFlyConfig(bricks)
+      });
+      setMessage(`已體素化為 ${bricks.length} 個積木 (${size[0]} x ${size[2]} 凸起、${size[1]} 層)`);
+    } catch (err) {
+      setMessage(`無法讀取 ${file.name}：${(err as Error).message ?? err}`);
+    }
+  };
+
+  const importFile = async (file: File) => {
+    const name = file.name.toLowerCase();
+    if (name.endsWith('.json')) {
+      importModelFile(file);
+      return;
+    }
+    if (MESH_FILE_PATTERN.test(name)) {
+      importMeshFile(file);
+      return;
+    }
+    if (!/\.(ldr|mpd|dat)$/.test(name)) {
+      setMessage(`不支援的檔案格式：${file.name}`);
+      return;
+    }
+    const result = parseLDraw(await file.text(), file.name);
+    if (!result.bricks.length) {
+      setMessage(`${file.name} 中沒有可辨識的積木`);
+      return;
+    }
+
+    addModel({
+      id: `ldraw:${file.name}:${Date.now()}`,
+      label: result.name,
+      generate: () => result.bricks,
+      fly: createFlyConfig(result.bricks)
+    });
+
+    const unknown = Object.entries(result.unknownParts);
+    setMessage(unknown.length
+      ? `已匯入 ${result.bricks.length} 個積木 / ${result.stageCount} 步；略過未支援零件：${unknown.map(([p, n]) => `${p} x${n}`).join(', ')}`
+      : `已匯入 ${result.bricks.length} 個積木 / ${result.stageCount} 步`);
+  };
+
+  const exportModel = () => {
+    const name = model.id.replace(/[^\w-]+/g, '_');
+    const result = exportLDraw(modelBricks, name);
+    downloadText(`${name}.mpd`, result.text, 'application/x-ldraw');
+    setMessage(`已匯出 ${result.exported} 個積木 (${result.parts} 個零件)` +
+      (result.approximated.length ? `，${result.approximated.length} 個以最接近的尺寸代替` : '') +
+      (result.skipped.length ? `，${result.skipped.length} 個太小無法以零件表示 (已列於檔尾註解)` : ''));
+  };
+
+  return (
+    <div
+      style={{ width: '100%', height: '100%', position: 'relative', background: '#101014' }}
+      onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setDragging(false);
+        const file = e.dataTransfer.files[0];
+        if (file) importFile(file);
+      }}
+    >
+      <Canvas shadows dpr={[1, 2]}>
+        <FramedCamera key={model.id} model={model} />
+
+        <ambientLight intensity={0.4} />
+        <Environment preset="city" />
+        <spotLight position={[20, 40, 20]} angle={0.3} penumbra={1} intensity={1.2} castShadow />
+
+        <AssemblyModel model={model} bricks={modelBricks} timeline={timeline} colorOf={themeColor} />
+
+        <ContactShadows position={[0, 0, 0]} opacity={0.5} scale={60} blur={2} far={10} />
+        <gridHelper args={[100, 50, '#333333', '#1a1a1a']} position={[0, -0.01, 0]} />
+      </Canvas>
+
+      {/* UI */}
+      <div style={{
+        position: 'absolute',
+        top: 0, left: 0, width: '100%', height: '100%',
+        pointerEvents: 'none',
+        display: 'flex',
+        flexDirection: 'column',
+        justifyContent: 'space-between',
+        outline: dragging ? '3px dashed #FFD700' : 'none',
+        outlineOffset: '-12px'
+      }}>
+
+        <header style={{ padding: '40px', background: 'linear-gradient(to bottom, rgba(0,0,0,0.8), transparent)' }}>
+          <h1 style={{
+            margin: 0,
+            fontSize: '3.5rem',
+            fontWeight: '900',
+            color: '#fff',
+            letterSpacing: '0.1em',
+            fontFamily: '"Microsoft JhengHei", sans-serif'
+          }}>
+            積木<span style={{ color: '#FFD700' }}>模型庫</span>
+          </h1>
+          <p style={{ color: '#aaa', marginTop: '10px', fontSize: '1.2rem', fontFamily: '"Microsoft JhengHei", sans-serif' }}>
+            {model.label}・{assemble ? `組裝進度 ${progress}%` : '拖放 LDraw (.ldr / .mpd)、編輯器模型 (.json) 或 3D 模型 (.glb / .gltf / .obj) 即可匯入'}
+          </p>
+          {message && (
+            <p style={{ color: '#FFD700', margin: 0, fontSize: '0.95rem', fontFamily: '"Microsoft JhengHei", sans-serif' }}>
+              {message}
+            </p>
+          )}
+        </header>
+
+        {showParts && <PartsPanel name={model.id.replace(/[^\w-]+/g, '_')} bricks={modelBricks} accent="#FFD700" />}
+
+        {/* 模型清單 */}
+        <div style={{
+          position: 'absolute',
+          top: '50%',
+          right: '30px',
+          transform: 'translateY(-50%)',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '10px',
+          pointerEvents: 'auto',
+          maxHeight: '60%',
+          overflowY: 'auto'
+        }}>
+          <h3 style={{ color: '#fff', textAlign: 'right', fontFamily: '"Microsoft JhengHei"', borderBottom: '1px solid #444', paddingBottom: '10px', margin: 0 }}>模型清單</h3>
+          {models.map(m => (
+            <button
+              key={m.id}
+              onClick={() => selectModel(m.id)}
+              style={{
+                padding: '10px 20px',
+                textAlign: 'right',
+                background: m.id === model.id ? '#FFD700' : 'rgba(0,0,0,0.6)',
+                color: m.id === model.id ? '#000' : '#fff',
+                border: '1px solid rgba(255,255,255,0.1)',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontFamily: '"Microsoft JhengHei"',
+                minWidth: '180px'
+              }}
+            >
+              {m.label}
+            </button>
+          ))}
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            style={{
+              padding: '10px 20px',
+              background: 'transparent',
+              color: '#FFD700',
+              border: '1px dashed #FFD700',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontFamily: '"Microsoft JhengHei"'
+            }}
+          >
+            ＋ 匯入模型檔
+          </button>
+          <label style={{ color: '#aaa', textAlign: 'right', fontFamily: '"Microsoft JhengHei"', fontSize: '0.85rem' }}>
+            3D 模型解析度{' '}
+            <select value={voxelResolution} onChange={(e) => setVoxelResolution(Number(e.target.value))}>
+              {VOXEL_RESOLUTIONS.map(r => <option key={r} value={r}>{r} 凸起</option>)}
+            </select>
+          </label>
+          <button
+            onClick={exportModel}
+            style={{
+              padding: '10px 20px',
+              background: 'transparent',
+              color: '#fff',
+              border: '1px solid rgba(255,255,255,0.3)',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontFamily: '"Microsoft JhengHei"'
+            }}
+          >
+            ⇩ 匯出 LDraw (.mpd)
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".ldr,.mpd,.dat,.json,.glb,.gltf,.obj"
+            style={{ display: 'none' }}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importFile(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        <div style={{
+          padding: '50px',
+          textAlign: 'center',
+          pointerEvents: 'auto'
+        }}>
+          <div style={{ display: 'flex', justifyContent: 'center', gap: '10px', marginBottom: '20px' }}>
+            <ToolButton active={showParts} accent="#FFD700" onClick={() => setShowParts(!showParts)}>🧾 零件表</ToolButton>
+            <ToolButton active={optimize} accent="#FFD700" onClick={() => setOptimize(!optimize)}>
+              ⚡ 合併最佳化{optimized && `：${optimized.before} → ${optimized.after} 件 (省 ${optimized.saved} 件` +
+                (optimized.offGrid.length ? `，${optimized.offGrid.length} 件不在凸起網格上未合併)` : ')')}
+            </ToolButton>
+            <ToolButton active={!!theme.recolor} accent="#FFD700" onClick={() => setTheme(nextTheme(theme))}>🎨 配色：{theme.label}</ToolButton>
+          </div>
+          <TimelineBar timeline={timeline} accent="#FFD700" />
+          <button
+            onClick={assemble ? timeline.rewind : timeline.play}
+            style={{
+              padding: '15px 60px',
+              fontSize: '1.5rem',
+              fontFamily: '"Microsoft JhengHei", sans-serif',
+              fontWeight: 'bold',
+              color: assemble ? '#fff' : '#000',
+              backgroundColor: assemble ? '#444' : '#FFD700',
+              border: 'none',
+              borderRadius: '2px',
+              cursor: 'pointer',
+              boxShadow: assemble ? 'none' : '0 0 30px rgba(255, 215, 0, 0.4)',
+              transition: 'all 0.3s'
+            }}
+          >
+            {assemble ? '重新組裝' : '開始組裝'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,175 +1,29 @@
-import React, { useState, useMemo, useRef, useEffect } from 'react';
+import React, { useState, useMemo, useRef, useEffect, useCallback } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
 import { OrbitControls, PerspectiveCamera, Environment, ContactShadows, Float, Stars, Sparkles } from '@react-three/drei';
 import * as THREE from 'three';
 import { motion, AnimatePresence } from 'framer-motion';
+import { BrickData, getAssemblyDuration, getMaxStage } from './lego/model';
+import { getModel } from './lego/registry';
+import BrickInstances from './lego/BrickInstances';
+import { buildInstructionSteps } from './lego/instructions';
+import { CaptureBridge, CaptureFn, InstructionScene, InstructionsPanel } from './lego/Instructions';
+import PartsPanel from './lego/PartsPanel';
+import ValidationPanel, { ISSUE_COLORS } from './lego/ValidationPanel';
+import { collectIssues, validateModel } from './lego/validate';
+import StructurePanel, { structureColors } from './lego/StructurePanel';
+import { analyzeStructure } from './lego/structure';
+import { THEMES, nextTheme, themeColorOf } from './lego/themes';
+import { AssemblyTimeline, useAssemblyTimeline, useTimelineClock } from './lego/timeline';
+import { PhysicsWorld, createPhysicsWorld, startQuake, stepPhysics } from './lego/physics';
+import { hashString, mulberry32, useSeed } from './lego/random';
+import ToolButton from './ui/ToolButton';
+import TimelineBar from './ui/TimelineBar';
 
-// --- 設定與型別 ---
-type BrickData = {
-  id: string;
-  pos: [number, number, number];
-  size: [number, number, number];
-  color: string;
-  stage: number; // 層數/階段
-  rotation?: [number, number, number];
-};
-
-const MATERIALS = {
-  GLASS_GREEN: '#2E8B57',   // 101 經典綠玻璃
-  GLASS_LIGHT: '#3CB371',   // 亮一點的綠
-  CONCRETE: '#A9A9A9',      // 混凝土灰
-  GOLD: '#FFD700',          // 裝飾金
-  STEEL: '#708090',         // 鋼構
-  NIGHT_LIGHT: '#FFFFE0'    // 夜間燈光
-};
-
-// --- 單個樂高積木組件 ---
-const LegoBrick = ({ data, isAssembled, currentStage }: { data: BrickData, isAssembled: boolean, currentStage: number }) => {
-  const meshRef = useRef<THREE.Group>(null);
-  
-  // 初始散落位置：上方天空
-  const initialPos = useMemo(() => {
-    const angle = Math.random() * Math.PI * 2;
-    const radius = 20 + Math.random() * 30;
-    return new THREE.Vector3(
-      Math.cos(angle) * radius,
-      40 + Math.random() * 20,
-      Math.sin(angle) * radius
-    );
-  }, []);
-
-  useFrame((state, delta) => {
-    if (!meshRef.current) return;
-
-    const targetPos = new THREE.Vector3(...data.pos);
-    
-    // 邏輯：只有當目前總進度 (currentStage) >= 積木的 stage 時，積木才飛入
-    // 加上一點隨機延遲讓同一層的積木不會完全同時到達
-    const isTargetLayer = currentStage >= data.stage;
-    
-    let isActive = isAssembled && isTargetLayer;
-
-    if (!isAssembled) isActive = false;
-
-    if (isActive) {
-      // 飛入動畫：Lerp
-      meshRef.current.position.lerp(targetPos, 0.08); // 速度稍慢，更有「建造」感
-      
-      if (data.rotation) {
-        const targetQ = new THREE.Quaternion().setFromEuler(new THREE.Euler(...data.rotation));
-        meshRef.current.quaternion.slerp(targetQ, 0.08);
-      } else {
-        meshRef.current.quaternion.slerp(new THREE.Quaternion(0,0,0,1), 0.08);
-      }
-    } else {
-      // 飛回天空
-      meshRef.current.position.lerp(initialPos, 0.05);
-      meshRef.current.rotation.x += delta * 0.5;
-      meshRef.current.rotation.z += delta * 0.2;
-    }
-  });
+const taipei101Model = getModel('t101');
 
-  const showStuds = data.size[0] > 0.3 && data.size[2] > 0.3;
-
-  return (
-    <group ref={meshRef} position={initialPos}>
-      <mesh castShadow receiveShadow>
-        <boxGeometry args={data.size} />
-        <meshStandardMaterial 
-          color={data.color} 
-          roughness={0.1} 
-          metalness={data.color === MATERIALS.GOLD ? 0.8 : 0.3} 
-          transparent={data.color === MATERIALS.GLASS_GREEN}
-          opacity={data.color === MATERIALS.GLASS_GREEN ? 0.9 : 1}
-        />
-      </mesh>
-      {showStuds && (
-        <mesh position={[0, data.size[1]/2 + 0.05, 0]}>
-          <cylinderGeometry args={[0.15, 0.15, 0.1, 8]} />
-          <meshStandardMaterial color={data.color} />
-        </mesh>
-      )}
-    </group>
-  );
-};
-
-// --- 生成台北101積木數據 ---
-const generateTaipei101 = () => {
-  const bricks: BrickData[] = [];
-  let idCounter = 0;
-  
-  const add = (x: number, y: number, z: number, w: number, h: number, d: number, color: string, stage: number) => {
-    bricks.push({
-      id: `t101_${idCounter++}`,
-      pos: [x, y, z],
-      size: [w, h, d],
-      color,
-      stage
-    });
-  };
-
-  const S = 0.5; // 基礎單位
-  let currentY = 0;
-  let stage = 0;
-
-  // 1. 基座 (Shopping Mall Base) - 梯形感，分三層縮進
-  // Base Layer 1
-  for(let x = -4; x <= 4; x+=2) {
-    for(let z = -4; z <= 4; z+=2) {
-      add(x*S, currentY, z*S, S*1.8, S, S*1.8, MATERIALS.CONCRETE, stage);
-    }
-  }
-  currentY += S; stage++;
-  
-  // Base Layer 2
-  for(let x = -3; x <= 3; x+=2) {
-    for(let z = -3; z <= 3; z+=2) {
-      add(x*S, currentY, z*S, S*1.8, S, S*1.8, MATERIALS.CONCRETE, stage);
-    }
-  }
-  currentY += S; stage++;
-
-  // Base Layer 3 (Transition)
-  add(0, currentY, 0, S*5, S, S*5, MATERIALS.GLASS_GREEN, stage);
-  currentY += S; stage++;
-
-  // 2. 主塔身 (8個倒梯形斗狀結構)
-  // 每個斗狀結構由 2-3 層組成，從下往上變大
-  for (let segment = 0; segment < 8; segment++) {
-    // 斗狀底部 (較窄)
-    add(0, currentY, 0, S*4, S, S*4, MATERIALS.GLASS_GREEN, stage);
-    // 角落裝飾 (如意紋飾位置)
-    add(S*2.2, currentY, S*2.2, S, S, S, MATERIALS.GOLD, stage);
-    add(-S*2.2, currentY, S*2.2, S, S, S, MATERIALS.GOLD, stage);
-    add(S*2.2, currentY, -S*2.2, S, S, S, MATERIALS.GOLD, stage);
-    add(-S*2.2, currentY, -S*2.2, S, S, S, MATERIALS.GOLD, stage);
-    currentY += S; 
-    
-    // 斗狀中部
-    add(0, currentY, 0, S*4.5, S, S*4.5, MATERIALS.GLASS_GREEN, stage);
-    currentY += S;
-
-    // 斗狀頂部 (最寬)
-    add(0, currentY, 0, S*5.2, S, S*5.2, MATERIALS.GLASS_LIGHT, stage);
-    currentY += S;
-    
-    // 下一個結構的間隔
-    stage++;
-  }
-
-  // 3. 塔頂 (Top)
-  // 收縮層
-  add(0, currentY, 0, S*3, S, S*3, MATERIALS.CONCRETE, stage);
-  currentY += S; stage++;
-  
-  add(0, currentY, 0, S*2, S*2, S*2, MATERIALS.GLASS_GREEN, stage);
-  currentY += S*2; stage++;
-
-  // 4. 尖塔 (Spire)
-  add(0, currentY + S*2, 0, S*0.5, S*6, S*0.5, MATERIALS.STEEL, stage);
-  
-  return bricks;
-};
+// 1 倍速時每秒建造的樓層 (階段) 數
+const STAGES_PER_SECOND = 2.5;
 
 // --- 煙火粒子效果 ---
 const Fireworks = ({ active }: { active: boolean }) => {
@@ -186,71 +40,94 @@ const Fireworks = ({ active }: { active: boolean }) => {
   );
 };
 
-const Taipei101Model = ({ assemble, setCompleted, onProgress }: { 
-  assemble: boolean, 
-  setCompleted: (v: boolean) => void,
-  onProgress: (p: number) => void 
+const Taipei101Model = ({ timeline, quake, colorOf }: { 
+  timeline: AssemblyTimeline,
+  quake: boolean,
+  colorOf?: (brick: BrickData) => string
 }) => {
-  const bricks = useMemo(() => generateTaipei101(), []);
-  const [currentStage, setCurrentStage] = useState(0);
-  const maxStage = useMemo(() => Math.max(...bricks.map(b => b.stage)), [bricks]);
-  
-  // 使用 ref 來避免重複觸發 setCompleted
-  const isCompletedRef = useRef(false);
+  const bricks = useMemo(() => taipei101Model.generate(), []);
+  // 建造進度由頁面的時間軸推進
+  useTimelineClock(timeline);
 
-  // 控制組裝進度
-  useFrame((state, delta) => {
-    if (assemble) {
-      // 加快建造速度: 每秒約 2.5 層
-      setCurrentStage(prev => {
-        const next = prev + delta * 2.5;
-        
-        // 計算進度百分比 (0~100)
-        const progress = Math.min((next / maxStage) * 100, 100);
-        onProgress(Math.floor(progress));
-
-        if (next > maxStage + 1) {
-            if (!isCompletedRef.current) {
-              setCompleted(true);
-              isCompletedRef.current = true;
-            }
-            return maxStage + 1.5; 
-        }
-        return next;
-      });
-    } else {
-      setCurrentStage(prev => {
-        const next = Math.max(prev - delta * 8, -1);
-        if (next <= 0) {
-           onProgress(0);
-        }
-        return next;
-      });
-      if (isCompletedRef.current) {
-        setCompleted(false);
-        isCompletedRef.current = false;
-      }
+  // 地震：從完工的姿態開始模擬 (地面即模型群組的 y = 0，也就是陰影所在的平面)，
+  // 時間軸歸零後積木改由模擬擺放；重新建造時積木從倒塌的位置飛回去
+  const seed = useSeed();
+  const [rubble, setRubble] = useState<PhysicsWorld | null>(null);
+  useEffect(() => {
+    if (quake && !rubble) {
+      const world = createPhysicsWorld(bricks, { groundY: 0 });
+      startQuake(world, mulberry32(hashString(`${seed}:quake`)));
+      setRubble(world);
+      timeline.reset();
+    } else if (!quake && rubble) {
+      setRubble(null);
     }
+  }, [quake, rubble, bricks, seed, timeline]);
+
+  useFrame((state, delta) => {
+    if (rubble && timeline.time === 0) stepPhysics(rubble, delta);
   });
 
   return (
     <group position={[0, -10, 0]}>
-      {bricks.map((brick) => (
-        <LegoBrick 
-          key={brick.id} 
-          data={brick} 
-          isAssembled={assemble}
-          currentStage={Math.floor(currentStage)}
-        />
-      ))}
+      <BrickInstances
+        bricks={bricks}
+        time={timeline.time}
+        teardown={timeline.teardown}
+        from={rubble?.bodies}
+        fly={taipei101Model.fly}
+        colorOf={colorOf}
+      />
     </group>
   );
 };
 
 export default function Taipei101Page() {
-  const [assemble, setAssemble] = useState(false);
-  const [completed, setCompleted] = useState(false);
-  const [progress, setProgress] = useState(0);
+  // 說明書模式
+  const [instructions, setInstructions] = useState(false);
+  const [step, setStep] = useState(0);
+  const modelBricks = useMemo(() => taipei101Model.generate(), []);
+  const steps = useMemo(() => buildInstructionSteps(modelBricks), [modelBricks]);
+  // 組裝時間軸：走到底即建造完成 (煙火、自動旋轉)
+  const duration = useMemo(() => getAssemblyDuration(modelBricks, taipei101Model.fly), [modelBricks]);
+  const maxStage = useMemo(() => getMaxStage(modelBricks), [modelBricks]);
+  // 地震：建築倒塌散落在地上，直到重新建造完成
+  const [quake, setQuake] = useState(false);
+  const timeline = useAssemblyTimeline({
+    duration,
+    maxStage,
+    stagesPerSecond: STAGES_PER_SECOND,
+    onEvent: event => {
+      if (event.type === 'complete') setQuake(false);
+    }
+  });
+  const assemble = timeline.time > 0 && timeline.direction > 0;
+  const completed = timeline.complete;
+  const progress = Math.floor((timeline.time / duration) * 100);
+  const [showParts, setShowParts] = useState(false);
+  // 模型檢查：有問題的積木標紅，其餘淡成灰色；結構分析：依弱點程度顯示熱度圖
+  const [overlay, setOverlay] = useState<'none' | 'validation' | 'structure'>('none');
+  const report = useMemo(() => validateModel(modelBricks), [modelBricks]);
+  const issues = useMemo(() => collectIssues(report), [report]);
+  const issueColor = useCallback((brick: BrickData) => ISSUE_COLORS[issues.get(brick.id) ?? 'ok'], [issues]);
+  const structure = useMemo(() => analyzeStructure(modelBricks), [modelBricks]);
+  const heat = useMemo(() => structureColors(modelBricks, structure), [modelBricks, structure]);
+  const heatColorOf = useCallback((brick: BrickData) => heat.get(brick.id) ?? '#555555', [heat]);
+  // 配色主題 (檢查 / 分析的標示優先)
+  const [theme, setTheme] = useState(THEMES[0]);
+  const themeColor = useMemo(() => themeColorOf(theme), [theme]);
+  const overlayColor = overlay === 'validation' ? issueColor : overlay === 'structure' ? heatColorOf : themeColor;
+  const toggleOverlay = (next: 'validation' | 'structure') => setOverlay(overlay === next ? 'none' : next);
+  const captureRef = useRef<CaptureFn | null>(null);
+
+  const handleInstructionsToggle = () => {
+    if (!instructions) {
+      timeline.reset();
+      setQuake(false);
+      setStep(0);
+    }
+    setInstructions(!instructions);
+  };
 
   return (
     <div style={{ width: '100%', height: '100%', position: 'relative', background: '#000011' }}>
@@ -273,11 +150,18 @@ export default function Taipei101Page() {
         <spotLight position={[30, 50, 30]} angle={0.3} penumbra={1} intensity={1} castShadow />
         <pointLight position={[-20, 10, -20]} intensity={0.5} color="#00ff00" />
         
-        <Taipei101Model 
-          assemble={assemble} 
-          setCompleted={setCompleted} 
-          onProgress={setProgress}
-        />
+        {instructions ? (
+          <group position={[0, -10, 0]}>
+            <InstructionScene steps={steps} index={step} fly={taipei101Model.fly} />
+          </group>
+        ) : (
+          <Taipei101Model 
+            timeline={timeline}
+            quake={quake}
+            colorOf={overlayColor}
+          />
+        )}
+        <CaptureBridge captureRef={captureRef} />
         
         {/* 完成時的煙火 */}
         <Fireworks active={completed} />
@@ -328,29 +212,55 @@ export default function Taipei101Page() {
            </div>
         </header>
 
+        {overlay === 'validation' && <ValidationPanel report={report} />}
+        {overlay === 'structure' && <StructurePanel bricks={modelBricks} report={structure} />}
+        {showParts && <PartsPanel name={taipei101Model.id} bricks={modelBricks} accent="#2E8B57" />}
+
+        {instructions && (
+          <InstructionsPanel
+            title="台北101"
+            steps={steps}
+            index={step}
+            onIndex={setStep}
+            captureRef={captureRef}
+            accent="#2E8B57"
+          />
+        )}
+
         <div style={{ 
           padding: '50px', 
           textAlign: 'center', 
           pointerEvents: 'auto'
         }}>
-          <button 
-            onClick={() => setAssemble(!assemble)}
-            style={{
-              padding: '15px 60px',
-              fontSize: '1.5rem',
-              fontFamily: '"Microsoft JhengHei", sans-serif',
-              fontWeight: 'bold',
-              color: assemble ? '#fff' : '#000',
-              backgroundColor: assemble ? '#444' : '#2E8B57',
-              border: 'none',
-              borderRadius: '2px', 
-              cursor: 'pointer',
-              boxShadow: assemble ? 'none' : '0 0 30px rgba(46, 139, 87, 0.4)',
-              transition: 'all 0.3s'
-            }}
-          >
-            {assemble ? '重新建造' : '開始建造'}
-          </button>
+          <div style={{ display: 'flex', justifyContent: 'center', gap: '10px', marginBottom: '20px' }}>
+            <ToolButton active={instructions} accent="#2E8B57" onClick={handleInstructionsToggle}>📖 說明書</ToolButton>
+            <ToolButton active={showParts} accent="#2E8B57" onClick={() => setShowParts(!showParts)}>🧾 零件表</ToolButton>
+            <ToolButton active={overlay === 'validation'} accent="#2E8B57" onClick={() => toggleOverlay('validation')}>🔍 模型檢查</ToolButton>
+            <ToolButton active={overlay === 'structure'} accent="#2E8B57" onClick={() => toggleOverlay('structure')}>🧱 結構分析</ToolButton>
+            <ToolButton active={!!theme.recolor} accent="#2E8B57" onClick={() => setTheme(nextTheme(theme))}>🎨 配色：{theme.label}</ToolButton>
+            {completed && !instructions && <ToolButton active={false} accent="#2E8B57" onClick={() => setQuake(true)}>🌏 地震</ToolButton>}
+          </div>
+          {!instructions && <TimelineBar timeline={timeline} accent="#2E8B57" />}
+          {!instructions && (
+            <button 
+              onClick={assemble ? timeline.rewind : timeline.play}
+              style={{
+                padding: '15px 60px',
+                fontSize: '1.5rem',
+                fontFamily: '"Microsoft JhengHei", sans-serif',
+                fontWeight: 'bold',
+                color: assemble ? '#fff' : '#000',
+                backgroundColor: assemble ? '#444' : '#2E8B57',
+                border: 'none',
+                borderRadius: '2px', 
+                cursor: 'pointer',
+                boxShadow: assemble ? 'none' : '0 0 30px rgba(46, 139, 87, 0.4)',
+                transition: 'all 0.3s'
+              }}
+            >
+              {assemble ? '重新建造' : quake ? '災後重建' : '開始建造'}
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,41 @@
+import * as THREE from 'three';
+
+// --- 與幀率無關的動畫工具 ---
+// 所有 useFrame 內的平滑移動都以經過的秒數 (delta) 計算，60Hz、144Hz 或掉幀時速度都一樣
+
+// 指數阻尼：每秒向目標靠近的速率為 lambda (數值越大越快)，可取代每幀固定比例的 lerp
+export const damp = (current: number, target: number, lambda: number, delta: number) =>
+  THREE.MathUtils.lerp(current, target, 1 - Math.exp(-lambda * delta));
+
+export const dampVector3 = (current: THREE.Vector3, target: THREE.Vector3, lambda: number, delta: number) =>
+  current.lerp(target, 1 - Math.exp(-lambda * delta));
+
+// 舊寫法「每幀 lerp factor」在 60fps 下對應的 lambda，方便保留原本的手感
+export const lambdaFromFrameFactor = (factor: number, fps = 60) => -Math.log(1 - factor) * fps;
+
+// --- 阻尼彈簧 ---
+export type Spring = { value: number; velocity: number };
+
+export type SpringConfig = {
+  stiffness: number; // 彈力 (越大回彈越快)
+  damping: number;   // 阻尼 (2 × √stiffness 為臨界阻尼，小於此值會來回晃動)
+};
+
+const SPRING_STEP = 1 / 240;
+// 分頁切回來時 delta 可能很大，超過的部分直接捨棄
+const MAX_SPRING_DELTA = 0.1;
+
+export const createSpring = (value = 0): Spring => ({ value, velocity: 0 });
+
+// 以固定子步長積分 (半隱式 Euler)，結果不受幀率影響；回傳目前的值
+export const stepSpring = (spring: Spring, target: number, config: SpringConfig, delta: number) => {
+  const total = Math.min(delta, MAX_SPRING_DELTA);
+  const steps = Math.ceil(total / SPRING_STEP);
+  const dt = steps > 0 ? total / steps : 0;
+  for (let i = 0; i < steps; i++) {
+    const force = config.stiffness * (target - spring.value) - config.damping * spring.velocity;
+    spring.velocity += force * dt;
+    spring.value += spring.velocity * dt;
+  }
+  return spring.value;
+};
@@ -0,0 +1,18 @@
+// --- 檔案下載工具 ---
+// 在瀏覽器中把文字或 data URL 存成檔案
+
+export const downloadUrl = (fileName: string, url: string) => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+};
+
+// 點擊後瀏覽器才非同步開始下載，太早釋放 URL 會讓大檔案 (或較慢的瀏覽器) 下載失敗
+const REVOKE_DELAY = 60 * 1000;
+
+export const downloadText = (fileName: string, text: string, mime = 'text/plain') => {
+  const url = URL.createObjectURL(new Blob([text], { type: `${mime};charset=utf-8` }));
+  downloadUrl(fileName, url);
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY);
+};
@@ -0,0 +1,75 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+
+const TRAIL_SECONDS = 6;      // 航跡保留的時間，越舊越透明
+const TRAIL_INTERVAL = 1 / 30;
+const MAX_POINTS = Math.ceil(TRAIL_SECONDS / TRAIL_INTERVAL) + 2;
+
+type TrailSample = { position: THREE.Vector3; time: number };
+
+const head = new THREE.Vector3();
+
+// --- 漸隱航跡 ---
+// 定時取樣 target 的世界座標，畫成一條尾端逐漸透明的線；active 為 false 或 resetKey 改變時清空
+// (頂點每幀都在變，直接改 BufferGeometry，不透過 props 重建)
+const FlightTrail = ({ target, active, color, resetKey = 0 }: {
+  target: React.RefObject<THREE.Object3D>,
+  active: boolean,
+  color: string,
+  resetKey?: number // 例如重播循環回到起點時換一個值，避免畫出跨越的直線
+}) => {
+  const line = useMemo(() => {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(MAX_POINTS * 3), 3));
+    geometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(MAX_POINTS * 4), 4));
+    geometry.setDrawRange(0, 0);
+    const material = new THREE.LineBasicMaterial({ vertexColors: true, transparent: true, depthWrite: false });
+    const trail = new THREE.Line(geometry, material);
+    trail.frustumCulled = false;
+    return trail;
+  }, []);
+  useEffect(() => () => {
+    line.geometry.dispose();
+    (line.material as THREE.Material).dispose();
+  }, [line]);
+
+  const samples = useRef<TrailSample[]>([]);
+  const clock = useRef(0);
+  const base = useMemo(() => new THREE.Color(color), [color]);
+  useEffect(() => { samples.current = []; }, [resetKey]);
+
+  useFrame((_, delta) => {
+    clock.current += delta;
+    const now = clock.current;
+    const list = samples.current;
+    if (!active || !target.current) {
+      samples.current = [];
+      line.geometry.setDrawRange(0, 0);
+      return;
+    }
+    const last = list[list.length - 1];
+    if (!last || now - last.time >= TRAIL_INTERVAL) {
+      list.push({ position: target.current.getWorldPosition(new THREE.Vector3()), time: now });
+    }
+    while (list.length && (now - list[0].time > TRAIL_SECONDS || list.length > MAX_POINTS - 1)) list.shift();
+
+    const positions = line.geometry.getAttribute('position') as THREE.BufferAttribute;
+    const colors = line.geometry.getAttribute('color') as THREE.BufferAttribute;
+    list.forEach((sample, i) => {
+      positions.setXYZ(i, sample.position.x, sample.position.y, sample.position.z);
+      colors.setXYZW(i, base.r, base.g, base.b, 1 - (now - sample.time) / TRAIL_SECONDS);
+    });
+    // 最後一點接到目前位置，線頭不會落後取樣間隔
+    target.current.getWorldPosition(head);
+    positions.setXYZ(list.length, head.x, head.y, head.z);
+    colors.setXYZW(list.length, base.r, base.g, base.b, 1);
+    positions.needsUpdate = true;
+    colors.needsUpdate = true;
+    line.geometry.setDrawRange(0, list.length + 1);
+  });
+
+  return <primitive object={line} />;
+};
+
+export default FlightTrail;
@@ -0,0 +1,73 @@
+import React, { useEffect, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { CaptureFn } from '../lego/Instructions';
+import { Gimbal, GimbalSettings, PIP, stabilizeGimbal } from './gimbal';
+
+// 以指定的長寬比畫一次，畫完還原相機 (主相機的長寬比由 R3F 管理)
+const renderView = (gl: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.PerspectiveCamera, aspect: number) => {
+  const previous = camera.aspect;
+  camera.aspect = aspect;
+  camera.updateProjectionMatrix();
+  gl.render(scene, camera);
+  camera.aspect = previous;
+  camera.updateProjectionMatrix();
+};
+
+// --- 航拍畫面：把鏡頭相機畫進子母畫面 ---
+// 接手整個 Canvas 的繪製 (priority 1)：先畫全畫面，再用 scissor 畫右上角的小畫面；
+// fullscreen 時兩者對調。lens 是掛在機身上的相機，這裡每幀依雲台設定把它穩定在世界座標
+const GimbalView = ({ lens, settings, fullscreen, captureRef }: {
+  lens: React.RefObject<THREE.PerspectiveCamera>,
+  settings: GimbalSettings,
+  fullscreen: boolean,
+  captureRef: React.MutableRefObject<CaptureFn | null> // 拍照：只取航拍畫面
+}) => {
+  const { gl, scene, size } = useThree();
+  const gimbal = useRef<Gimbal>({ heading: null });
+  const body = useRef(new THREE.Quaternion());
+  const stabilized = useRef(new THREE.Quaternion());
+
+  useEffect(() => {
+    captureRef.current = () => {
+      const camera = lens.current;
+      if (!camera) return '';
+      gl.setViewport(0, 0, size.width, size.height);
+      renderView(gl, scene, camera, size.width / size.height);
+      return gl.domElement.toDataURL('image/png');
+    };
+    return () => { captureRef.current = null; };
+  }, [gl, scene, size, lens, captureRef]);
+
+  useFrame((state, delta) => {
+    const main = state.camera as THREE.PerspectiveCamera;
+    const camera = lens.current;
+    if (!camera?.parent) {
+      gl.render(scene, main);
+      return;
+    }
+
+    // 雲台穩定：相機的世界姿態 = 機身姿態 × 相機的局部姿態
+    camera.parent.getWorldQuaternion(body.current);
+    stabilizeGimbal(gimbal.current, settings, body.current, delta, stabilized.current);
+    camera.quaternion.copy(body.current.invert().multiply(stabilized.current));
+
+    const [large, small] = fullscreen ? [camera, main] : [main, camera];
+    gl.setViewport(0, 0, size.width, size.height);
+    renderView(gl, scene, large, size.width / size.height);
+
+    // WebGL 的 viewport 從左下角算起
+    const x = size.width - PIP.right - PIP.width;
+    const y = size.height - PIP.top - PIP.height;
+    gl.setScissorTest(true);
+    gl.setScissor(x, y, PIP.width, PIP.height);
+    gl.setViewport(x, y, PIP.width, PIP.height);
+    renderView(gl, scene, small, PIP.width / PIP.height);
+    gl.setScissorTest(false);
+    gl.setViewport(0, 0, size.width, size.height);
+  }, 1);
+
+  return null;
+};
+
+export default GimbalView;
@@ -0,0 +1,63 @@
+import React, { useMemo, useState } from 'react';
+import { ThreeEvent, useFrame } from '@react-three/fiber';
+import { Billboard, Line, Text } from '@react-three/drei';
+import { MissionPlan, MissionProgress, Waypoint, missionPoints } from './mission';
+
+// --- 航點任務的場景標示 ---
+// 航線、每個航點的標竿 (飛過的變暗、下一個以主色標示)；規劃時點擊地面新增航點
+const MissionPath = ({ plan, waypoints, groundY, planning, progress, onAdd, accent }: {
+  plan: MissionPlan,
+  waypoints: Waypoint[],
+  groundY: number,
+  planning: boolean,
+  progress: React.MutableRefObject<MissionProgress | null>, // null：任務尚未執行
+  onAdd: (x: number, z: number) => void,
+  accent: string
+}) => {
+  const points = useMemo(() => missionPoints(plan), [plan]);
+  // 只在切換航點時重繪
+  const [leg, setLeg] = useState(-1);
+  useFrame(() => {
+    const next = progress.current?.leg ?? -1;
+    if (next !== leg) setLeg(next);
+  });
+
+  const handleClick = (e: ThreeEvent<MouseEvent>) => {
+    // 拖曳旋轉視角放開時不算點擊
+    if (!planning || e.delta > 4) return;
+    e.stopPropagation();
+    onAdd(e.point.x, e.point.z);
+  };
+
+  return (
+    <group>
+      <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, groundY, 0]} onClick={handleClick}>
+        <planeGeometry args={[100, 100]} />
+        <meshBasicMaterial transparent opacity={planning ? 0.04 : 0} color={accent} depthWrite={false} />
+      </mesh>
+
+      {points.length > 1 && <Line points={points} color={accent} lineWidth={2} dashed dashSize={0.4} gapSize={0.2} />}
+
+      {waypoints.map((waypoint, i) => {
+        const color = i < leg ? '#555555' : i === leg ? accent : '#ffffff';
+        return (
+          <group key={i} position={[waypoint.x, groundY, waypoint.z]}>
+            <mesh position={[0, waypoint.altitude / 2, 0]}>
+              <cylinderGeometry args={[0.03, 0.03, waypoint.altitude, 6]} />
+              <meshBasicMaterial color={color} transparent opacity={0.5} />
+            </mesh>
+            <mesh position={[0, waypoint.altitude, 0]}>
+              <sphereGeometry args={[0.2, 16, 16]} />
+              <meshBasicMaterial color={color} />
+            </mesh>
+            <Billboard position={[0, waypoint.altitude + 0.5, 0]}>
+              <Text fontSize={0.4} color={color} anchorX="center" anchorY="middle">{i + 1}</Text>
+            </Billboard>
+          </group>
+        );
+      })}
+    </group>
+  );
+};
+
+export default MissionPath;
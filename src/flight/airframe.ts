@@ -0,0 +1,55 @@
+import * as THREE from 'three';
+import { BrickData, MATERIALS } from '../lego/model';
+import { Motor, Quadrotor, createQuadrotor, createQuadrotorParams } from './quadrotor';
+
+// --- 積木無人機的機體配置 ---
+// 把 generateComplexDrone 的積木分成機身與四組螺旋槳，並以同樣的馬達位置建立四旋翼模擬；
+// 畫面 (Drone.tsx) 與 node 下的測試共用這裡，避免兩邊的馬達配置不一致
+
+export type PropGroup = {
+  name: 'FL' | 'FR' | 'BL' | 'BR';
+  bricks: BrickData[];
+  pos: [number, number, number]; // 馬達中心 (螺旋槳轉軸)
+  dir: 1 | -1;                   // 同 Motor.direction：1 = 由上往下看逆時針，-1 = 順時針
+};
+
+// 馬達中心必須跟 generateComplexDrone 裡的 motorPositions 完全一致，否則旋轉會偏心：
+// x = ±(2*S + armLen*S)，z = ±(3*S + armLen*S*0.5)，S = 0.25、armLen = 6；
+// y = 機臂高度 + armThick (前機臂在 S、後機臂較低在 0)
+const MOTORS: Omit<PropGroup, 'bricks'>[] = [
+  { name: 'FL', pos: [-2.0, 0.5, -1.5], dir: 1 },
+  { name: 'FR', pos: [2.0, 0.5, -1.5], dir: -1 },
+  { name: 'BL', pos: [-2.0, 0.25, 1.5], dir: -1 },
+  { name: 'BR', pos: [2.0, 0.25, 1.5], dir: 1 }
+];
+
+// 依據馬達位置將螺旋槳分組：stage 5 中除了馬達座 (DARK_MECH) 以外的轉軸和葉片，依所在象限歸組
+export const splitDroneBricks = (allBricks: BrickData[]) => {
+  const bodyBricks: BrickData[] = [];
+  const propGroups: PropGroup[] = MOTORS.map(motor => ({ ...motor, bricks: [] }));
+  allBricks.forEach(b => {
+    if (b.stage !== 5 || b.color === MATERIALS.DARK_MECH) {
+      bodyBricks.push(b);
+      return;
+    }
+    const group = propGroups.find(g => Math.sign(g.pos[0]) === Math.sign(b.pos[0]) && Math.sign(g.pos[2]) === Math.sign(b.pos[2]));
+    // 正中心的積木不屬於任何螺旋槳 (目前的模型不會發生)
+    if (group) group.bricks.push(b);
+    else bodyBricks.push(b);
+  });
+  return { allBricks, bodyBricks, propGroups };
+};
+
+// 四旋翼模擬：質量分布取自全部積木，馬達在各螺旋槳中心；groundY 為地面高度
+export const createDroneSim = (allBricks: BrickData[], propGroups: PropGroup[], groundY: number): Quadrotor => {
+  const bottom = Math.min(...allBricks.map(b => b.pos[1] - b.size[1] / 2));
+  const motors: Motor[] = propGroups.map(group => ({
+    position: new THREE.Vector3(...group.pos),
+    direction: group.dir
+  }));
+  return createQuadrotor(createQuadrotorParams(allBricks, motors, {
+    mass: 1.2,
+    thrustToWeight: 4,
+    floor: groundY - bottom
+  }));
+};
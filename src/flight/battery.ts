@@ -0,0 +1,104 @@
+import * as THREE from 'three';
+import { Setpoint } from './controller';
+import { Quadrotor, headingOf, hoverThrust } from './quadrotor';
+
+// --- 電池與自動返航 ---
+// 耗電與螺旋槳功率 (推力的 1.5 次方) 成正比，再加上機身轉動的額外消耗，所以翻滾、螺旋比懸停耗電；
+// 低於警告門檻時提示，低於返航門檻時自動飛回起飛點正上方再降落，電量耗盡則馬達停轉、機體落下
+
+// normal → warning → returning → landing → landed；任何時候電量歸零都會變成 empty
+export type BatteryPhase = 'normal' | 'warning' | 'returning' | 'landing' | 'landed' | 'empty';
+
+export type BatterySettings = {
+  endurance: number;  // 滿電懸停可飛的秒數
+  warn: number;       // 警告門檻 (0 ~ 1)
+  returnHome: number; // 自動返航門檻 (0 ~ 1)，0 表示不返航
+};
+
+export type Battery = {
+  charge: number;        // 剩餘電量 0 ~ 1
+  drain: number;         // 目前每秒消耗的電量 (估算剩餘時間用)
+  phase: BatteryPhase;
+  target: THREE.Vector3; // 返航時移動中的目標點
+};
+
+export const DEFAULT_BATTERY: BatterySettings = { endurance: 120, warn: 0.3, returnHome: 0.15 };
+export const BATTERY_ENDURANCES = [60, 120, 300, 600];
+
+const MANEUVER_COST = 0.2; // 每 rad/s 的機身角速度多消耗的比例 (相對懸停功率)
+const RETURN_SPEED = 3;    // 返航水平速度 (m/s)
+const LAND_SPEED = 1;      // 降落速度 (m/s)
+const LAND_RADIUS = 0.5;   // 離起飛點多近才開始降落
+
+export const createBattery = (): Battery => ({ charge: 1, drain: 0, phase: 'normal', target: new THREE.Vector3() });
+
+export const resetBattery = (battery: Battery) => {
+  battery.charge = 1;
+  battery.drain = 0;
+  battery.phase = 'normal';
+};
+
+// 自動飛行 (返航 / 降落) 或馬達已停轉
+export const batteryInControl = (phase: BatteryPhase) => phase !== 'normal' && phase !== 'warning';
+export const motorsStopped = (phase: BatteryPhase) => phase === 'landed' || phase === 'empty';
+
+// 依這一步的馬達推力與角速度扣電，並切換階段；回傳目前階段
+export const drainBattery = (battery: Battery, sim: Quadrotor, settings: BatterySettings, delta: number) => {
+  if (motorsStopped(battery.phase)) {
+    battery.drain = 0;
+    return battery.phase;
+  }
+  const { state, params } = sim;
+  const hover = hoverThrust(params) ** 1.5;
+  const power = state.thrusts.reduce((sum, thrust) => sum + thrust ** 1.5, 0) / (hover * params.motors.length);
+  const drain = (power + MANEUVER_COST * state.angularVelocity.length()) / settings.endurance;
+  // 模擬數值壞掉 (NaN / Infinity) 時不扣電也不切換階段，避免電量跟著變成 NaN
+  if (!Number.isFinite(drain) || !Number.isFinite(delta)) {
+    battery.drain = 0;
+    return battery.phase;
+  }
+  battery.drain = drain;
+  battery.charge = Math.max(0, battery.charge - battery.drain * delta);
+
+  if (battery.charge <= 0) {
+    battery.phase = 'empty';
+  } else if (!batteryInControl(battery.phase) && battery.charge <= settings.returnHome) {
+    battery.phase = 'returning';
+    battery.target.copy(state.position);
+  } else if (battery.phase === 'normal' && battery.charge <= settings.warn) {
+    battery.phase = 'warning';
+  }
+  return battery.phase;
+};
+
+const POWER_OFF: Setpoint = { type: 'rate', rates: new THREE.Vector3(), thrust: 0 };
+const toHome = new THREE.Vector3();
+
+// 返航與降落的設定點：目標點以固定速度移向起飛點正上方，再垂直降到地面；馬達停轉時推力為 0
+export const batterySetpoint = (battery: Battery, sim: Quadrotor, home: THREE.Vector3, delta: number): Setpoint => {
+  if (motorsStopped(battery.phase)) return POWER_OFF;
+  const { target } = battery;
+  const { state, params } = sim;
+  const velocity = new THREE.Vector3();
+
+  if (battery.phase === 'returning') {
+    toHome.set(home.x - target.x, 0, home.z - target.z);
+    const distance = toHome.length();
+    const step = Math.min(distance, RETURN_SPEED * delta);
+    if (distance > 0) {
+      target.addScaledVector(toHome, step / distance);
+      // 前饋速度用返航速度本身，不除以 delta (delta 可能為 0)；已到正上方時為 0
+      if (step > 0 && step < distance) velocity.copy(toHome).multiplyScalar(RETURN_SPEED / distance);
+    }
+    // 低於起飛點時先爬升，避免貼地飛回去
+    target.y = Math.max(target.y, home.y);
+    if (distance < 1e-3 && state.position.distanceTo(target) < LAND_RADIUS) battery.phase = 'landing';
+  } else if (battery.phase === 'landing') {
+    // 目標略低於地面，確保真的著地
+    target.y = Math.max(target.y - LAND_SPEED * delta, params.floor - 0.2);
+    if (target.y > params.floor - 0.2) velocity.set(0, -LAND_SPEED, 0);
+    if (state.landed) battery.phase = 'landed';
+  }
+
+  return { type: 'position', position: target.clone(), velocity, yaw: headingOf(state.quaternion) };
+};
@@ -0,0 +1,186 @@
+import * as THREE from 'three';
+import { Pid, createPid, resetPid, updatePid } from './pid';
+import { GRAVITY, MOTOR_COUNT, QuadrotorParams, QuadrotorState } from './quadrotor';
+
+// --- 串級飛控 ---
+// 位置 → 速度 (PID) → 需要的推力向量 → 目標姿態 → 角速度 → 角加速度 (PID) → 力矩 → 分配到四顆馬達
+// 設定點可以從任何一層進入：航線給位置、手動飛行的自穩模式給姿態、特技模式給角速度
+
+export type Setpoint =
+  | {
+      type: 'position',
+      position: THREE.Vector3,
+      velocity?: THREE.Vector3,     // 前饋：航線本身的速度與加速度，讓追蹤不落後
+      acceleration?: THREE.Vector3,
+      yaw: number                   // 機頭方向 (繞 +Y，0 = 朝 -Z)
+    }
+  | { type: 'attitude', quaternion: THREE.Quaternion, thrust: number } // thrust：總推力
+  | { type: 'rate', rates: THREE.Vector3, thrust: number };            // rates：機體座標角速度
+
+export type FlightController = {
+  velocityPid: Pid;
+  ratePid: Pid;
+  mixer: THREE.Matrix4; // [總推力, 力矩 x, y, z] → 各馬達推力
+};
+
+const POSITION_GAIN = 1.5;  // 位置誤差 (m) → 速度 (m/s)
+const MAX_SPEED = 12;
+const MAX_TILT = Math.PI / 4;
+const ATTITUDE_GAIN = 5;    // 姿態誤差 (rad) → 角速度 (rad/s)
+const MAX_RATE = 6;
+const YAW_GAIN = 2;
+const MAX_YAW_RATE = 2;
+
+// 混控矩陣：每顆馬達的推力對總推力與三軸力矩的貢獻，取反矩陣即可由需求反推推力
+const createMixer = (params: QuadrotorParams) => {
+  if (params.motors.length !== MOTOR_COUNT) {
+    throw new Error(`Flight controller needs exactly ${MOTOR_COUNT} motors, got ${params.motors.length}`);
+  }
+  const [a, b, c, d] = params.motors;
+  const column = (motor: typeof a) => [
+    1,
+    -motor.position.z,
+    -motor.direction * params.yawMoment,
+    motor.position.x
+  ];
+  const [m0, m1, m2, m3] = [a, b, c, d].map(column);
+  return new THREE.Matrix4().set(
+    m0[0], m1[0], m2[0], m3[0],
+    m0[1], m1[1], m2[1], m3[1],
+    m0[2], m1[2], m2[2], m3[2],
+    m0[3], m1[3], m2[3], m3[3]
+  ).invert();
+};
+
+export const createController = (params: QuadrotorParams): FlightController => ({
+  velocityPid: createPid({ kp: 3.5, ki: 1, kd: 0, integralLimit: 2 }),
+  ratePid: createPid({ kp: 15, ki: 3, kd: 0.02, integralLimit: 1 }),
+  mixer: createMixer(params)
+});
+
+export const resetController = (controller: FlightController) => {
+  resetPid(controller.velocityPid);
+  resetPid(controller.ratePid);
+};
+
+// 機頭朝 yaw、機身 +Y 對準推力方向的姿態
+export const attitudeFromThrust = (thrust: THREE.Vector3, yaw: number, out: THREE.Quaternion) => {
+  const up = tmpUp.copy(thrust).normalize();
+  const back = tmpBack.set(Math.sin(yaw), 0, Math.cos(yaw));
+  const right = tmpRight.crossVectors(up, back).normalize();
+  back.crossVectors(right, up);
+  return out.setFromRotationMatrix(tmpBasis.makeBasis(right, up, back));
+};
+
+const tmpUp = new THREE.Vector3();
+const tmpBack = new THREE.Vector3();
+const tmpRight = new THREE.Vector3();
+const tmpBasis = new THREE.Matrix4();
+const error = new THREE.Vector3();
+const desiredVelocity = new THREE.Vector3();
+const desiredForce = new THREE.Vector3();
+const desiredRates = new THREE.Vector3();
+const desiredAttitude = new THREE.Quaternion();
+const attitudeError = new THREE.Quaternion();
+const reducedAttitude = new THREE.Quaternion();
+const yawError = new THREE.Quaternion();
+const desiredUp = new THREE.Vector3();
+const bodyUp = new THREE.Vector3();
+const angular = new THREE.Vector3();
+const gyro = new THREE.Vector3();
+const demand = new THREE.Vector4();
+const share = [0, 0, 0, 0];
+
+// 把 share 盡量加到 out 上：整體縮小到每顆馬達都不超出 0 ~ max 為止
+const addShare = (out: number[], share: number[], max: number) => {
+  let scale = 1;
+  share.forEach((value, i) => {
+    if (value === 0) return;
+    const limit = value > 0 ? max : 0;
+    scale = Math.min(scale, Math.max(0, (limit - out[i]) / value));
+  });
+  share.forEach((value, i) => { out[i] += value * scale; });
+};
+
+// 位置 / 速度環：回傳需要的總推力，目標姿態寫入 desiredAttitude
+const positionLoop = (controller: FlightController, params: QuadrotorParams, state: QuadrotorState,
+  setpoint: Extract<Setpoint, { type: 'position' }>, dt: number) => {
+  desiredVelocity.subVectors(setpoint.position, state.position).multiplyScalar(POSITION_GAIN);
+  if (setpoint.velocity) desiredVelocity.add(setpoint.velocity);
+  desiredVelocity.clampLength(0, MAX_SPEED);
+
+  updatePid(controller.velocityPid, error.subVectors(desiredVelocity, state.velocity), dt, desiredForce);
+  if (setpoint.acceleration) desiredForce.add(setpoint.acceleration);
+  desiredForce.y += GRAVITY;
+  desiredForce.multiplyScalar(params.mass);
+
+  // 限制傾角：水平分量不超過 tan(MAX_TILT) × 垂直分量
+  desiredForce.y = Math.max(desiredForce.y, 0.2 * params.mass * GRAVITY);
+  const horizontal = Math.hypot(desiredForce.x, desiredForce.z);
+  const limit = desiredForce.y * Math.tan(MAX_TILT);
+  if (horizontal > limit) {
+    desiredForce.x *= limit / horizontal;
+    desiredForce.z *= limit / horizontal;
+  }
+
+  attitudeFromThrust(desiredForce, setpoint.yaw, desiredAttitude);
+  // 只取沿目前機身朝上方向的分量，姿態還沒轉到位時不會多推
+  bodyUp.set(0, 1, 0).applyQuaternion(state.quaternion);
+  return Math.max(desiredForce.dot(bodyUp), 0);
+};
+
+// 姿態環：姿態誤差 (機體座標) 轉成目標角速度
+// 先只看「機身朝上的方向」(傾斜) 的誤差，機頭方向另外以較低的增益修正：
+// 偏航能用的反扭矩很小，混在一起修正的話，偏航還沒轉到位前傾斜會朝錯誤的方向
+const attitudeLoop = (state: QuadrotorState, attitude: THREE.Quaternion) => {
+  bodyUp.set(0, 1, 0).applyQuaternion(state.quaternion);
+  desiredUp.set(0, 1, 0).applyQuaternion(attitude);
+  reducedAttitude.setFromUnitVectors(bodyUp, desiredUp).multiply(state.quaternion);
+  attitudeError.copy(state.quaternion).invert().multiply(reducedAttitude);
+  if (attitudeError.w < 0) attitudeError.set(-attitudeError.x, -attitudeError.y, -attitudeError.z, -attitudeError.w);
+  desiredRates.set(attitudeError.x, attitudeError.y, attitudeError.z).multiplyScalar(2 * ATTITUDE_GAIN);
+
+  // 傾斜對準後剩下的只是繞機身 Y 軸的轉動 (傾斜誤差的 y 分量為 0)
+  yawError.copy(reducedAttitude).invert().multiply(attitude);
+  const yaw = THREE.MathUtils.euclideanModulo(2 * Math.atan2(yawError.y, yawError.w) + Math.PI, Math.PI * 2) - Math.PI;
+
+  desiredRates.x = THREE.MathUtils.clamp(desiredRates.x, -MAX_RATE, MAX_RATE);
+  desiredRates.y = THREE.MathUtils.clamp(yaw * YAW_GAIN, -MAX_YAW_RATE, MAX_YAW_RATE);
+  desiredRates.z = THREE.MathUtils.clamp(desiredRates.z, -MAX_RATE, MAX_RATE);
+  return desiredRates;
+};
+
+// 依設定點算出各馬達的推力指令 (out 為計算用的暫存陣列)
+export const motorCommands = (controller: FlightController, params: QuadrotorParams, state: QuadrotorState,
+  setpoint: Setpoint, dt: number, out: number[]) => {
+  let thrust: number;
+  let rates: THREE.Vector3;
+  if (setpoint.type === 'position') {
+    thrust = positionLoop(controller, params, state, setpoint, dt);
+    rates = attitudeLoop(state, desiredAttitude);
+  } else if (setpoint.type === 'attitude') {
+    thrust = setpoint.thrust;
+    rates = attitudeLoop(state, setpoint.quaternion);
+  } else {
+    thrust = setpoint.thrust;
+    rates = setpoint.rates;
+  }
+
+  // 角速度環：角加速度需求乘上轉動慣量，並補償陀螺效應
+  const { angularVelocity: omega } = state;
+  const { inertia } = params;
+  updatePid(controller.ratePid, error.subVectors(rates, omega), dt, angular);
+  angular.multiply(inertia);
+  angular.add(gyro.copy(omega).multiply(inertia).crossVectors(omega, gyro));
+
+  // 分配到馬達：先保證總推力，再加上橫滾 / 俯仰力矩，最後是偏航力矩；超出馬達能力時按比例縮小該項
+  // (直接截斷各馬達會改變總推力，傾斜修正時機體反而爬升)
+  const { mixer } = controller;
+  const collective = THREE.MathUtils.clamp(thrust, 0, params.maxThrust * params.motors.length);
+  demand.set(collective, 0, 0, 0).applyMatrix4(mixer).toArray(out);
+  demand.set(0, angular.x, 0, angular.z).applyMatrix4(mixer).toArray(share);
+  addShare(out, share, params.maxThrust);
+  demand.set(0, 0, angular.y, 0).applyMatrix4(mixer).toArray(share);
+  addShare(out, share, params.maxThrust);
+  return out;
+};
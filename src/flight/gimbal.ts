@@ -0,0 +1,49 @@
+import * as THREE from 'three';
+import { damp } from '../animation';
+import { headingOf } from './quadrotor';
+
+// --- 鏡頭雲台 ---
+// 相機裝在機腹的鏡頭積木上，跟著機身移動；姿態則由雲台穩定在世界座標：
+// 橫滾永遠為 0 (地平線保持水平)，俯仰固定在設定角度，水平方向平滑跟隨機頭再加上平移角度
+
+export type GimbalSettings = {
+  pitch: number; // 俯仰 (度)，負值朝下
+  yaw: number;   // 相對機頭的平移 (度)，正值往右
+};
+
+// 雲台目前跟隨的機頭方向 (平滑過後)
+export type Gimbal = { heading: number | null };
+
+export const DEFAULT_GIMBAL: GimbalSettings = { pitch: -15, yaw: 0 };
+export const GIMBAL_PITCH_RANGE: [number, number] = [-90, 20];
+export const GIMBAL_YAW_RANGE: [number, number] = [-90, 90];
+
+// 鏡頭玻璃前方 (機身座標，與 generateComplexDrone 階段 4 的鏡頭一致)
+export const LENS_POSITION: [number, number, number] = [0, -0.5, -2.75];
+
+// 子母畫面的位置與大小 (CSS 像素，從畫面右上角算起，避開右側的飛行控制面板)
+export const PIP = { width: 320, height: 180, top: 30, right: 240 };
+
+// 跟隨機頭轉向的速率；機身急轉時畫面仍然平順
+const FOLLOW_LAMBDA = 3;
+
+const tmpEuler = new THREE.Euler(0, 0, 0, 'YXZ');
+
+// body：機身的世界姿態；結果寫入 out (相機的世界姿態)
+export const stabilizeGimbal = (gimbal: Gimbal, settings: GimbalSettings, body: THREE.Quaternion,
+  delta: number, out: THREE.Quaternion) => {
+  const target = headingOf(body);
+  if (gimbal.heading === null) {
+    gimbal.heading = target;
+  } else {
+    // 走較近的方向轉過去
+    const error = THREE.MathUtils.euclideanModulo(target - gimbal.heading + Math.PI, Math.PI * 2) - Math.PI;
+    gimbal.heading = damp(gimbal.heading, gimbal.heading + error, FOLLOW_LAMBDA, delta);
+  }
+  tmpEuler.set(
+    THREE.MathUtils.degToRad(settings.pitch),
+    gimbal.heading - THREE.MathUtils.degToRad(settings.yaw),
+    0
+  );
+  return out.setFromEuler(tmpEuler);
+};
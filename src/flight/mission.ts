@@ -0,0 +1,165 @@
+import * as THREE from 'three';
+
+// --- 航點任務 ---
+// 從起飛點依序飛過每個航點：航線是穿過所有航點的 Catmull-Rom 曲線，每段依弧長等速前進，
+// 需要懸停的航點前後會減速到 0；任務是「時間 → 位置」的航線，交給 pathSetpoint 產生設定點
+
+export type Waypoint = {
+  x: number;
+  z: number;
+  altitude: number; // 離地面的高度
+  hover: number;    // 抵達後懸停的秒數
+};
+
+export type Mission = {
+  waypoints: Waypoint[];
+  speed: number; // 巡航速度 (m/s)
+};
+
+// 曲線上的一段 (起飛點或上一個航點 → 航點 index)
+type Leg = {
+  start: number;    // 出發時間
+  travel: number;   // 飛行時間
+  hover: number;    // 抵達後的懸停時間
+  from: number;     // 曲線參數
+  to: number;
+  lengths: number[]; // 在 from ~ to 之間等距取樣的累計弧長
+  easeIn: boolean;  // 出發時從靜止加速
+  easeOut: boolean; // 抵達時減速到靜止
+};
+
+export type MissionPlan = {
+  curve: THREE.CatmullRomCurve3 | null; // 沒有航點時為 null
+  home: THREE.Vector3;
+  legs: Leg[];
+  duration: number;
+};
+
+export type MissionProgress = {
+  leg: number;                          // 正在前往 (或懸停中) 的航點，全部完成時為航點數
+  phase: 'travel' | 'hover' | 'done';
+  remaining: number;                    // 剩餘秒數
+  fraction: number;                     // 整體進度 0 ~ 1
+};
+
+export const DEFAULT_MISSION: Mission = { waypoints: [], speed: 3 };
+export const MISSION_SPEEDS = [1, 2, 3, 5, 8];
+
+const SAMPLES = 32;
+
+export const waypointPosition = (waypoint: Waypoint, groundY: number) =>
+  new THREE.Vector3(waypoint.x, groundY + waypoint.altitude, waypoint.z);
+
+// home：起飛點 (懸停原點)；groundY：航點高度的基準面
+export const planMission = (mission: Mission, home: THREE.Vector3, groundY: number): MissionPlan => {
+  const { waypoints } = mission;
+  if (!waypoints.length) return { curve: null, home, legs: [], duration: 0 };
+
+  const curve = new THREE.CatmullRomCurve3([home, ...waypoints.map(w => waypointPosition(w, groundY))], false, 'centripetal');
+  const point = new THREE.Vector3();
+  const previous = new THREE.Vector3();
+  let time = 0;
+  const legs = waypoints.map((waypoint, i): Leg => {
+    // 曲線參數依點的索引平均分配：第 i 個點在 i / (點數 - 1)
+    const from = i / waypoints.length;
+    const to = (i + 1) / waypoints.length;
+    const lengths = [0];
+    curve.getPoint(from, previous);
+    for (let k = 1; k <= SAMPLES; k++) {
+      curve.getPoint(from + (to - from) * k / SAMPLES, point);
+      lengths.push(lengths[k - 1] + point.distanceTo(previous));
+      previous.copy(point);
+    }
+    const leg: Leg = {
+      start: time,
+      travel: Math.max(lengths[SAMPLES] / mission.speed, 0.5),
+      hover: waypoint.hover,
+      from,
+      to,
+      lengths,
+      easeIn: i === 0 || waypoints[i - 1].hover > 0,
+      easeOut: waypoint.hover > 0 || i === waypoints.length - 1
+    };
+    time += leg.travel + leg.hover;
+    return leg;
+  });
+  return { curve, home, legs, duration: time };
+};
+
+// 這段已飛過的距離比例 (x：時間比例)；需要停下的一端速度為 0，另一端維持巡航速度
+const easeLeg = (x: number, easeIn: boolean, easeOut: boolean) => {
+  if (easeIn && easeOut) return x * x * (3 - 2 * x);
+  if (easeIn) return x * x * (2 - x);
+  if (easeOut) return 1 - (1 - x) * (1 - x) * (1 + x);
+  return x;
+};
+
+// 弧長比例 → 曲線參數
+const legParameter = (leg: Leg, distance: number) => {
+  const target = distance * leg.lengths[SAMPLES];
+  let k = 1;
+  while (k < SAMPLES && leg.lengths[k] < target) k++;
+  const span = leg.lengths[k] - leg.lengths[k - 1];
+  const local = span > 0 ? (target - leg.lengths[k - 1]) / span : 0;
+  return leg.from + (leg.to - leg.from) * (k - 1 + local) / SAMPLES;
+};
+
+const findLeg = (plan: MissionPlan, t: number) => plan.legs.findIndex(leg => t < leg.start + leg.travel + leg.hover);
+
+// 任務開始後 t 秒的位置 (任務結束後停在最後一個航點)
+export const missionPosition = (plan: MissionPlan, t: number, out: THREE.Vector3) => {
+  if (!plan.curve) return out.copy(plan.home);
+  const index = findLeg(plan, Math.max(t, 0));
+  if (index < 0) return plan.curve.getPoint(1, out);
+  const leg = plan.legs[index];
+  const x = THREE.MathUtils.clamp((Math.max(t, 0) - leg.start) / leg.travel, 0, 1);
+  return plan.curve.getPoint(legParameter(leg, easeLeg(x, leg.easeIn, leg.easeOut)), out);
+};
+
+export const missionProgress = (plan: MissionPlan, t: number): MissionProgress => {
+  const index = findLeg(plan, t);
+  if (index < 0) return { leg: plan.legs.length, phase: 'done', remaining: 0, fraction: 1 };
+  const leg = plan.legs[index];
+  return {
+    leg: index,
+    phase: t < leg.start + leg.travel ? 'travel' : 'hover',
+    remaining: plan.duration - t,
+    fraction: plan.duration > 0 ? t / plan.duration : 1
+  };
+};
+
+// 畫在場景中的航線
+export const missionPoints = (plan: MissionPlan, divisions = 200) =>
+  plan.curve ? plan.curve.getPoints(divisions) : [];
+
+// --- 任務檔 (JSON) ---
+export const MISSION_FILE_FORMAT = 'lego_build/drone-mission';
+export const MISSION_FILE_VERSION = 1;
+
+export const serializeMission = (mission: Mission) => JSON.stringify({
+  format: MISSION_FILE_FORMAT,
+  version: MISSION_FILE_VERSION,
+  ...mission
+}, null, 2);
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null;
+
+const readWaypoint = (raw: unknown, index: number): Waypoint => {
+  const where = `waypoint #${index}`;
+  if (!isObject(raw)) throw new Error(`${where} is not an object`);
+  const { x, z, altitude, hover } = raw;
+  if (!isNumber(x) || !isNumber(z)) throw new Error(`${where} has an invalid position`);
+  if (!isNumber(altitude) || altitude < 0) throw new Error(`${where} has an invalid altitude`);
+  if (!isNumber(hover) || hover < 0) throw new Error(`${where} has an invalid hover time`);
+  return { x, z, altitude, hover };
+};
+
+export const parseMission = (text: string): Mission => {
+  const data: unknown = JSON.parse(text);
+  if (!isObject(data) || data.format !== MISSION_FILE_FORMAT) throw new Error('Not a drone mission file');
+  if (data.version !== MISSION_FILE_VERSION) throw new Error(`Unsupported mission file version "${String(data.version)}"`);
+  if (!Array.isArray(data.waypoints)) throw new Error('Mission file has no waypoints');
+  if (!isNumber(data.speed) || data.speed <= 0) throw new Error('Mission file has an invalid speed');
+  return { waypoints: data.waypoints.map(readWaypoint), speed: data.speed };
+};
@@ -0,0 +1,88 @@
+import * as THREE from 'three';
+import { Setpoint } from './controller';
+import { GRAVITY, QuadrotorParams } from './quadrotor';
+
+// --- 飛行模式 → 設定點 ---
+// 每個模式是「時間 → 航線位置」的函式，速度與加速度以數值微分當作飛控的前饋，機頭朝飛行方向；
+// 特技翻滾在頂點時改給角速度，翻完再回到位置控制
+
+// 依航線自動飛行的模式
+export type PathMode = 'idle' | 'circle' | 'figure8' | 'spiral' | 'flip';
+// manual：手動飛行，設定點來自搖桿 (見 pilot.ts)；mission：依規劃的航點飛行 (見 mission.ts)
+export type FlightMode = PathMode | 'manual' | 'mission';
+export const FLIGHT_MODE_IDS: FlightMode[] = ['idle', 'circle', 'figure8', 'spiral', 'flip', 'manual', 'mission'];
+
+export type Path = (t: number, out: THREE.Vector3) => THREE.Vector3;
+
+const smoothstep = (x: number) => x * x * (3 - 2 * x);
+
+// 懸停：上下輕微浮動
+const hover: Path = (t, out) => out.set(0, Math.sin(t * 1.5) * 0.3, 0);
+
+const circle: Path = (t, out) => {
+  const radius = 6;
+  const speed = 0.8;
+  return out.set(Math.cos(t * speed) * radius, 0, Math.sin(t * speed) * radius);
+};
+
+// 8 字 (Bernoulli 雙紐線)，一邊繞一邊起伏
+const figure8: Path = (t, out) => {
+  const scale = 6;
+  const speed = 0.6;
+  const s = Math.sin(t * speed), c = Math.cos(t * speed);
+  return out.set(scale * c / (1 + s * s), 1 + Math.sin(t * speed * 2) * 1.5, scale * c * s / (1 + s * s));
+};
+
+// 螺旋：持續盤旋，5 秒爬升、3 秒下降
+const SPIRAL_CLIMB = 5;
+const SPIRAL_CYCLE = 8;
+const spiral: Path = (t, out) => {
+  const radius = 3;
+  const rotSpeed = 1.5;
+  const cycle = t % SPIRAL_CYCLE;
+  const height = cycle < SPIRAL_CLIMB
+    ? smoothstep(cycle / SPIRAL_CLIMB)
+    : 1 - smoothstep((cycle - SPIRAL_CLIMB) / (SPIRAL_CYCLE - SPIRAL_CLIMB));
+  return out.set(Math.cos(t * rotSpeed) * radius, -1 + height * 8, Math.sin(t * rotSpeed) * radius);
+};
+
+// 翻滾：衝高 → 繞機身前後軸翻一圈 → 回到原點懸停
+const FLIP_CYCLE = 4;
+const FLIP_RISE = 0.8;
+const FLIP_ROLL = 0.7;
+const FLIP_RATE = (Math.PI * 2) / FLIP_ROLL;
+const flipHold: Path = (t, out) => {
+  const cycle = t % FLIP_CYCLE;
+  return out.set(0, cycle < FLIP_RISE ? smoothstep(cycle / FLIP_RISE) * 2 : 0, 0);
+};
+
+const PATHS: Record<PathMode, Path> = { idle: hover, circle, figure8, spiral, flip: flipHold };
+
+const DIFF_STEP = 1 / 60;
+const before = new THREE.Vector3();
+const after = new THREE.Vector3();
+
+// 航線在時間 t 的設定點
+export const pathSetpoint = (path: Path, t: number, previousYaw: number): Setpoint => {
+  const position = path(t, new THREE.Vector3());
+  path(t - DIFF_STEP, before);
+  path(t + DIFF_STEP, after);
+  const velocity = new THREE.Vector3().subVectors(after, before).divideScalar(2 * DIFF_STEP);
+  const acceleration = new THREE.Vector3().addVectors(after, before).addScaledVector(position, -2)
+    .divideScalar(DIFF_STEP * DIFF_STEP);
+  // 機頭朝水平飛行方向，幾乎不動時維持原本的方向
+  const yaw = Math.hypot(velocity.x, velocity.z) > 0.5 ? Math.atan2(-velocity.x, -velocity.z) : previousYaw;
+  return { type: 'position', position, velocity, acceleration, yaw };
+};
+
+// 模式在飛行時間 t 的設定點；previousYaw 為目前機頭方向
+export const flightSetpoint = (mode: PathMode, t: number, previousYaw: number, params: QuadrotorParams): Setpoint => {
+  if (mode === 'flip') {
+    const cycle = t % FLIP_CYCLE;
+    if (cycle >= FLIP_RISE && cycle < FLIP_RISE + FLIP_ROLL) {
+      // 翻滾中推力減半，讓機身在空中自由轉動
+      return { type: 'rate', rates: new THREE.Vector3(0, 0, FLIP_RATE), thrust: 0.5 * params.mass * GRAVITY };
+    }
+  }
+  return pathSetpoint(PATHS[mode], t, previousYaw);
+};
@@ -0,0 +1,46 @@
+import * as THREE from 'three';
+
+// --- PID 控制器 ---
+// 三個軸共用一組增益、各自累積積分；誤差以向量傳入 (x, y, z 分量)
+
+export type PidGains = {
+  kp: number;
+  ki: number;
+  kd: number;
+  integralLimit: number; // 積分項的上限 (每軸)，避免長時間誤差累積後暴衝
+};
+
+export type Pid = {
+  gains: PidGains;
+  integral: THREE.Vector3;
+  previousError: THREE.Vector3 | null; // null：第一次更新，微分項從 0 開始
+};
+
+export const createPid = (gains: PidGains): Pid => ({
+  gains,
+  integral: new THREE.Vector3(),
+  previousError: null
+});
+
+export const resetPid = (pid: Pid) => {
+  pid.integral.set(0, 0, 0);
+  pid.previousError = null;
+};
+
+const tmpDerivative = new THREE.Vector3();
+
+// 以誤差更新並把輸出寫入 out
+export const updatePid = (pid: Pid, error: THREE.Vector3, dt: number, out: THREE.Vector3) => {
+  const { kp, ki, kd, integralLimit } = pid.gains;
+  pid.integral.addScaledVector(error, dt).clampScalar(-integralLimit, integralLimit);
+  if (pid.previousError) {
+    tmpDerivative.subVectors(error, pid.previousError).divideScalar(dt);
+    pid.previousError.copy(error);
+  } else {
+    tmpDerivative.set(0, 0, 0);
+    pid.previousError = error.clone();
+  }
+  return out.copy(error).multiplyScalar(kp)
+    .addScaledVector(pid.integral, ki)
+    .addScaledVector(tmpDerivative, kd);
+};
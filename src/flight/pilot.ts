@@ -0,0 +1,170 @@
+import { useEffect, useRef } from 'react';
+import * as THREE from 'three';
+import { Setpoint } from './controller';
+import { GRAVITY, QuadrotorParams, headingOf } from './quadrotor';
+
+// --- 手動飛行 (Mode 2) ---
+// 左搖桿：油門 (上下) / 偏航 (左右)；右搖桿：俯仰 (上下) / 橫滾 (左右)
+// 鍵盤 W/S 油門、A/D 偏航、方向鍵俯仰與橫滾；也可以用任何支援 Gamepad API 的手把
+
+export type Sticks = {
+  throttle: number; // 全部 -1 ~ 1，上 / 右為正
+  yaw: number;
+  pitch: number;
+  roll: number;
+};
+
+// angle：自穩，搖桿決定傾角，放開後自動回水平
+// acro：搖桿決定角速度，放開後維持目前姿態
+export type RateMode = 'angle' | 'acro';
+
+export type PilotSettings = {
+  rateMode: RateMode;
+  expo: number;     // 0 ~ 1，越大搖桿中段越細膩、推到底仍是最大值
+  deadzone: number; // 搖桿中心多少範圍視為 0
+};
+
+export type PilotInput = {
+  sticks: Sticks; // 未經 expo / 死區處理的原始搖桿位置
+  source: 'keyboard' | 'gamepad';
+};
+
+// angle 模式下的目標機頭方向 (偏航搖桿是速率，積分成方向)
+export type Pilot = { yaw: number };
+
+export const DEFAULT_PILOT: PilotSettings = { rateMode: 'angle', expo: 0.3, deadzone: 0.08 };
+
+export const CENTERED: Sticks = { throttle: 0, yaw: 0, pitch: 0, roll: 0 };
+
+const MAX_ANGLE = Math.PI / 6;
+const MAX_RATE = 6;
+const MAX_YAW_RATE = 2;
+const MIN_TILT_COS = 0.7; // 自穩模式補償傾斜損失的推力，最多補到約 45 度
+const KEY_RAMP = 4;       // 鍵盤：按住時搖桿每秒推進的量
+
+export const applyDeadzone = (value: number, deadzone: number) =>
+  Math.abs(value) < deadzone ? 0 : Math.sign(value) * (Math.abs(value) - deadzone) / (1 - deadzone);
+
+export const applyExpo = (value: number, expo: number) => value * (1 - expo) + value ** 3 * expo;
+
+export const shapeSticks = (sticks: Sticks, settings: PilotSettings): Sticks => {
+  const shape = (value: number) => applyExpo(applyDeadzone(value, settings.deadzone), settings.expo);
+  return {
+    throttle: shape(sticks.throttle),
+    yaw: shape(sticks.yaw),
+    pitch: shape(sticks.pitch),
+    roll: shape(sticks.roll)
+  };
+};
+
+// 油門置中 = 懸停推力，推到底 = 最大推力，拉到底 = 0 (鍵盤與自動回中的搖桿都能穩定懸停)
+const collective = (throttle: number, params: QuadrotorParams) => {
+  const hover = params.mass * GRAVITY;
+  const max = params.maxThrust * params.motors.length;
+  return throttle >= 0 ? hover + throttle * (max - hover) : hover * (1 + throttle);
+};
+
+const tmpEuler = new THREE.Euler(0, 0, 0, 'YXZ');
+const tmpUp = new THREE.Vector3();
+
+// 搖桿 (已處理 expo / 死區) → 飛控設定點；attitude 為目前機身姿態
+export const pilotSetpoint = (sticks: Sticks, settings: PilotSettings, pilot: Pilot, attitude: THREE.Quaternion,
+  params: QuadrotorParams, delta: number): Setpoint => {
+  const thrust = collective(sticks.throttle, params);
+  // 搖桿往前推 = 機頭朝下 (繞 +X 為負)；往右 = 右側朝下 (繞 +Z 為負)；偏航往右 = 順時針 (繞 +Y 為負)
+  if (settings.rateMode === 'acro') {
+    pilot.yaw = headingOf(attitude);
+    return {
+      type: 'rate',
+      rates: new THREE.Vector3(-sticks.pitch * MAX_RATE, -sticks.yaw * MAX_YAW_RATE, -sticks.roll * MAX_RATE),
+      thrust
+    };
+  }
+  pilot.yaw -= sticks.yaw * MAX_YAW_RATE * delta;
+  tmpEuler.set(-sticks.pitch * MAX_ANGLE, pilot.yaw, -sticks.roll * MAX_ANGLE);
+  // 依目前實際的傾斜補償推力，傾斜飛行時高度大致不變
+  const tilt = tmpUp.set(0, 1, 0).applyQuaternion(attitude).y;
+  return {
+    type: 'attitude',
+    quaternion: new THREE.Quaternion().setFromEuler(tmpEuler),
+    thrust: thrust / Math.max(tilt, MIN_TILT_COS)
+  };
+};
+
+// --- 輸入 ---
+const KEY_AXES: Record<string, [keyof Sticks, number]> = {
+  KeyW: ['throttle', 1],
+  KeyS: ['throttle', -1],
+  KeyA: ['yaw', -1],
+  KeyD: ['yaw', 1],
+  ArrowUp: ['pitch', 1],
+  ArrowDown: ['pitch', -1],
+  ArrowLeft: ['roll', -1],
+  ArrowRight: ['roll', 1]
+};
+
+// 鍵盤是開關訊號：搖桿位置以固定速率推向按鍵方向，放開後回中，輕點就能做小修正
+const rampKeyboard = (sticks: Sticks, held: Set<string>, delta: number) => {
+  const target: Sticks = { ...CENTERED };
+  held.forEach(code => {
+    const [axis, sign] = KEY_AXES[code];
+    target[axis] += sign;
+  });
+  const step = KEY_RAMP * delta;
+  (Object.keys(target) as (keyof Sticks)[]).forEach(axis => {
+    const value = sticks[axis];
+    sticks[axis] = value + THREE.MathUtils.clamp(target[axis] - value, -step, step);
+  });
+  return sticks;
+};
+
+// 第一個標準配置的手把 (axes 0/1 = 左搖桿、2/3 = 右搖桿，往上為負)
+const readGamepad = (): Sticks | null => {
+  const pads = typeof navigator.getGamepads === 'function' ? navigator.getGamepads() : [];
+  const pad = Array.from(pads).find(p => p && p.connected && p.axes.length >= 4);
+  if (!pad) return null;
+  return { throttle: -pad.axes[1], yaw: pad.axes[0], pitch: -pad.axes[3], roll: pad.axes[2] };
+};
+
+// 啟用時持續讀取鍵盤與手把；有按鍵按著時以鍵盤為準
+export const usePilotInput = (enabled: boolean) => {
+  const input = useRef<PilotInput>({ sticks: { ...CENTERED }, source: 'keyboard' });
+
+  useEffect(() => {
+    if (!enabled) return;
+    const held = new Set<string>();
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.code in KEY_AXES)) return;
+      e.preventDefault(); // 方向鍵不要捲動頁面
+      held.add(e.code);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => held.delete(e.code);
+    const handleBlur = () => held.clear();
+
+    let rafId: number;
+    let last = performance.now();
+    const poll = (now: number) => {
+      const delta = Math.min((now - last) / 1000, 0.1);
+      last = now;
+      const pad = held.size === 0 ? readGamepad() : null;
+      input.current = pad
+        ? { sticks: pad, source: 'gamepad' }
+        : { sticks: rampKeyboard(input.current.sticks, held, delta), source: 'keyboard' };
+      rafId = requestAnimationFrame(poll);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    rafId = requestAnimationFrame(poll);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+      cancelAnimationFrame(rafId);
+      input.current = { sticks: { ...CENTERED }, source: 'keyboard' };
+    };
+  }, [enabled]);
+
+  return input;
+};
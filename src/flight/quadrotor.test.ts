@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { getModel } from '../lego/registry';
+import { createDroneSim, splitDroneBricks } from './airframe';
+import { createController } from './controller';
+import { PathMode, flightSetpoint } from './modes';
+import { Quadrotor, createQuadrotorParams, headingOf, resetQuadrotor, stepQuadrotor } from './quadrotor';
+
+const GROUND_Y = -2;
+const FRAME = 1 / 60;
+
+// 用頁面上同一架積木無人機建立模擬
+const droneSim = () => {
+  const { allBricks, propGroups } = splitDroneBricks(getModel('drone').generate());
+  return createDroneSim(allBricks, propGroups, GROUND_Y);
+};
+
+const isFiniteState = (sim: Quadrotor) => {
+  const { position, velocity, quaternion, angularVelocity, thrusts } = sim.state;
+  return [...position.toArray(), ...velocity.toArray(), ...quaternion.toArray(), ...angularVelocity.toArray(), ...thrusts]
+    .every(Number.isFinite);
+};
+
+describe('drone airframe', () => {
+  it('has one motor per propeller', () => {
+    const { propGroups } = splitDroneBricks(getModel('drone').generate());
+    expect(propGroups.map(g => g.name)).toEqual(['FL', 'FR', 'BL', 'BR']);
+    propGroups.forEach(g => expect(g.bricks.length).toBeGreaterThan(0));
+  });
+
+  it('rejects anything but four motors', () => {
+    const bricks = getModel('drone').generate();
+    const motor = { position: new THREE.Vector3(1, 0, 1), direction: 1 as const };
+    const options = { mass: 1, thrustToWeight: 4, floor: -10 };
+    expect(() => createQuadrotorParams(bricks, [motor, motor, motor, motor, motor], options)).toThrow(/exactly 4 motors/);
+    const params = createQuadrotorParams(bricks, [motor, motor, motor, motor], options);
+    expect(() => createController({ ...params, motors: params.motors.slice(0, 3) })).toThrow(/exactly 4 motors/);
+  });
+});
+
+describe('quadrotor flight', () => {
+  it('holds a hover at the origin', () => {
+    const sim = droneSim();
+    const target = { type: 'position' as const, position: new THREE.Vector3(0, 0, 0), yaw: 0 };
+    for (let t = 0; t < 5; t += FRAME) stepQuadrotor(sim, target, FRAME);
+    expect(isFiniteState(sim)).toBe(true);
+    expect(sim.state.position.length()).toBeLessThan(0.1);
+    expect(sim.state.velocity.length()).toBeLessThan(0.1);
+    expect(Math.abs(headingOf(sim.state.quaternion))).toBeLessThan(0.05);
+  });
+
+  it.each<PathMode>(['idle', 'circle', 'figure8', 'spiral', 'flip'])('stays finite and on course in %s mode', mode => {
+    const sim = droneSim();
+    resetQuadrotor(sim, new THREE.Vector3(0, 0, 0));
+    let worst = 0;
+    for (let t = 0; t < 12; t += FRAME) {
+      const setpoint = flightSetpoint(mode, t, headingOf(sim.state.quaternion), sim.params);
+      stepQuadrotor(sim, setpoint, FRAME);
+      // 前 5 秒從原點追上航線；翻滾中改給角速度，不比較位置
+      if (setpoint.type === 'position' && t > 5) worst = Math.max(worst, sim.state.position.distanceTo(setpoint.position));
+    }
+    expect(isFiniteState(sim)).toBe(true);
+    expect(worst).toBeLessThan(mode === 'flip' ? 3 : 1.5);
+  });
+});
@@ -0,0 +1,192 @@
+import * as THREE from 'three';
+import { BrickData } from '../lego/model';
+import { FlightController, Setpoint, createController, motorCommands, resetController } from './controller';
+
+// --- 四旋翼剛體模型 ---
+// 機體為單一剛體：質量與轉動慣量由積木的體積分布估算，四顆馬達各自在安裝位置產生向上推力與反扭矩，
+// 加上空氣阻力；以固定時間步長積分，不依賴 React，可直接在 node 下模擬
+// 座標：Y 朝上，機頭 (鏡頭) 朝 -Z，角速度以機體座標表示
+
+export type Motor = {
+  position: THREE.Vector3; // 相對重心的安裝位置 (機體座標)
+  direction: 1 | -1;       // 1 = 由上往下看逆時針 (繞 +Y)，反扭矩朝 -Y
+};
+
+export type QuadrotorParams = {
+  mass: number;
+  inertia: THREE.Vector3;  // 主轉動慣量 (機體座標 x, y, z)
+  motors: Motor[];
+  maxThrust: number;       // 單顆馬達的最大推力
+  yawMoment: number;       // 反扭矩 = yawMoment × 推力
+  motorLag: number;        // 馬達轉速反應的時間常數 (秒)
+  drag: number;            // 線性空氣阻力係數
+  angularDrag: number;
+  floor: number;           // 機體原點最低能到的高度 (腳架著地)
+};
+
+export type QuadrotorState = {
+  position: THREE.Vector3;
+  velocity: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  angularVelocity: THREE.Vector3; // 機體座標
+  thrusts: number[];              // 各馬達目前的推力
+  landed: boolean;
+};
+
+export type Quadrotor = {
+  params: QuadrotorParams;
+  state: QuadrotorState;
+  controller: FlightController;
+  time: number;
+  accumulator: number;
+};
+
+export const GRAVITY = 9.8;
+// 混控矩陣是 4×4，只能分配給四顆馬達
+export const MOTOR_COUNT = 4;
+const FIXED_STEP = 1 / 240;
+const MAX_STEPS = 8;          // 每幀最多模擬幾步 (掉幀時寧可變慢動作)
+const GROUND_FRICTION = 8;    // 著地時水平速度的衰減速率
+const GROUND_LEVELING = 10;   // 著地時機身被腳架扶正的速率
+const UP = new THREE.Vector3(0, 1, 0);
+
+// 由積木估算質量分布：每顆積木的質量與體積成正比，視為實心長方體
+export const createQuadrotorParams = (bricks: BrickData[], motors: Motor[], options: {
+  mass: number,
+  thrustToWeight: number,
+  floor: number
+}): QuadrotorParams => {
+  if (motors.length !== MOTOR_COUNT) throw new Error(`Quadrotor needs exactly ${MOTOR_COUNT} motors, got ${motors.length}`);
+  const volumes = bricks.map(b => b.size[0] * b.size[1] * b.size[2]);
+  const totalVolume = volumes.reduce((sum, v) => sum + v, 0);
+  const inertia = new THREE.Vector3();
+  bricks.forEach((brick, i) => {
+    const m = options.mass * volumes[i] / totalVolume;
+    const [x, y, z] = brick.pos;
+    const [w, h, d] = brick.size;
+    inertia.x += m * (y * y + z * z) + m * (h * h + d * d) / 12;
+    inertia.y += m * (x * x + z * z) + m * (w * w + d * d) / 12;
+    inertia.z += m * (x * x + y * y) + m * (w * w + h * h) / 12;
+  });
+  return {
+    mass: options.mass,
+    inertia,
+    motors,
+    maxThrust: options.thrustToWeight * options.mass * GRAVITY / motors.length,
+    yawMoment: 0.15,
+    motorLag: 0.02,
+    drag: 0.25,
+    angularDrag: 0.02,
+    floor: options.floor
+  };
+};
+
+// 懸停時每顆馬達需要的推力
+export const hoverThrust = (params: QuadrotorParams) => params.mass * GRAVITY / params.motors.length;
+
+export const createQuadrotor = (params: QuadrotorParams, position = new THREE.Vector3()): Quadrotor => {
+  const sim: Quadrotor = {
+    params,
+    state: {
+      position: new THREE.Vector3(),
+      velocity: new THREE.Vector3(),
+      quaternion: new THREE.Quaternion(),
+      angularVelocity: new THREE.Vector3(),
+      thrusts: params.motors.map(() => 0),
+      landed: false
+    },
+    controller: createController(params),
+    time: 0,
+    accumulator: 0
+  };
+  resetQuadrotor(sim, position);
+  return sim;
+};
+
+// 放回指定位置、水平懸停 (馬達維持懸停推力)
+export const resetQuadrotor = (sim: Quadrotor, position: THREE.Vector3, yaw = 0) => {
+  const { state, params } = sim;
+  state.position.copy(position);
+  state.velocity.set(0, 0, 0);
+  state.quaternion.setFromAxisAngle(UP, yaw);
+  state.angularVelocity.set(0, 0, 0);
+  state.thrusts = params.motors.map(() => hoverThrust(params));
+  state.landed = position.y <= params.floor;
+  sim.accumulator = 0;
+  resetController(sim.controller);
+};
+
+const commands: number[] = [];
+const force = new THREE.Vector3();
+const torque = new THREE.Vector3();
+const arm = new THREE.Vector3();
+const momentum = new THREE.Vector3();
+const spin = new THREE.Quaternion();
+const level = new THREE.Quaternion();
+const forward = new THREE.Vector3();
+
+// 機頭 (-Z) 的水平方向角 (繞 +Y，0 = 朝 -Z)
+export const headingOf = (quaternion: THREE.Quaternion) => {
+  forward.set(0, 0, -1).applyQuaternion(quaternion);
+  return Math.atan2(-forward.x, -forward.z);
+};
+
+const substep = (sim: Quadrotor, setpoint: Setpoint, dt: number) => {
+  const { params, state } = sim;
+  motorCommands(sim.controller, params, state, setpoint, dt, commands);
+
+  // 馬達轉速有慣性：推力以一階延遲追上指令
+  const response = 1 - Math.exp(-dt / params.motorLag);
+  let totalThrust = 0;
+  torque.set(0, 0, 0);
+  params.motors.forEach((motor, i) => {
+    const command = THREE.MathUtils.clamp(commands[i], 0, params.maxThrust);
+    const thrust = state.thrusts[i] += (command - state.thrusts[i]) * response;
+    totalThrust += thrust;
+    // 推力 (0, T, 0) 作用在馬達位置產生的力矩，加上螺旋槳的反扭矩
+    torque.add(arm.copy(motor.position).cross(force.set(0, thrust, 0)));
+    torque.y -= motor.direction * params.yawMoment * thrust;
+  });
+
+  // 角運動 (機體座標)：I dω/dt = τ - ω × Iω
+  const { angularVelocity: omega } = state;
+  const { inertia } = params;
+  momentum.copy(omega).multiply(inertia);
+  torque.sub(momentum.crossVectors(omega, momentum)).addScaledVector(omega, -params.angularDrag);
+  omega.add(torque.divide(inertia).multiplyScalar(dt));
+  const angle = omega.length() * dt;
+  if (angle > 0) {
+    spin.setFromAxisAngle(arm.copy(omega).normalize(), angle);
+    state.quaternion.multiply(spin).normalize();
+  }
+
+  // 線運動 (世界座標)
+  force.set(0, totalThrust, 0).applyQuaternion(state.quaternion);
+  force.y -= params.mass * GRAVITY;
+  force.addScaledVector(state.velocity, -params.drag);
+  state.velocity.addScaledVector(force, dt / params.mass);
+  state.position.addScaledVector(state.velocity, dt);
+
+  // 地面：腳架著地後不再下沉，水平滑動被摩擦停下，機身被扶正
+  state.landed = state.position.y <= params.floor;
+  if (state.landed) {
+    state.position.y = params.floor;
+    state.velocity.y = Math.max(state.velocity.y, 0);
+    const friction = Math.exp(-GROUND_FRICTION * dt);
+    state.velocity.x *= friction;
+    state.velocity.z *= friction;
+    level.setFromAxisAngle(UP, headingOf(state.quaternion));
+    state.quaternion.slerp(level, 1 - Math.exp(-GROUND_LEVELING * dt));
+    omega.multiplyScalar(friction);
+  }
+  sim.time += dt;
+};
+
+// 推進 delta 秒：以固定步長積分，setpoint 在這段時間內視為不變
+export const stepQuadrotor = (sim: Quadrotor, setpoint: Setpoint, delta: number) => {
+  sim.accumulator = Math.min(sim.accumulator + delta, FIXED_STEP * MAX_STEPS);
+  while (sim.accumulator >= FIXED_STEP) {
+    substep(sim, setpoint, FIXED_STEP);
+    sim.accumulator -= FIXED_STEP;
+  }
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { FlightFrame, createRecorder, parseRecording, recordFrame, serializeRecordingCsv, serializeRecordingJson, startRecorder, stopRecorder } from './recording';
+
+const FRAME = 1 / 60;
+
+// 一段兩秒的假飛行：邊前進邊轉向，後半段換模式、最後停槳
+const recordSample = () => {
+  const recorder = createRecorder();
+  startRecorder(recorder);
+  const drone = new THREE.Object3D();
+  for (let i = 0; i < 120; i++) {
+    drone.position.set(i * 0.1, Math.sin(i / 10), -i * 0.05);
+    drone.rotation.set(0.1, i * 0.02, -0.2);
+    recordFrame(recorder, drone, i < 60 ? 'circle' : 'flip', i < 100, FRAME);
+  }
+  return stopRecorder(recorder)!;
+};
+
+const expectFramesClose = (actual: FlightFrame[], expected: FlightFrame[], digits: number) => {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((frame, i) => {
+    const other = expected[i];
+    expect(frame.t).toBeCloseTo(other.t, digits);
+    frame.position.forEach((v, j) => expect(v).toBeCloseTo(other.position[j], digits));
+    frame.quaternion.forEach((v, j) => expect(v).toBeCloseTo(other.quaternion[j], digits));
+    expect(frame.mode).toBe(other.mode);
+    expect(frame.spinning).toBe(other.spinning);
+  });
+};
+
+describe('flight recording files', () => {
+  it('round-trips through JSON', () => {
+    const recording = recordSample();
+    const loaded = parseRecording(serializeRecordingJson(recording));
+    expect(loaded.duration).toBeCloseTo(recording.duration, 10);
+    expectFramesClose(loaded.frames, recording.frames, 10);
+  });
+
+  it('round-trips through CSV', () => {
+    const recording = recordSample();
+    const loaded = parseRecording(serializeRecordingCsv(recording));
+    expect(loaded.duration).toBeCloseTo(recording.duration, 3);
+    expectFramesClose(loaded.frames, recording.frames, 3);
+  });
+
+  it('skips frames with a non-finite pose', () => {
+    const recorder = createRecorder();
+    startRecorder(recorder);
+    const drone = new THREE.Object3D();
+    recordFrame(recorder, drone, 'idle', true, FRAME);
+    drone.position.x = NaN;
+    recordFrame(recorder, drone, 'idle', true, FRAME);
+    drone.position.x = 1;
+    recordFrame(recorder, drone, 'idle', true, FRAME);
+    const recording = stopRecorder(recorder)!;
+    expect(recording.frames.map(f => f.position[0])).toEqual([0, 1]);
+    expect(recording.duration).toBeCloseTo(2 * FRAME, 10);
+    expect(() => parseRecording(serializeRecordingCsv(recording))).not.toThrow();
+  });
+
+  it('rejects malformed files', () => {
+    expect(() => parseRecording('{"format":"something-else"}')).toThrow(/Not a drone flight recording/);
+    expect(() => parseRecording('null')).toThrow();
+    const csv = serializeRecordingCsv(recordSample()).split('\n');
+    expect(() => parseRecording([...csv.slice(0, 2), csv[2].replace('circle', 'warp')].join('\n'))).toThrow(/unknown flight mode "warp"/);
+    expect(() => parseRecording(csv.slice(0, 2).join('\n'))).toThrow(/at least two frames/);
+    // 全部影格都在同一時間：無法循環重播
+    const frozen = recordSample().frames.map(f => ({ ...f, t: 0 }));
+    expect(() => parseRecording(serializeRecordingJson({ frames: frozen, duration: 0 }))).toThrow(/zero duration/);
+  });
+});
@@ -0,0 +1,162 @@
+import * as THREE from 'three';
+import { FLIGHT_MODE_IDS, FlightMode } from './modes';
+
+// --- 飛行紀錄 ---
+// 錄製時每幀記下機身位置、姿態、飛行模式與螺旋槳是否轉動；重播時依時間內插 (位置線性、姿態 slerp)，
+// 可存成 JSON 或 CSV (方便用試算表比較學生的手動飛行)，也能再讀回來
+
+export type FlightFrame = {
+  t: number;                                         // 從開始錄製算起的秒數
+  position: [number, number, number];
+  quaternion: [number, number, number, number];      // x, y, z, w
+  mode: FlightMode;
+  spinning: boolean;                                 // 螺旋槳是否轉動
+};
+
+export type FlightRecording = {
+  frames: FlightFrame[];
+  duration: number;
+};
+
+export type Recorder = {
+  active: boolean;
+  time: number;
+  frames: FlightFrame[];
+};
+
+// 最長錄製時間，超過就自動停止累積
+const MAX_DURATION = 600;
+
+export const createRecorder = (): Recorder => ({ active: false, time: 0, frames: [] });
+
+export const startRecorder = (recorder: Recorder) => {
+  recorder.active = true;
+  recorder.time = 0;
+  recorder.frames = [];
+};
+
+// 停止錄製並取出紀錄；少於兩幀或長度為 0 時無法重播，回傳 null
+export const stopRecorder = (recorder: Recorder): FlightRecording | null => {
+  recorder.active = false;
+  return createRecording(recorder.frames);
+};
+
+export const recordFrame = (recorder: Recorder, object: THREE.Object3D, mode: FlightMode, spinning: boolean, delta: number) => {
+  if (!recorder.active || !Number.isFinite(delta)) return;
+  if (recorder.frames.length) recorder.time += delta;
+  if (recorder.time > MAX_DURATION) return;
+  const { position: p, quaternion: q } = object;
+  const position: FlightFrame['position'] = [p.x, p.y, p.z];
+  const quaternion: FlightFrame['quaternion'] = [q.x, q.y, q.z, q.w];
+  // 模擬數值壞掉 (NaN / Infinity) 的影格跳過 (時間照走)，否則存出來的檔案讀不回來
+  if (!position.every(Number.isFinite) || !quaternion.every(Number.isFinite)) return;
+  recorder.frames.push({ t: recorder.time, position, quaternion, mode, spinning });
+};
+
+// 重播需要至少兩幀、且時間長度大於 0 (循環播放時以 duration 取餘數)
+const createRecording = (frames: FlightFrame[]): FlightRecording | null => {
+  const duration = frames.length < 2 ? 0 : frames[frames.length - 1].t;
+  return duration > 0 ? { frames, duration } : null;
+};
+
+const tmpVector = new THREE.Vector3();
+const tmpQuat = new THREE.Quaternion();
+
+// 紀錄開始後 t 秒的姿態寫入 object，回傳當時的影格 (取模式與螺旋槳狀態)
+export const sampleRecording = (recording: FlightRecording, t: number, object: THREE.Object3D) => {
+  const { frames } = recording;
+  const time = THREE.MathUtils.clamp(t, 0, recording.duration);
+  // 二分搜尋：frames[low].t <= time < frames[low + 1].t
+  let low = 0;
+  let high = frames.length - 1;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (frames[mid].t <= time) low = mid;
+    else high = mid;
+  }
+  const a = frames[low];
+  const b = frames[high];
+  const span = b.t - a.t;
+  const alpha = span > 0 ? THREE.MathUtils.clamp((time - a.t) / span, 0, 1) : 0;
+  object.position.fromArray(a.position).lerp(tmpVector.fromArray(b.position), alpha);
+  object.quaternion.fromArray(a.quaternion).slerp(tmpQuat.fromArray(b.quaternion), alpha);
+  return alpha < 0.5 ? a : b;
+};
+
+// --- 紀錄檔 ---
+export const RECORDING_FILE_FORMAT = 'lego_build/drone-flight';
+export const RECORDING_FILE_VERSION = 1;
+
+const CSV_COLUMNS = ['t', 'x', 'y', 'z', 'qx', 'qy', 'qz', 'qw', 'mode', 'spinning'];
+
+export const serializeRecordingJson = (recording: FlightRecording) => JSON.stringify({
+  format: RECORDING_FILE_FORMAT,
+  version: RECORDING_FILE_VERSION,
+  frames: recording.frames
+});
+
+export const serializeRecordingCsv = (recording: FlightRecording) => [
+  CSV_COLUMNS.join(','),
+  ...recording.frames.map(f => [
+    f.t.toFixed(4),
+    ...f.position.map(v => v.toFixed(4)),
+    ...f.quaternion.map(v => v.toFixed(5)),
+    f.mode,
+    f.spinning ? 1 : 0
+  ].join(','))
+].join('\n');
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isNumbers = (v: unknown, length: number): v is number[] => Array.isArray(v) && v.length === length && v.every(isNumber);
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null;
+const isFlightMode = (v: unknown): v is FlightMode => FLIGHT_MODE_IDS.includes(v as FlightMode);
+
+const readFrame = (raw: unknown, index: number, previous: FlightFrame | undefined): FlightFrame => {
+  const where = `frame #${index}`;
+  if (!isObject(raw)) throw new Error(`${where} is not an object`);
+  const { t, position, quaternion, mode, spinning } = raw;
+  if (!isNumber(t) || t < (previous?.t ?? 0)) throw new Error(`${where} has an invalid time`);
+  if (!isNumbers(position, 3)) throw new Error(`${where} has an invalid position`);
+  if (!isNumbers(quaternion, 4)) throw new Error(`${where} has an invalid quaternion`);
+  if (!isFlightMode(mode)) throw new Error(`${where} has an unknown flight mode "${String(mode)}"`);
+  if (typeof spinning !== 'boolean') throw new Error(`${where} has an invalid propeller state`);
+  // 存檔時四捨五入過，重新正規化
+  const q = new THREE.Quaternion().fromArray(quaternion).normalize();
+  return { t, position: [position[0], position[1], position[2]], quaternion: [q.x, q.y, q.z, q.w], mode, spinning };
+};
+
+const readFrames = (raws: unknown[]) => {
+  const frames: FlightFrame[] = [];
+  raws.forEach((raw, i) => frames.push(readFrame(raw, i, frames[i - 1])));
+  if (frames.length < 2) throw new Error('Flight recording needs at least two frames');
+  const recording = createRecording(frames);
+  if (!recording) throw new Error('Flight recording has zero duration');
+  return recording;
+};
+
+const parseCsv = (text: string) => {
+  const [header, ...rows] = text.trim().split(/\r?\n/);
+  if (header.trim() !== CSV_COLUMNS.join(',')) throw new Error('Not a flight recording CSV (unexpected header)');
+  return readFrames(rows.map((row, i) => {
+    const cells = row.split(',').map(cell => cell.trim());
+    if (cells.length !== CSV_COLUMNS.length) throw new Error(`CSV row ${i + 2} has ${cells.length} columns, expected ${CSV_COLUMNS.length}`);
+    const [t, x, y, z, qx, qy, qz, qw] = cells.slice(0, 8).map(cell => (cell === '' ? NaN : Number(cell)));
+    return {
+      t,
+      position: [x, y, z],
+      quaternion: [qx, qy, qz, qw],
+      mode: cells[8],
+      spinning: cells[9] === '1' ? true : cells[9] === '0' ? false : cells[9]
+    };
+  }));
+};
+
+// JSON 或 CSV (依第一個字元判斷)
+export const parseRecording = (text: string): FlightRecording => {
+  if (!text.trimStart().startsWith('{')) return parseCsv(text);
+  const data: unknown = JSON.parse(text);
+  if (!isObject(data) || data.format !== RECORDING_FILE_FORMAT) throw new Error('Not a drone flight recording');
+  if (data.version !== RECORDING_FILE_VERSION) throw new Error(`Unsupported flight recording version "${String(data.version)}"`);
+  if (!Array.isArray(data.frames)) throw new Error('Flight recording has no frames');
+  return readFrames(data.frames);
+};
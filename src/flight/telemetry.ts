@@ -0,0 +1,94 @@
+import * as THREE from 'three';
+import { Quadrotor, headingOf } from './quadrotor';
+
+// --- 飛行遙測 ---
+// 無人機每幀把機身位置、姿態與速度寫進 Telemetry (ref)，HUD 再換算成顯示用的數值；
+// 航跡以固定間隔取樣 (俯視的 x / z)，只保留最近一段
+
+export type Telemetry = {
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  velocity: THREE.Vector3;
+  home: THREE.Vector3;  // 起飛點
+  floor: number;        // 機身貼地時的高度 (position.y)，取自模擬參數
+  trail: [number, number][];
+  sinceSample: number;  // 距離上一個航跡點的秒數
+};
+
+export type TelemetryReadout = {
+  altitude: number;      // 離地高度 (m)
+  groundSpeed: number;   // 水平速度 (m/s)
+  verticalSpeed: number; // 爬升為正 (m/s)
+  heading: number;       // 羅盤方向 0 ~ 360 度，順時針；起飛時機頭朝向為 0
+  distance: number;      // 與起飛點的水平距離 (m)
+  pitch: number;         // 機頭抬起為正 (度)
+  roll: number;          // 右側下沉為正 (度)
+};
+
+export type UnitSystemId = 'metric' | 'kmh' | 'imperial';
+
+export type UnitSystem = {
+  label: string;
+  length: [string, number]; // [單位, 由公尺換算的倍率]
+  speed: [string, number];  // 由 m/s 換算
+  climb: [string, number];
+};
+
+export const UNIT_SYSTEMS: Record<UnitSystemId, UnitSystem> = {
+  metric: { label: '公制 (m/s)', length: ['m', 1], speed: ['m/s', 1], climb: ['m/s', 1] },
+  kmh: { label: '公制 (km/h)', length: ['m', 1], speed: ['km/h', 3.6], climb: ['m/s', 1] },
+  imperial: { label: '英制', length: ['ft', 3.28084], speed: ['mph', 2.23694], climb: ['ft/s', 3.28084] }
+};
+
+const TRAIL_INTERVAL = 0.1;
+const TRAIL_LENGTH = 600; // 約 1 分鐘
+
+export const createTelemetry = (home: THREE.Vector3): Telemetry => ({
+  position: home.clone(),
+  quaternion: new THREE.Quaternion(),
+  velocity: new THREE.Vector3(),
+  home: home.clone(),
+  floor: home.y,
+  trail: [],
+  sinceSample: 0
+});
+
+export const resetTelemetry = (telemetry: Telemetry) => {
+  telemetry.position.copy(telemetry.home);
+  telemetry.quaternion.identity();
+  telemetry.velocity.set(0, 0, 0);
+  telemetry.trail = [];
+  telemetry.sinceSample = 0;
+};
+
+// object：畫面上的機身 (groupRef)；速度與地面高度取自模擬
+export const recordTelemetry = (telemetry: Telemetry, object: THREE.Object3D, sim: Quadrotor, delta: number) => {
+  telemetry.position.copy(object.position);
+  telemetry.quaternion.copy(object.quaternion);
+  telemetry.velocity.copy(sim.state.velocity);
+  telemetry.floor = sim.params.floor;
+  telemetry.sinceSample += delta;
+  if (telemetry.sinceSample < TRAIL_INTERVAL && telemetry.trail.length) return;
+  telemetry.sinceSample = 0;
+  telemetry.trail.push([object.position.x, object.position.z]);
+  if (telemetry.trail.length > TRAIL_LENGTH) telemetry.trail.shift();
+};
+
+const tmpEuler = new THREE.Euler(0, 0, 0, 'YXZ');
+
+export const readTelemetry = (telemetry: Telemetry): TelemetryReadout => {
+  const { position, velocity, home, quaternion } = telemetry;
+  tmpEuler.setFromQuaternion(quaternion, 'YXZ');
+  return {
+    altitude: Math.max(0, position.y - telemetry.floor),
+    groundSpeed: Math.hypot(velocity.x, velocity.z),
+    verticalSpeed: velocity.y,
+    heading: THREE.MathUtils.euclideanModulo(-THREE.MathUtils.radToDeg(headingOf(quaternion)), 360),
+    distance: Math.hypot(position.x - home.x, position.z - home.z),
+    pitch: THREE.MathUtils.radToDeg(tmpEuler.x),
+    roll: -THREE.MathUtils.radToDeg(tmpEuler.z)
+  };
+};
+
+export const formatValue = (value: number, [unit, scale]: [string, number], digits = 1) =>
+  `${(value * scale).toFixed(digits)} ${unit}`;
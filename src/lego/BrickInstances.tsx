@@ -0,0 +1,166 @@
+import React, { useLayoutEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { BrickData, BrickPose, FlyConfig, flightProgress, getFinish, randomScatter, randomThreshold, teardownProgress } from './model';
+import { brickRandom, useSeed } from './random';
+import { BrickAppearance, finishKey, getBrickGeometry, getBrickMaterial, shapeKey } from './geometry';
+
+// --- 批次積木渲染器 (InstancedMesh) ---
+// 同一模型的所有積木依「幾何體 + 材質」分組，每組一個 InstancedMesh，
+// 並由單一 useFrame 依時間軸擺放整個模型的積木；still 時直接擺在組裝位置
+
+type InstanceGroup = {
+  key: string;
+  geometry: THREE.BufferGeometry;
+  material: THREE.Material;
+  indices: number[]; // 對應 bricks 陣列中的索引
+};
+
+// 每顆積木的動畫狀態 (預先配置，避免每幀產生新物件)
+type BrickState = {
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  euler: THREE.Euler;
+  scatter: THREE.Vector3;
+  threshold: number;
+  spin: number; // 散落時翻滾的相位
+  targetPos: THREE.Vector3;
+  targetQuat: THREE.Quaternion;
+  liftPos: THREE.Vector3; // 拆解時沿凸起方向拔起後的位置
+};
+
+// 拆解時先花這個比例的時間把積木垂直拔起，剩下的時間才飛走
+const LIFT_SHARE = 0.3;
+// 拔起的距離 (積木高度的倍數)
+const LIFT_HEIGHTS = 2;
+
+const tmpMatrix = new THREE.Matrix4();
+const unitScale = new THREE.Vector3(1, 1, 1);
+const tmpColor = new THREE.Color();
+const tmpQuat = new THREE.Quaternion();
+
+// time: 組裝時間軸目前的時間 (以階段為單位，見 timeline.ts)；teardown: 時間軸倒帶拆解中，改走「拔起再飛走」的路徑
+// from: 取代散落位置的起點姿態 (與 bricks 一一對應，例如物理模擬中或摔落後的積木)，每幀讀取
+// colorOf 可覆寫單顆積木的顏色 (例如檢查結果的紅色標示)
+const BrickInstances = ({ bricks, time, teardown = false, from, fly, still = false, appearance = 'normal', colorOf }: {
+  bricks: BrickData[],
+  time: number,
+  teardown?: boolean,
+  from?: BrickPose[],
+  fly: FlyConfig,
+  still?: boolean,
+  appearance?: BrickAppearance,
+  colorOf?: (brick: BrickData) => string
+}) => {
+  const meshRefs = useRef<(THREE.InstancedMesh | null)[]>([]);
+  const seed = useSeed();
+
+  const groups = useMemo(() => {
+    const byKey = new Map<string, InstanceGroup>();
+    bricks.forEach((brick, i) => {
+      const finish = getFinish(brick.color);
+      const key = `${shapeKey(brick)}|${finishKey(finish)}`;
+      let group = byKey.get(key);
+      if (!group) {
+        group = { key, geometry: getBrickGeometry(brick), material: getBrickMaterial(finish, appearance), indices: [] };
+        byKey.set(key, group);
+      }
+      group.indices.push(i);
+    });
+    return Array.from(byKey.values());
+  }, [bricks, appearance]);
+
+  const states = useMemo<BrickState[]>(() => bricks.map(brick => {
+    const random = brickRandom(seed, brick.id);
+    const scatter = randomScatter(fly, random);
+    const targetQuat = brick.rotation
+      ? new THREE.Quaternion().setFromEuler(new THREE.Euler(...brick.rotation))
+      : new THREE.Quaternion();
+    // 凸起方向 = 積木自身的 +Y (旋轉過的積木沿轉過的方向拔起)
+    const lift = new THREE.Vector3(0, brick.size[1] * LIFT_HEIGHTS, 0).applyQuaternion(targetQuat);
+    return {
+      position: scatter.clone(),
+      quaternion: new THREE.Quaternion(),
+      euler: new THREE.Euler(),
+      scatter,
+      threshold: randomThreshold(brick.stage, fly, random),
+      spin: random() * Math.PI * 2,
+      targetPos: new THREE.Vector3(...brick.pos),
+      targetQuat,
+      liftPos: new THREE.Vector3(...brick.pos).add(lift)
+    };
+  }), [bricks, fly, seed]);
+
+  // 逐顆設定顏色
+  useLayoutEffect(() => {
+    groups.forEach((group, gi) => {
+      const mesh = meshRefs.current[gi];
+      if (!mesh) return;
+      group.indices.forEach((brickIndex, k) => {
+        const brick = bricks[brickIndex];
+        mesh.setColorAt(k, tmpColor.set(colorOf ? colorOf(brick) : brick.color));
+      });
+      if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    });
+  }, [groups, bricks, colorOf]);
+
+  useFrame((state) => {
+    const clock = state.clock.getElapsedTime();
+    states.forEach((s, i) => {
+      if (still) {
+        s.position.copy(s.targetPos);
+        s.quaternion.copy(s.targetQuat);
+        return;
+      }
+      // 起點：指定的姿態，或在散落位置的空中翻滾
+      const origin = from?.[i];
+      const originPos = origin ? origin.position : s.scatter;
+      if (origin) {
+        tmpQuat.copy(origin.quaternion);
+      } else {
+        s.euler.set(s.spin + clock * 0.5, 0, s.spin + clock * 0.2);
+        tmpQuat.setFromEuler(s.euler);
+      }
+      if (teardown) {
+        // 拆解：先沿凸起方向拔起，再加速飛回起點並開始翻滾
+        const away = teardownProgress(time, s.threshold, fly);
+        const lift = THREE.MathUtils.smoothstep(away, 0, LIFT_SHARE);
+        const leave = THREE.MathUtils.clamp((away - LIFT_SHARE) / (1 - LIFT_SHARE), 0, 1) ** 2;
+        s.position.lerpVectors(s.targetPos, s.liftPos, lift).lerp(originPos, leave);
+        s.quaternion.copy(s.targetQuat).slerp(tmpQuat, leave);
+      } else {
+        // 組裝：飛行途中逐漸轉正
+        const progress = flightProgress(time, s.threshold, fly);
+        s.quaternion.copy(tmpQuat).slerp(s.targetQuat, progress);
+        s.position.lerpVectors(originPos, s.targetPos, progress);
+      }
+    });
+
+    groups.forEach((group, gi) => {
+      const mesh = meshRefs.current[gi];
+      if (!mesh) return;
+      group.indices.forEach((brickIndex, k) => {
+        const s = states[brickIndex];
+        mesh.setMatrixAt(k, tmpMatrix.compose(s.position, s.quaternion, unitScale));
+      });
+      mesh.instanceMatrix.needsUpdate = true;
+    });
+  });
+
+  return (
+    <group>
+      {groups.map((group, gi) => (
+        <instancedMesh
+          key={group.key}
+          ref={el => { meshRefs.current[gi] = el; }}
+          args={[group.geometry, group.material, group.indices.length]}
+          castShadow
+          receiveShadow
+          frustumCulled={false}
+        />
+      ))}
+    </group>
+  );
+};
+
+export default BrickInstances;
@@ -0,0 +1,145 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useThree } from '@react-three/fiber';
+import { FlyConfig } from './model';
+import { InstructionStep } from './instructions';
+import BrickInstances from './BrickInstances';
+import { downloadUrl } from '../download';
+
+// --- 組裝說明書模式 ---
+// 先前步驟的積木淡化、本步驟新增的積木發光，旁邊附上類似紙本說明書的零件清單
+
+export type CaptureFn = () => string;
+
+// 取得 Canvas 目前畫面 (PNG data URL)，放在 Canvas 內才拿得到 renderer
+export const CaptureBridge = ({ captureRef }: { captureRef: React.MutableRefObject<CaptureFn | null> }) => {
+  const { gl, scene, camera } = useThree();
+  useEffect(() => {
+    captureRef.current = () => {
+      gl.render(scene, camera);
+      return gl.domElement.toDataURL('image/png');
+    };
+    return () => { captureRef.current = null; };
+  }, [gl, scene, camera, captureRef]);
+  return null;
+};
+
+export const InstructionScene = ({ steps, index, fly }: {
+  steps: InstructionStep[],
+  index: number,
+  fly: FlyConfig
+}) => {
+  const previous = useMemo(() => steps.slice(0, index).flatMap(s => s.bricks), [steps, index]);
+  const current = steps[index]?.bricks ?? [];
+
+  return (
+    <group>
+      <BrickInstances bricks={previous} time={0} fly={fly} still appearance="faded" />
+      <BrickInstances bricks={current} time={0} fly={fly} still appearance="highlight" />
+    </group>
+  );
+};
+
+const waitFrames = (n: number) => new Promise<void>(resolve => {
+  const tick = () => (--n <= 0 ? resolve() : requestAnimationFrame(tick));
+  requestAnimationFrame(tick);
+});
+
+const partsHtml = (step: InstructionStep) => step.parts.map(p =>
+  `<li><span style="display:inline-block;width:14px;height:14px;background:${p.color};border:1px solid #999;margin-right:6px;vertical-align:middle"></span>${p.count} x ${p.label}</li>`
+).join('');
+
+// 說明書頁面 (上一步 / 下一步、零件清單、匯出與列印)
+export const InstructionsPanel = ({ title, steps, index, onIndex, captureRef, accent }: {
+  title: string,
+  steps: InstructionStep[],
+  index: number,
+  onIndex: (i: number) => void,
+  captureRef: React.MutableRefObject<CaptureFn | null>,
+  accent: string
+}) => {
+  const [busy, setBusy] = useState(false);
+  const step = steps[index];
+
+  const exportPng = () => {
+    const url = captureRef.current?.();
+    if (url) downloadUrl(`${title}-step-${index + 1}.png`, url);
+  };
+
+  // 逐頁截圖後在新視窗排版列印；視窗要在點擊當下先開，避免被瀏覽器擋下
+  const printAll = async () => {
+    const win = window.open('', '_blank');
+    if (!win) return;
+    setBusy(true);
+    const pages: string[] = [];
+    for (let i = 0; i < steps.length; i++) {
+      onIndex(i);
+      await waitFrames(3);
+      pages.push(captureRef.current?.() ?? '');
+    }
+    onIndex(index);
+    setBusy(false);
+
+    win.document.write(`<!doctype html><html><head><meta charset="utf-8"><title>${title}</title>
+      <style>body{font-family:"Microsoft JhengHei",sans-serif;margin:0}
+      section{page-break-after:always;padding:24px}img{width:100%;background:#111}
+      h2{margin:0 0 12px}ul{list-style:none;padding:0;columns:2}</style></head><body>
+      ${steps.map((s, i) => `<section><h2>${title}・步驟 ${i + 1} / ${steps.length}</h2>
+        <img src="${pages[i]}"/><ul>${partsHtml(s)}</ul></section>`).join('')}
+      </body></html>`);
+    win.document.close();
+    win.onload = () => win.print();
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    padding: '8px 16px',
+    background: 'rgba(0,0,0,0.6)',
+    color: '#fff',
+    border: '1px solid rgba(255,255,255,0.2)',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontFamily: '"Microsoft JhengHei"'
+  };
+
+  if (!step) return null;
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '50%',
+      right: '30px',
+      transform: 'translateY(-50%)',
+      width: '260px',
+      padding: '20px',
+      background: 'rgba(255,255,255,0.95)',
+      borderRadius: '8px',
+      borderTop: `6px solid ${accent}`,
+      boxShadow: '0 4px 20px rgba(0,0,0,0.5)',
+      fontFamily: '"Microsoft JhengHei", sans-serif',
+      pointerEvents: 'auto'
+    }}>
+      <div style={{ fontSize: '2.5rem', fontWeight: 900, color: '#222', lineHeight: 1 }}>
+        {index + 1}<span style={{ fontSize: '1rem', color: '#888' }}> / {steps.length}</span>
+      </div>
+
+      {/* 本步驟零件 (callout) */}
+      <ul style={{ listStyle: 'none', padding: '12px', margin: '12px 0', border: '2px solid #222', borderRadius: '6px', maxHeight: '240px', overflowY: 'auto' }}>
+        {step.parts.map(p => (
+          <li key={`${p.label}|${p.color}`} style={{ display: 'flex', alignItems: 'center', gap: '8px', margin: '4px 0', color: '#222' }}>
+            <span style={{ width: '16px', height: '16px', background: p.color, border: '1px solid #999', flexShrink: 0 }} />
+            <b>{p.count}x</b>
+            <span>{p.label}</span>
+          </li>
+        ))}
+      </ul>
+
+      <div style={{ display: 'flex', gap: '8px', justifyContent: 'space-between' }}>
+        <button style={buttonStyle} disabled={index === 0 || busy} onClick={() => onIndex(index - 1)}>◀ 上一步</button>
+        <button style={{ ...buttonStyle, background: accent }} disabled={index === steps.length - 1 || busy} onClick={() => onIndex(index + 1)}>下一步 ▶</button>
+      </div>
+      <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+        <button style={{ ...buttonStyle, flex: 1 }} disabled={busy} onClick={exportPng}>匯出本頁 PNG</button>
+        <button style={{ ...buttonStyle, flex: 1 }} disabled={busy} onClick={printAll}>{busy ? '截圖中...' : '列印說明書'}</button>
+      </div>
+    </div>
+  );
+};
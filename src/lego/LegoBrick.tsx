@@ -0,0 +1,69 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { BrickData, FlyConfig, flightProgress, getFinish, randomScatter, randomThreshold } from './model';
+import { getBrickGeometry } from './geometry';
+import { brickRandom, useSeed } from './random';
+
+// --- 單個樂高積木組件 ---
+// 整個模型請使用 BrickInstances 批次繪製；這裡用於需要單獨操作的積木
+// time: 組裝時間軸目前的時間 (以階段為單位)，超過積木門檻後積木飛入
+// still: 直接擺在組裝位置 (編輯器)；selected: 以發光標示目前選取的積木
+const LegoBrick = ({ data, time, fly, still = false, selected = false }: {
+  data: BrickData,
+  time: number,
+  fly: FlyConfig,
+  still?: boolean,
+  selected?: boolean
+}) => {
+  const meshRef = useRef<THREE.Group>(null);
+
+  const seed = useSeed();
+  // 先抽散落位置再抽門檻，與 BrickInstances 的順序相同
+  const { initialPos, threshold, spin } = useMemo(() => {
+    const random = brickRandom(seed, data.id);
+    const initialPos = randomScatter(fly, random);
+    const threshold = randomThreshold(data.stage, fly, random);
+    return { initialPos, threshold, spin: random() * Math.PI * 2 };
+  }, [seed, data.id, data.stage, fly]);
+  const finish = getFinish(data.color);
+  const targetPos = useMemo(() => new THREE.Vector3(...data.pos), [data.pos]);
+  const targetQ = useMemo(() => data.rotation
+    ? new THREE.Quaternion().setFromEuler(new THREE.Euler(...data.rotation))
+    : new THREE.Quaternion(), [data.rotation]);
+
+  useFrame((state) => {
+    if (!meshRef.current) return;
+
+    if (still) {
+      meshRef.current.position.copy(targetPos);
+      meshRef.current.quaternion.copy(targetQ);
+      return;
+    }
+
+    // 散落時在空中翻滾，飛行途中逐漸轉正
+    const clock = state.clock.getElapsedTime();
+    const progress = flightProgress(time, threshold, fly);
+    meshRef.current.rotation.set(spin + clock * 0.5, 0, spin + clock * 0.2);
+    meshRef.current.quaternion.slerp(targetQ, progress);
+    meshRef.current.position.lerpVectors(initialPos, targetPos, progress);
+  });
+
+  return (
+    <group ref={meshRef} position={still ? targetPos : initialPos} quaternion={still ? targetQ : undefined}>
+      <mesh geometry={getBrickGeometry(data)} castShadow receiveShadow>
+        <meshStandardMaterial
+          color={data.color}
+          roughness={finish.roughness}
+          metalness={finish.metalness}
+          transparent={finish.opacity < 1}
+          opacity={finish.opacity}
+          emissive={selected ? '#FFCC00' : '#000000'}
+          emissiveIntensity={selected ? 0.5 : 1}
+        />
+      </mesh>
+    </group>
+  );
+};
+
+export default LegoBrick;
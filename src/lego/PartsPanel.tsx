@@ -0,0 +1,75 @@
+import React, { useMemo } from 'react';
+import { BrickData } from './model';
+import { buildBillOfMaterials, bomToCsv, bomToJson } from './bom';
+import { downloadText } from '../download';
+
+// --- 零件表側邊面板 ---
+const PartsPanel = ({ name, bricks, accent }: { name: string, bricks: BrickData[], accent: string }) => {
+  const bom = useMemo(() => buildBillOfMaterials(bricks), [bricks]);
+  const nonStandard = bom.entries.filter(e => !e.standard).reduce((n, e) => n + e.total, 0);
+
+  const buttonStyle: React.CSSProperties = {
+    flex: 1,
+    padding: '8px',
+    background: 'transparent',
+    color: accent,
+    border: `1px solid ${accent}`,
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontFamily: '"Microsoft JhengHei"'
+  };
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '140px',
+      left: '30px',
+      bottom: '200px',
+      width: '300px',
+      display: 'flex',
+      flexDirection: 'column',
+      padding: '16px',
+      background: 'rgba(0,0,0,0.75)',
+      border: '1px solid rgba(255,255,255,0.1)',
+      borderRadius: '8px',
+      color: '#eee',
+      fontFamily: '"Microsoft JhengHei", sans-serif',
+      pointerEvents: 'auto'
+    }}>
+      <h3 style={{ margin: '0 0 8px', borderBottom: '1px solid #444', paddingBottom: '8px' }}>
+        零件表<span style={{ float: 'right', color: accent }}>共 {bom.total} 件</span>
+      </h3>
+      {nonStandard > 0 && (
+        <p style={{ margin: '0 0 8px', color: '#ff8866', fontSize: '0.85rem' }}>
+          ⚠ {nonStandard} 件為非標準尺寸，實體積木中沒有對應零件
+        </p>
+      )}
+
+      <div style={{ flex: 1, overflowY: 'auto' }}>
+        {bom.entries.map(e => (
+          <div key={`${e.label}|${e.color}`} style={{ padding: '6px 0', borderBottom: '1px solid rgba(255,255,255,0.08)' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+              <span style={{ width: '16px', height: '16px', background: e.color, border: '1px solid #666', flexShrink: 0 }} />
+              <span style={{ flex: 1, color: e.standard ? '#eee' : '#ff8866' }}>{e.label}</span>
+              <b>{e.total}</b>
+            </div>
+            <div style={{ fontSize: '0.75rem', color: '#888', marginLeft: '24px' }}>
+              {Object.entries(e.perStage).map(([stage, count]) => `階段${stage}×${count}`).join('  ')}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div style={{ fontSize: '0.8rem', color: '#aaa', margin: '8px 0' }}>
+        各階段件數：{bom.stages.map(s => `${s}: ${bom.stageTotals[s]}`).join(' / ')}
+      </div>
+      <div style={{ display: 'flex', gap: '8px' }}>
+        {/* CSV 加上 BOM 字元讓 Excel 正確辨識中文 */}
+        <button style={buttonStyle} onClick={() => downloadText(`${name}-parts.csv`, '\uFEFF' + bomToCsv(bom), 'text/csv')}>匯出 CSV</button>
+        <button style={buttonStyle} onClick={() => downloadText(`${name}-parts.json`, bomToJson(bom, name), 'application/json')}>匯出 JSON</button>
+      </div>
+    </div>
+  );
+};
+
+export default PartsPanel;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { BrickData } from './model';
+import { StructureReport, heatColor } from './structure';
+
+// 每顆積木的熱度圖顏色 (依 id 查詢，供 BrickInstances 的 colorOf 使用)
+export const structureColors = (bricks: BrickData[], report: StructureReport) =>
+  new Map(bricks.map((b, i) => [b.id, heatColor(report.scores[i])]));
+
+const LEGEND = [
+  { score: 0, label: '穩固' },
+  { score: 0.4, label: '只扣一顆凸起' },
+  { score: 0.6, label: '關鍵連接 (斷開會分離)' },
+  { score: 0.8, label: '只靠一個連接' },
+  { score: 0.9, label: '屬於另一個連通塊 (與主體分開)' },
+  { score: 1, label: '未與任何積木相連' }
+];
+
+// --- 結構分析面板 ---
+const StructurePanel = ({ bricks, report }: { bricks: BrickData[], report: StructureReport }) => {
+  const main = report.components[report.mainComponent]?.length ?? 0;
+  const embedded = report.connections.filter(c => c.kind === 'embedded').length;
+  const stable = report.tipMargin >= 0;
+  const rows = [
+    { label: '連接數', value: `${report.connections.length} (嵌入 ${embedded})` },
+    { label: '連通塊', value: `${report.components.length} (主體 ${main} / ${bricks.length} 顆)` },
+    { label: '未相連', value: report.isolated.length },
+    { label: '其他連通塊', value: report.detached.length },
+    { label: '單一連接', value: report.weakBricks.length },
+    { label: '關鍵連接', value: report.bridges.length }
+  ];
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '140px',
+      right: '240px', // 讓出右側的飛行面板
+      width: '260px',
+      padding: '16px',
+      background: 'rgba(0,0,0,0.75)',
+      border: '1px solid rgba(255,255,255,0.1)',
+      borderRadius: '8px',
+      color: '#eee',
+      fontFamily: '"Microsoft JhengHei", sans-serif',
+      fontSize: '0.9rem',
+      pointerEvents: 'auto'
+    }}>
+      <h3 style={{ margin: '0 0 8px', borderBottom: '1px solid #444', paddingBottom: '8px' }}>結構分析</h3>
+      {rows.map(row => (
+        <div key={row.label} style={{ display: 'flex', marginBottom: '4px' }}>
+          <span style={{ flex: 1 }}>{row.label}</span>
+          <b>{row.value}</b>
+        </div>
+      ))}
+
+      <div style={{ margin: '10px 0', padding: '8px', borderRadius: '4px', background: stable ? 'rgba(46,139,87,0.3)' : 'rgba(255,32,32,0.3)' }}>
+        {stable
+          ? `重心在底座範圍內 (距邊緣 ${report.tipMargin.toFixed(2)})`
+          : Number.isFinite(report.tipMargin)
+            ? `⚠ 重心超出底座 ${(-report.tipMargin).toFixed(2)}，放在地上會傾倒`
+            : '⚠ 底座面積不足，放在地上會傾倒'}
+      </div>
+
+      {LEGEND.map(item => (
+        <div key={item.score} style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '0.8rem', color: '#aaa' }}>
+          <span style={{ width: '12px', height: '12px', background: heatColor(item.score) }} />
+          {item.label}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default StructurePanel;
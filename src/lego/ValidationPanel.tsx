@@ -0,0 +1,49 @@
+import React from 'react';
+import { ValidationReport } from './validate';
+
+export const ISSUE_COLORS = { error: '#FF2020', warning: '#FF9900', ok: '#555555' };
+
+// --- 模型檢查結果面板 ---
+const ValidationPanel = ({ report }: { report: ValidationReport }) => {
+  const rows = [
+    { label: '互相穿插', count: report.overlaps.length, color: ISSUE_COLORS.error, detail: report.overlaps.slice(0, 5).map(o => `${o.a} ↔ ${o.b} (${o.depth.toFixed(3)})`) },
+    { label: '懸空積木', count: report.floating.length, color: ISSUE_COLORS.error, detail: report.floating.slice(0, 5) },
+    { label: '不在網格上', count: report.offGrid.length, color: ISSUE_COLORS.warning, detail: report.offGrid.slice(0, 5).map(o => `${o.id} (${o.axes.join('')})`) }
+  ];
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '140px',
+      right: '240px', // 讓出右側的飛行面板
+      width: '260px',
+      padding: '16px',
+      background: 'rgba(0,0,0,0.75)',
+      border: '1px solid rgba(255,255,255,0.1)',
+      borderRadius: '8px',
+      color: '#eee',
+      fontFamily: '"Microsoft JhengHei", sans-serif',
+      fontSize: '0.9rem',
+      pointerEvents: 'auto'
+    }}>
+      <h3 style={{ margin: '0 0 8px', borderBottom: '1px solid #444', paddingBottom: '8px' }}>模型檢查</h3>
+      {rows.map(row => (
+        <div key={row.label} style={{ marginBottom: '8px' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <span style={{ width: '12px', height: '12px', borderRadius: '50%', background: row.count ? row.color : '#2E8B57' }} />
+            <span style={{ flex: 1 }}>{row.label}</span>
+            <b>{row.count}</b>
+          </div>
+          {row.detail.map(d => (
+            <div key={d} style={{ fontSize: '0.75rem', color: '#888', marginLeft: '20px' }}>{d}</div>
+          ))}
+          {row.count > row.detail.length && (
+            <div style={{ fontSize: '0.75rem', color: '#666', marginLeft: '20px' }}>... 另有 {row.count - row.detail.length} 項</div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ValidationPanel;
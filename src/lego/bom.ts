@@ -0,0 +1,77 @@
+import { BrickData, PLATE_HEIGHT, STUD, Vec3, describeBrickSize } from './model';
+
+// --- 零件表 (Bill of Materials) ---
+// 依尺寸與顏色分組，統計每個組裝階段與總共需要的數量，用來估算實體積木的採購量
+
+export type BomEntry = {
+  label: string;
+  size: Vec3;
+  tile: boolean;
+  color: string;
+  standard: boolean; // 是否為整數凸起、整數板高的標準尺寸
+  total: number;
+  perStage: { [stage: number]: number };
+};
+
+export type BillOfMaterials = {
+  entries: BomEntry[];
+  stages: number[];
+  stageTotals: { [stage: number]: number };
+  total: number;
+};
+
+const isWhole = (v: number) => v >= 0.95 && Math.abs(v - Math.round(v)) < 0.05;
+
+export const isStandardSize = (brick: Pick<BrickData, 'size'>) =>
+  isWhole(brick.size[0] / STUD) && isWhole(brick.size[2] / STUD) && isWhole(brick.size[1] / PLATE_HEIGHT);
+
+export const buildBillOfMaterials = (bricks: BrickData[]): BillOfMaterials => {
+  const byKey = new Map<string, BomEntry>();
+  const stageTotals: { [stage: number]: number } = {};
+
+  bricks.forEach(brick => {
+    const label = describeBrickSize(brick);
+    const key = `${label}|${brick.color}`;
+    let entry = byKey.get(key);
+    if (!entry) {
+      entry = {
+        label,
+        size: brick.size,
+        tile: !!brick.tile,
+        color: brick.color,
+        standard: isStandardSize(brick),
+        total: 0,
+        perStage: {}
+      };
+      byKey.set(key, entry);
+    }
+    entry.total++;
+    entry.perStage[brick.stage] = (entry.perStage[brick.stage] ?? 0) + 1;
+    stageTotals[brick.stage] = (stageTotals[brick.stage] ?? 0) + 1;
+  });
+
+  return {
+    entries: Array.from(byKey.values()).sort((a, b) => b.total - a.total || a.label.localeCompare(b.label)),
+    stages: Object.keys(stageTotals).map(Number).sort((a, b) => a - b),
+    stageTotals,
+    total: bricks.length
+  };
+};
+
+const csvCell = (v: string | number) => {
+  const text = String(v);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const bomToCsv = (bom: BillOfMaterials) => {
+  const header = ['part', 'color', 'width', 'height', 'depth', 'tile', 'standard', ...bom.stages.map(s => `stage_${s}`), 'total'];
+  const rows = bom.entries.map(e => [
+    e.label, e.color, e.size[0], e.size[1], e.size[2], e.tile ? 1 : 0, e.standard ? 1 : 0,
+    ...bom.stages.map(s => e.perStage[s] ?? 0), e.total
+  ]);
+  const footer = ['TOTAL', '', '', '', '', '', '', ...bom.stages.map(s => bom.stageTotals[s]), bom.total];
+  return [header, ...rows, footer].map(r => r.map(csvCell).join(',')).join('\n') + '\n';
+};
+
+export const bomToJson = (bom: BillOfMaterials, model: string) =>
+  JSON.stringify({ model, ...bom }, null, 2);
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { BRICK_HEIGHT, BrickData, PLATE_HEIGHT, STUD, Vec3 } from './model';
+import { EditorHistory, historyReducer, placementFor, snapPosition } from './editor';
+
+const UP: Vec3 = [0, 1, 0];
+const STUD_HEIGHT = STUD * 0.2;
+const ONE_BY_ONE: Vec3 = [STUD, BRICK_HEIGHT, STUD];
+
+const brickAt = (id: string, bottom: number, size: Vec3): BrickData => ({
+  id,
+  pos: [size[0] / 2, bottom + size[1] / 2, size[2] / 2],
+  size,
+  color: '#B40000',
+  stage: 0
+});
+
+const expectVec3 = (actual: Vec3, expected: Vec3) => actual.forEach((v, i) => expect(v).toBeCloseTo(expected[i], 6));
+
+describe('snapPosition', () => {
+  it('puts brick edges on the stud grid and the bottom on a plate', () => {
+    expectVec3(snapPosition([0.3, 0.23, -0.05], [STUD * 2, PLATE_HEIGHT, STUD]), [0.25, 0.25, -0.125]);
+  });
+
+  it('never sinks below the ground', () => {
+    expectVec3(snapPosition([0, -1, 0], ONE_BY_ONE), [STUD / 2, BRICK_HEIGHT / 2, STUD / 2]);
+  });
+});
+
+describe('placementFor', () => {
+  it('stacks on the clicked brick whether the body or a stud was hit', () => {
+    [0, 1, 2, 6, 9, 12].forEach(plates => {
+      const target = brickAt('t', plates * PLATE_HEIGHT, [STUD * 2, BRICK_HEIGHT, STUD * 2]);
+      const top = target.pos[1] + target.size[1] / 2;
+      const expected: Vec3 = [STUD / 2, top + BRICK_HEIGHT / 2, STUD / 2];
+      expectVec3(placementFor([STUD * 0.4, top, STUD * 0.4], UP, ONE_BY_ONE, target), expected);
+      expectVec3(placementFor([STUD * 0.5, top + STUD_HEIGHT, STUD * 0.5], UP, ONE_BY_ONE, target), expected);
+    });
+  });
+
+  it('places beside the clicked brick on the same level', () => {
+    const target = brickAt('t', PLATE_HEIGHT * 3, [STUD * 2, BRICK_HEIGHT, STUD * 2]);
+    const side: Vec3 = [STUD * 2, target.pos[1] + 0.05, STUD * 0.6];
+    expectVec3(placementFor(side, [1, 0, 0], ONE_BY_ONE, target), [STUD * 2.5, PLATE_HEIGHT * 3 + BRICK_HEIGHT / 2, STUD / 2]);
+  });
+
+  it('places on the ground when nothing was hit', () => {
+    const size: Vec3 = [STUD * 4, BRICK_HEIGHT, STUD * 2];
+    expectVec3(placementFor([1.1, 0, -0.6], UP, size), [1, BRICK_HEIGHT / 2, -0.5]);
+  });
+});
+
+describe('historyReducer', () => {
+  const a = [brickAt('a', 0, ONE_BY_ONE)];
+  const b = [...a, brickAt('b', BRICK_HEIGHT, ONE_BY_ONE)];
+  const c = [...b, brickAt('c', BRICK_HEIGHT * 2, ONE_BY_ONE)];
+  const start: EditorHistory = { past: [], present: a, future: [] };
+
+  it('undoes and redoes applied edits', () => {
+    let state = historyReducer(start, { type: 'apply', bricks: b });
+    state = historyReducer(state, { type: 'apply', bricks: c });
+    expect(state).toEqual({ past: [a, b], present: c, future: [] });
+
+    state = historyReducer(state, { type: 'undo' });
+    state = historyReducer(state, { type: 'undo' });
+    expect(state).toEqual({ past: [], present: a, future: [b, c] });
+    expect(historyReducer(state, { type: 'undo' })).toBe(state);
+
+    state = historyReducer(state, { type: 'redo' });
+    expect(state).toEqual({ past: [a], present: b, future: [c] });
+  });
+
+  it('drops the redo stack on a new edit and ignores no-op edits', () => {
+    const undone = historyReducer(historyReducer(start, { type: 'apply', bricks: b }), { type: 'undo' });
+    expect(historyReducer(undone, { type: 'apply', bricks: c })).toEqual({ past: [a], present: c, future: [] });
+    expect(historyReducer(undone, { type: 'apply', bricks: undone.present })).toBe(undone);
+    expect(historyReducer(undone, { type: 'redo' }).present).toBe(b);
+  });
+
+  it('keeps a bounded history and clears it on reset', () => {
+    let state = start;
+    for (let i = 0; i < 250; i++) state = historyReducer(state, { type: 'apply', bricks: [...state.present] });
+    expect(state.past).toHaveLength(200);
+    expect(historyReducer(state, { type: 'reset', bricks: c })).toEqual({ past: [], present: c, future: [] });
+  });
+});
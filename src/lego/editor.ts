@@ -0,0 +1,104 @@
+import { BRICK_HEIGHT, BrickData, PLATE_HEIGHT, STUD, Vec3 } from './model';
+
+// --- 積木編輯器的資料操作 ---
+// 全部是純函式：編輯器畫面只負責把滑鼠 / 鍵盤事件轉成這裡的操作
+
+export type BrickPreset = { label: string; size: Vec3; tile?: boolean };
+
+// 常用零件 (尺寸依凸起數換算)
+export const BRICK_PRESETS: BrickPreset[] = [
+  { label: '1x1 積木', size: [STUD, BRICK_HEIGHT, STUD] },
+  { label: '1x2 積木', size: [STUD * 2, BRICK_HEIGHT, STUD] },
+  { label: '1x4 積木', size: [STUD * 4, BRICK_HEIGHT, STUD] },
+  { label: '2x2 積木', size: [STUD * 2, BRICK_HEIGHT, STUD * 2] },
+  { label: '2x4 積木', size: [STUD * 4, BRICK_HEIGHT, STUD * 2] },
+  { label: '1x1 薄板', size: [STUD, PLATE_HEIGHT, STUD] },
+  { label: '1x2 薄板', size: [STUD * 2, PLATE_HEIGHT, STUD] },
+  { label: '2x2 薄板', size: [STUD * 2, PLATE_HEIGHT, STUD * 2] },
+  { label: '2x4 薄板', size: [STUD * 4, PLATE_HEIGHT, STUD * 2] },
+  { label: '1x2 平滑磚', size: [STUD * 2, PLATE_HEIGHT, STUD], tile: true },
+  { label: '2x2 平滑磚', size: [STUD * 2, PLATE_HEIGHT, STUD * 2], tile: true }
+];
+
+// --- 網格對齊 ---
+// 水平方向讓積木邊緣落在凸起網格上，垂直方向以薄板高度為單位 (地面 y = 0)
+const snapEdge = (center: number, length: number) =>
+  Math.round((center - length / 2) / STUD) * STUD + length / 2;
+
+const snapBottom = (bottom: number) => Math.max(0, Math.round(bottom / PLATE_HEIGHT) * PLATE_HEIGHT);
+
+const clean = (v: number) => Math.round(v * 1e6) / 1e6;
+
+export const snapPosition = (pos: Vec3, size: Vec3): Vec3 => [
+  clean(snapEdge(pos[0], size[0])),
+  clean(snapBottom(pos[1] - size[1] / 2) + size[1] / 2),
+  clean(snapEdge(pos[2], size[2]))
+];
+
+// 滑鼠點到的表面 → 新積木的位置
+// 點頂面時疊在上面、點側面時貼在旁邊 (與被點的積木同底)，點地面時放在地上；
+// 頂面以被點積木的本體頂端為準，點在凸起上 (高半片薄板) 也不會四捨五入成高一層
+export const placementFor = (point: Vec3, normal: Vec3, size: Vec3, target?: BrickData): Vec3 => {
+  let bottom = 0;
+  if (normal[1] > 0.5) bottom = target ? target.pos[1] + target.size[1] / 2 : point[1];
+  else if (normal[1] < -0.5) bottom = point[1] - size[1];
+  else if (target) bottom = target.pos[1] - target.size[1] / 2;
+
+  return snapPosition([
+    point[0] + normal[0] * size[0] / 2,
+    bottom + size[1] / 2,
+    point[2] + normal[2] * size[2] / 2
+  ], size);
+};
+
+// 移動 (以凸起 / 薄板為單位)
+export const moveBrick = (brick: BrickData, dx: number, dy: number, dz: number): BrickData => ({
+  ...brick,
+  pos: snapPosition([brick.pos[0] + dx * STUD, brick.pos[1] + dy * PLATE_HEIGHT, brick.pos[2] + dz * STUD], brick.size)
+});
+
+// 水平旋轉 90 度：直接對調寬與深，保持積木軸對齊
+export const rotateBrick = (brick: BrickData): BrickData => {
+  const size: Vec3 = [brick.size[2], brick.size[1], brick.size[0]];
+  return { ...brick, size, pos: snapPosition(brick.pos, size) };
+};
+
+export const nextBrickId = (bricks: BrickData[]) => {
+  const used = bricks.map(b => /^e_(\d+)$/.exec(b.id)).filter(Boolean).map(m => Number(m![1]));
+  return `e_${used.length ? Math.max(...used) + 1 : 0}`;
+};
+
+// --- 復原 / 重做 ---
+export type EditorHistory = {
+  past: BrickData[][];
+  present: BrickData[];
+  future: BrickData[][];
+};
+
+export type HistoryAction =
+  | { type: 'apply'; bricks: BrickData[] }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'reset'; bricks: BrickData[] };
+
+const HISTORY_LIMIT = 200;
+
+export const historyReducer = (state: EditorHistory, action: HistoryAction): EditorHistory => {
+  switch (action.type) {
+    case 'apply':
+      if (action.bricks === state.present) return state;
+      return { past: [...state.past, state.present].slice(-HISTORY_LIMIT), present: action.bricks, future: [] };
+    case 'undo':
+      if (!state.past.length) return state;
+      return {
+        past: state.past.slice(0, -1),
+        present: state.past[state.past.length - 1],
+        future: [state.present, ...state.future]
+      };
+    case 'redo':
+      if (!state.future.length) return state;
+      return { past: [...state.past, state.present], present: state.future[0], future: state.future.slice(1) };
+    case 'reset':
+      return { past: [], present: action.bricks, future: [] };
+  }
+};
@@ -0,0 +1,136 @@
+import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { BrickData, MaterialFinish, STUD, Vec3, getStudGrid } from './model';
+
+// --- 積木幾何體與材質快取 ---
+// 同尺寸的積木共用一份幾何體，同質感的積木共用一份材質，讓 InstancedMesh 可以批次繪製
+
+const geometryCache = new Map<string, THREE.BufferGeometry>();
+const materialCache = new Map<string, THREE.MeshStandardMaterial>();
+
+export const sizeKey = (size: Vec3) => size.map(v => v.toFixed(4)).join('x');
+
+export const shapeKey = (brick: Pick<BrickData, 'size' | 'tile'>) =>
+  `${sizeKey(brick.size)}${brick.tile ? 't' : ''}`;
+
+export const finishKey = (finish: MaterialFinish) =>
+  `${finish.roughness}/${finish.metalness}/${finish.opacity}`;
+
+// 真實樂高比例 (以凸起間距為 1)
+const STUD_RADIUS = 0.3;
+const STUD_HEIGHT = 0.2;
+const WALL = 0.15;
+const TOP = 0.125;
+const TUBE_OUTER = 0.41;
+const TUBE_INNER = 0.3;
+const PIN_RADIUS = 0.2;
+const SEGMENTS = 12;
+
+// 空心管：以 Lathe 旋轉環形剖面得到
+const createTube = (outer: number, inner: number, height: number) => new THREE.LatheGeometry([
+  new THREE.Vector2(inner, 0),
+  new THREE.Vector2(outer, 0),
+  new THREE.Vector2(outer, height),
+  new THREE.Vector2(inner, height),
+  new THREE.Vector2(inner, 0)
+], SEGMENTS);
+
+// 凸起、底部管柱排列在真實網格上 (格距 = 尺寸 / 凸起數)
+const buildBrickParts = (brick: Pick<BrickData, 'size' | 'tile'>) => {
+  const [w, h, d] = brick.size;
+  const grid = getStudGrid(brick);
+  const parts: THREE.BufferGeometry[] = [];
+
+  // 頂部凸起
+  const [nx, nz] = grid ?? [Math.max(1, Math.round(w / STUD)), Math.max(1, Math.round(d / STUD))];
+  const px = w / nx;
+  const pz = d / nz;
+  const pitch = Math.min(px, pz, STUD);
+  if (grid) {
+    for (let i = 0; i < nx; i++) {
+      for (let k = 0; k < nz; k++) {
+        const stud = new THREE.CylinderGeometry(pitch * STUD_RADIUS, pitch * STUD_RADIUS, STUD * STUD_HEIGHT, SEGMENTS);
+        stud.translate((i + 0.5) * px - w / 2, h / 2 + STUD * STUD_HEIGHT / 2, (k + 0.5) * pz - d / 2);
+        parts.push(stud);
+      }
+    }
+  }
+
+  // 太薄或太窄的零件做成實心
+  const wall = STUD * WALL;
+  const top = STUD * TOP;
+  if (h <= top * 2 || w <= wall * 3 || d <= wall * 3) {
+    parts.push(new THREE.BoxGeometry(w, h, d));
+    return parts;
+  }
+
+  // 空心外殼：頂板 + 四面牆，從下方看得到內部
+  const roof = new THREE.BoxGeometry(w, top, d);
+  roof.translate(0, h / 2 - top / 2, 0);
+  parts.push(roof);
+  const wallH = h - top;
+  const wallY = -top / 2;
+  [-1, 1].forEach(side => {
+    const front = new THREE.BoxGeometry(w, wallH, wall);
+    front.translate(0, wallY, side * (d / 2 - wall / 2));
+    const left = new THREE.BoxGeometry(wall, wallH, d - wall * 2);
+    left.translate(side * (w / 2 - wall / 2), wallY, 0);
+    parts.push(front, left);
+  });
+
+  // 底部管柱：2 x N 以上為空心管，1 x N 為實心細柱，位於凸起之間
+  const tubeBottom = -h / 2;
+  if (nx >= 2 && nz >= 2) {
+    for (let i = 1; i < nx; i++) {
+      for (let k = 1; k < nz; k++) {
+        const tube = createTube(pitch * TUBE_OUTER, pitch * TUBE_INNER, wallH);
+        tube.translate(i * px - w / 2, tubeBottom, k * pz - d / 2);
+        parts.push(tube);
+      }
+    }
+  } else if (nx >= 2 || nz >= 2) {
+    const along = nx >= 2 ? nx : nz;
+    for (let i = 1; i < along; i++) {
+      const pin = new THREE.CylinderGeometry(pitch * PIN_RADIUS, pitch * PIN_RADIUS, wallH, SEGMENTS);
+      pin.translate(nx >= 2 ? i * px - w / 2 : 0, tubeBottom + wallH / 2, nx >= 2 ? 0 : i * pz - d / 2);
+      parts.push(pin);
+    }
+  }
+  return parts;
+};
+
+// 積木外殼、凸起與底部管柱合併成單一幾何體
+export const getBrickGeometry = (brick: Pick<BrickData, 'size' | 'tile'>) => {
+  const key = shapeKey(brick);
+  let geometry = geometryCache.get(key);
+  if (!geometry) {
+    const parts = buildBrickParts(brick);
+    geometry = mergeGeometries(parts);
+    parts.forEach(p => p.dispose());
+    geometryCache.set(key, geometry);
+  }
+  return geometry;
+};
+
+// 說明書模式的外觀：faded 為先前步驟 (淡化)，highlight 為本步驟新增的積木 (發光)
+export type BrickAppearance = 'normal' | 'faded' | 'highlight';
+
+// 顏色由 instanceColor 逐顆設定，材質本身保持白色
+export const getBrickMaterial = (finish: MaterialFinish, appearance: BrickAppearance = 'normal') => {
+  const key = `${finishKey(finish)}|${appearance}`;
+  let material = materialCache.get(key);
+  if (!material) {
+    const opacity = appearance === 'faded' ? finish.opacity * 0.2 : finish.opacity;
+    material = new THREE.MeshStandardMaterial({
+      roughness: finish.roughness,
+      metalness: finish.metalness,
+      transparent: opacity < 1,
+      opacity,
+      depthWrite: appearance !== 'faded',
+      emissive: appearance === 'highlight' ? '#FFCC00' : '#000000',
+      emissiveIntensity: appearance === 'highlight' ? 0.35 : 1
+    });
+    materialCache.set(key, material);
+  }
+  return material;
+};
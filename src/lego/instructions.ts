@@ -0,0 +1,32 @@
+import { BrickData, describeBrickSize } from './model';
+
+// --- 組裝說明書步驟 ---
+// 每個組裝階段 (stage) 對應說明書的一頁，列出這一步新增的零件
+
+export type StepPart = { label: string; color: string; count: number };
+
+export type InstructionStep = {
+  stage: number;
+  bricks: BrickData[];
+  parts: StepPart[];
+};
+
+export const summarizeParts = (bricks: BrickData[]): StepPart[] => {
+  const byKey = new Map<string, StepPart>();
+  bricks.forEach(brick => {
+    const label = describeBrickSize(brick);
+    const key = `${label}|${brick.color}`;
+    const part = byKey.get(key);
+    if (part) part.count++;
+    else byKey.set(key, { label, color: brick.color, count: 1 });
+  });
+  return Array.from(byKey.values()).sort((a, b) => b.count - a.count);
+};
+
+export const buildInstructionSteps = (bricks: BrickData[]): InstructionStep[] => {
+  const stages = Array.from(new Set(bricks.map(b => b.stage))).sort((a, b) => a - b);
+  return stages.map(stage => {
+    const stepBricks = bricks.filter(b => b.stage === stage);
+    return { stage, bricks: stepBricks, parts: summarizeParts(stepBricks) };
+  });
+};
@@ -0,0 +1,227 @@
+import * as THREE from 'three';
+import { BrickData, STUD, Vec3 } from './model';
+import { LEGO_COLORS, findByLDraw } from './palette';
+
+// --- LDraw (.ldr / .mpd) 匯入 ---
+// LDraw 是樂高 CAD 工具的通用格式：座標單位為 LDU (1 凸起 = 20 LDU)，-Y 朝上，
+// 積木原點位於頂面中心 (不含凸起)，本體往 +Y 延伸
+
+export const LDU = STUD / 20;
+export const LDU_BRICK_HEIGHT = 24;
+export const LDU_PLATE_HEIGHT = 8;
+
+// 常見的基本磚、薄板與平滑磚 (studs: LDraw X 方向 x Z 方向)
+export type LDrawPart = {
+  studs: [number, number];
+  height: number; // LDU
+  tile?: boolean;
+};
+
+const brick = (x: number, z: number): LDrawPart => ({ studs: [x, z], height: LDU_BRICK_HEIGHT });
+const plate = (x: number, z: number): LDrawPart => ({ studs: [x, z], height: LDU_PLATE_HEIGHT });
+const tile = (x: number, z: number): LDrawPart => ({ studs: [x, z], height: LDU_PLATE_HEIGHT, tile: true });
+
+export const LDRAW_PARTS: { [part: string]: LDrawPart } = {
+  // Bricks
+  '3005': brick(1, 1), '3004': brick(2, 1), '3622': brick(3, 1), '3010': brick(4, 1),
+  '3009': brick(6, 1), '3008': brick(8, 1), '3003': brick(2, 2), '3002': brick(3, 2),
+  '3001': brick(4, 2), '2456': brick(6, 2), '3007': brick(8, 2),
+  // Plates
+  '3024': plate(1, 1), '3023': plate(2, 1), '3623': plate(3, 1), '3710': plate(4, 1),
+  '3666': plate(6, 1), '3460': plate(8, 1), '3022': plate(2, 2), '3021': plate(3, 2),
+  '3020': plate(4, 2), '3795': plate(6, 2), '3034': plate(8, 2), '3031': plate(4, 4),
+  '3032': plate(6, 4), '3035': plate(8, 4), '3958': plate(6, 6), '3036': plate(8, 6),
+  '41539': plate(8, 8), '3030': plate(10, 4), '3029': plate(12, 4), '3033': plate(10, 6),
+  '3028': plate(12, 6), '3456': plate(14, 6), '3027': plate(16, 6), '92438': plate(16, 8),
+  '91405': plate(16, 16),
+  // Tiles
+  '3070b': tile(1, 1), '3069b': tile(2, 1), '63864': tile(3, 1), '2431': tile(4, 1),
+  '6636': tile(6, 1), '4162': tile(8, 1), '3068b': tile(2, 2), '26603': tile(3, 2),
+  '87079': tile(4, 2)
+};
+
+const MAIN_COLOR = 16;   // 繼承上層顏色
+const UNKNOWN_COLOR = LEGO_COLORS.LIGHT_GREY.hex;
+
+const resolveColor = (code: number, inherited: string) => {
+  if (code === MAIN_COLOR) return inherited;
+  // 直接色：0x2RRGGBB
+  if (code >= 0x2000000 && code <= 0x2FFFFFF) {
+    return `#${(code & 0xFFFFFF).toString(16).padStart(6, '0').toUpperCase()}`;
+  }
+  return findByLDraw(code)?.hex ?? UNKNOWN_COLOR;
+};
+
+// --- 解析結果 ---
+export type LDrawImport = {
+  name: string;
+  bricks: BrickData[];
+  stageCount: number;
+  unknownParts: { [part: string]: number }; // 無法對應的零件與數量
+  warnings: string[];
+};
+
+type LDrawLine =
+  | { type: 'step' }
+  | { type: 'part'; color: number; matrix: THREE.Matrix4; file: string; line: number };
+
+type LDrawFile = { name: string; lines: LDrawLine[] };
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/\\/g, '/');
+
+// 零件編號 (去除路徑與副檔名)
+const partId = (file: string) => normalizeName(file).split('/').pop()!.replace(/\.dat$/, '');
+
+// 將文字拆成多個檔案：.mpd 以「0 FILE」分段，.ldr 則整份就是主模型
+const splitFiles = (text: string, fileName: string, warnings: string[]) => {
+  const files: LDrawFile[] = [];
+  let current: LDrawFile | null = null;
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const tokens = raw.trim().split(/\s+/);
+    if (tokens[0] === '') return;
+
+    if (tokens[0] === '0') {
+      const meta = tokens[1]?.toUpperCase();
+      if (meta === 'FILE') {
+        current = { name: normalizeName(tokens.slice(2).join(' ')), lines: [] };
+        files.push(current);
+      } else if (meta === 'NOFILE') {
+        current = null;
+      } else if (meta === 'STEP' || meta === 'ROTSTEP') {
+        current?.lines.push({ type: 'step' });
+      }
+      return;
+    }
+
+    if (!current) {
+      current = { name: normalizeName(fileName), lines: [] };
+      files.push(current);
+    }
+
+    if (tokens[0] === '1') {
+      if (tokens.length < 15) {
+        warnings.push(`Line ${i + 1}: malformed part reference`);
+        return;
+      }
+      const n = tokens.slice(1, 14).map(Number);
+      if (n.some(v => !Number.isFinite(v))) {
+        warnings.push(`Line ${i + 1}: invalid number in part reference`);
+        return;
+      }
+      const [color, x, y, z, a, b, c, d, e, f, g, h, k] = n;
+      const matrix = new THREE.Matrix4().set(
+        a, b, c, x,
+        d, e, f, y,
+        g, h, k, z,
+        0, 0, 0, 1
+      );
+      current.lines.push({ type: 'part', color, matrix, file: tokens.slice(14).join(' '), line: i + 1 });
+    }
+    // 線段、三角形、四邊形 (type 2 ~ 5) 只在零件定義檔中使用，這裡略過
+  });
+
+  return files;
+};
+
+// LDraw 座標 (-Y 朝上) 轉為場景座標：繞 X 軸旋轉 180 度
+export const LDRAW_TO_WORLD = new THREE.Matrix4().makeRotationX(Math.PI);
+
+export const round = (v: number) => Math.round(v * 1e6) / 1e6;
+
+const tmpPos = new THREE.Vector3();
+const tmpQuat = new THREE.Quaternion();
+const tmpScale = new THREE.Vector3();
+const tmpEuler = new THREE.Euler();
+
+// 若旋轉只是繞 Y 軸 90 度的倍數，直接折算進尺寸，讓積木保持在網格上
+const toBrickPose = (world: THREE.Matrix4, part: LDrawPart) => {
+  world.decompose(tmpPos, tmpQuat, tmpScale);
+  let size: Vec3 = [part.studs[0] * STUD, round(part.height * LDU), part.studs[1] * STUD];
+  let rotation: Vec3 | undefined;
+
+  tmpEuler.setFromQuaternion(tmpQuat, 'YXZ');
+  const quarterTurns = Math.round(tmpEuler.y / (Math.PI / 2));
+  const isYawOnly = Math.abs(tmpEuler.x) < 1e-3 && Math.abs(tmpEuler.z) < 1e-3
+    && Math.abs(tmpEuler.y - quarterTurns * Math.PI / 2) < 1e-3;
+
+  if (isYawOnly) {
+    if (quarterTurns % 2 !== 0) size = [size[2], size[1], size[0]];
+  } else {
+    tmpEuler.setFromQuaternion(tmpQuat);
+    rotation = [tmpEuler.x, tmpEuler.y, tmpEuler.z];
+  }
+  return { pos: [tmpPos.x, tmpPos.y, tmpPos.z] as Vec3, size, rotation };
+};
+
+export const parseLDraw = (text: string, fileName = 'model.ldr'): LDrawImport => {
+  const warnings: string[] = [];
+  const files = splitFiles(text, fileName, warnings);
+  const byName = new Map(files.map(f => [f.name, f]));
+  const bricks: BrickData[] = [];
+  const unknownParts: { [part: string]: number } = {};
+  let stage = 0;
+  let stageHasParts = false;
+
+  // 遞迴展開子模型：子模型內的零件歸在它被放置的那一步
+  const expand = (file: LDrawFile, transform: THREE.Matrix4, color: string, depth: number, isMain: boolean) => {
+    file.lines.forEach(line => {
+      if (line.type === 'step') {
+        if (isMain && stageHasParts) {
+          stage++;
+          stageHasParts = false;
+        }
+        return;
+      }
+
+      const childTransform = transform.clone().multiply(line.matrix);
+      const childColor = resolveColor(line.color, color);
+      const sub = byName.get(normalizeName(line.file));
+
+      if (sub) {
+        if (depth > 32) {
+          warnings.push(`Submodel "${line.file}" nested too deeply, skipped`);
+          return;
+        }
+        expand(sub, childTransform, childColor, depth + 1, false);
+        return;
+      }
+
+      const id = partId(line.file);
+      const part = LDRAW_PARTS[id];
+      if (!part) {
+        unknownParts[id] = (unknownParts[id] ?? 0) + 1;
+        return;
+      }
+
+      // 積木中心 = 原點沿本地 +Y 往下半個高度；前後各乘一次座標轉換，讓凸起朝向場景 +Y
+      const center = new THREE.Matrix4().makeTranslation(0, part.height / 2, 0);
+      const world = LDRAW_TO_WORLD.clone().multiply(childTransform).multiply(center).multiply(LDRAW_TO_WORLD);
+      const pose = toBrickPose(world, part);
+
+      bricks.push({
+        id: `ldr_${bricks.length}`,
+        pos: [round(pose.pos[0] * LDU), round(pose.pos[1] * LDU), round(pose.pos[2] * LDU)],
+        size: pose.size,
+        color: childColor,
+        stage,
+        rotation: pose.rotation,
+        tile: part.tile
+      });
+      stageHasParts = true;
+    });
+  };
+
+  const main = files[0];
+  if (main) {
+    expand(main, new THREE.Matrix4(), resolveColor(MAIN_COLOR, UNKNOWN_COLOR), 0, true);
+  }
+
+  return {
+    name: main?.name ?? normalizeName(fileName),
+    bricks,
+    stageCount: bricks.length ? stage + (stageHasParts ? 1 : 0) : 0,
+    unknownParts,
+    warnings
+  };
+};
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { BRICK_HEIGHT, BrickData, PLATE_HEIGHT, STUD } from './model';
+import { parseLDraw } from './ldraw';
+import { exportLDraw } from './ldrawExport';
+import { LEGO_COLORS } from './palette';
+import { getModel } from './registry';
+
+const volume = (bricks: BrickData[]) => bricks.reduce((sum, b) => sum + b.size[0] * b.size[1] * b.size[2], 0);
+
+const boundsOf = (bricks: BrickData[]) => {
+  const box = new THREE.Box3();
+  const half = new THREE.Vector3();
+  const center = new THREE.Vector3();
+  bricks.forEach(b => {
+    half.set(...b.size).multiplyScalar(0.5);
+    center.set(...b.pos);
+    box.expandByPoint(center.clone().sub(half)).expandByPoint(center.clone().add(half));
+  });
+  return box;
+};
+
+const expectBoundsClose = (actual: THREE.Box3, expected: THREE.Box3, tolerance: number) => {
+  [...actual.min.toArray(), ...actual.max.toArray()].forEach((v, i) =>
+    expect(Math.abs(v - [...expected.min.toArray(), ...expected.max.toArray()][i])).toBeLessThanOrEqual(tolerance));
+};
+
+const roundTrip = (bricks: BrickData[]) => {
+  const result = exportLDraw(bricks, 'test');
+  return { result, imported: parseLDraw(result.text, 'test.mpd') };
+};
+
+// 全部是整數凸起 / 薄板的積木，匯出再匯入後體積與外形應完全相同
+const RED = LEGO_COLORS.RED.hex;
+const BLUE = LEGO_COLORS.BLUE.hex;
+const WHITE = LEGO_COLORS.WHITE.hex;
+const exactBricks: BrickData[] = [
+  { id: 'a', pos: [0, BRICK_HEIGHT / 2, 0], size: [4 * STUD, BRICK_HEIGHT, 2 * STUD], color: RED, stage: 0 },
+  { id: 'b', pos: [2 * STUD, (BRICK_HEIGHT + 2 * PLATE_HEIGHT) / 2, 3 * STUD], size: [3 * STUD, BRICK_HEIGHT + 2 * PLATE_HEIGHT, 3 * STUD], color: BLUE, stage: 0 },
+  { id: 'c', pos: [-5 * STUD, 5 * BRICK_HEIGHT, 0], size: [10 * STUD, 10 * BRICK_HEIGHT, 10 * STUD], color: WHITE, stage: 1 },
+  { id: 'd', pos: [0, BRICK_HEIGHT + PLATE_HEIGHT / 2, 0], size: [2 * STUD, PLATE_HEIGHT, 2 * STUD], color: RED, stage: 2, tile: true }
+];
+
+describe('LDraw export', () => {
+  it('stacks bricks and plates and tiles footprints from catalogue parts', () => {
+    const { result, imported } = roundTrip(exactBricks);
+    expect(result.exported).toBe(exactBricks.length);
+    expect(result.skipped).toEqual([]);
+    expect(result.approximated).toEqual([]);
+
+    expect(imported.unknownParts).toEqual({});
+    expect(imported.warnings).toEqual([]);
+    expect(imported.bricks).toHaveLength(result.parts);
+    expect(imported.stageCount).toBe(3);
+    [0, 1, 2].forEach(stage => {
+      const before = exactBricks.filter(b => b.stage === stage);
+      const after = imported.bricks.filter(b => b.stage === stage);
+      expect(volume(after)).toBeCloseTo(volume(before), 6);
+      expectBoundsClose(boundsOf(after), boundsOf(before), 1e-6);
+      expect(new Set(after.map(b => b.color))).toEqual(new Set(before.map(b => b.color)));
+    });
+    // 3x3、高 40 LDU = 一層基本磚 + 兩層薄板
+    const b = imported.bricks.filter(brick => brick.color === BLUE);
+    expect(new Set(b.map(brick => Math.round(brick.size[1] / PLATE_HEIGHT)))).toEqual(new Set([3, 1]));
+    expect(imported.bricks.filter(brick => brick.tile)).toHaveLength(1);
+  });
+
+  it('keeps rotated bricks in place', () => {
+    const rotated: BrickData = { id: 'r', pos: [1, BRICK_HEIGHT / 2, -1], size: [4 * STUD, BRICK_HEIGHT, 2 * STUD], color: RED, stage: 0, rotation: [0, 0.3, 0] };
+    const { imported } = roundTrip([rotated]);
+    expect(imported.bricks).toHaveLength(1);
+    const [brick] = imported.bricks;
+    brick.pos.forEach((v, i) => expect(v).toBeCloseTo(rotated.pos[i], 2));
+    expect(brick.rotation?.[1]).toBeCloseTo(0.3, 3);
+  });
+
+  it('approximates models that are not on the stud grid instead of dropping them', () => {
+    const bricks = getModel('t101').generate();
+    const { result, imported } = roundTrip(bricks);
+    expect(result.exported).toBe(bricks.length);
+    expect(result.skipped).toEqual([]);
+    expectBoundsClose(boundsOf(imported.bricks), boundsOf(bricks), STUD);
+  });
+
+  it('skips only bricks that are too small for any part', () => {
+    const sliver: BrickData = { id: 's', pos: [0, 0, 0], size: [STUD, PLATE_HEIGHT, STUD / 4], color: RED, stage: 0 };
+    const { result } = roundTrip([sliver, exactBricks[0]]);
+    expect(result.exported).toBe(1);
+    expect(result.skipped.map(s => s.id)).toEqual(['s']);
+    expect(result.text).toContain('0 // skipped s:');
+  });
+});
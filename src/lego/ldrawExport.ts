@@ -0,0 +1,206 @@
+import * as THREE from 'three';
+import { BrickData, STUD, getFinish } from './model';
+import { LDRAW_PARTS, LDRAW_TO_WORLD, LDU, LDU_BRICK_HEIGHT, LDU_PLATE_HEIGHT, LDrawPart, round } from './ldraw';
+import { nearestLegoColor } from './palette';
+
+// --- LDraw (.mpd) 匯出 ---
+// 把 BrickData[] 轉成標準樂高 CAD 工具 (LDCad、Studio、LeoCAD ...) 可開啟的檔案，
+// 每個組裝階段輸出為一個「0 STEP」區塊。
+// 零件目錄只有固定尺寸，所以每個積木依高度拆成一層層的基本磚與薄板 (40 LDU = 1 磚 + 2 板)，
+// 每層再用目錄中的零件鋪滿底面；不是整數凸起 / 薄板的尺寸取最接近的值並記為近似
+
+// 尺寸比對容許誤差 (以凸起 / 薄板為單位)
+const TOLERANCE = 0.1;
+
+export type SkippedBrick = { id: string; size: BrickData['size']; reason: string };
+
+export type LDrawExport = {
+  text: string;
+  exported: number;        // 輸出的積木數
+  parts: number;           // 輸出的零件數 (一個積木可能拆成多個零件)
+  approximated: string[];  // 尺寸不是整數凸起 / 薄板，以最接近的尺寸輸出的積木 id
+  skipped: SkippedBrick[]; // 窄於半個凸起或薄於半片薄板、無法以零件表示的積木
+};
+
+// --- 顏色對應 ---
+// 以官方色票中最接近的顏色輸出，透明積木只比對透明色
+export const nearestLDrawColor = (hex: string, transparent = false) => nearestLegoColor(hex, transparent).ldraw;
+
+// --- 零件拆解 ---
+type Layer = 'brick' | 'plate' | 'tile';
+type CatalogueEntry = { id: string; part: LDrawPart };
+
+const layerOf = (part: LDrawPart): Layer =>
+  part.tile ? 'tile' : part.height === LDU_BRICK_HEIGHT ? 'brick' : 'plate';
+
+// 各層可用的零件，面積大的優先
+const CATALOGUE: Record<Layer, CatalogueEntry[]> = { brick: [], plate: [], tile: [] };
+Object.entries(LDRAW_PARTS).forEach(([id, part]) => CATALOGUE[layerOf(part)].push({ id, part }));
+Object.values(CATALOGUE).forEach(entries => entries.sort((a, b) =>
+  b.part.studs[0] * b.part.studs[1] - a.part.studs[0] * a.part.studs[1]));
+
+// 底面上的一個零件：x、z 為左前角 (凸起)，w、d 為擺放後的寬與深
+type Placement = CatalogueEntry & { x: number; z: number; w: number; d: number; swapped: boolean };
+
+// 由左前角逐格往後鋪，每個空格放得下的最大零件 (1x1 一定放得下，所以必定鋪滿)
+const tileFootprint = (nx: number, nz: number, layer: Layer): Placement[] => {
+  const filled = new Array(nx * nz).fill(false);
+  const fits = (x: number, z: number, w: number, d: number) => {
+    if (x + w > nx || z + d > nz) return false;
+    for (let j = z; j < z + d; j++) {
+      for (let i = x; i < x + w; i++) if (filled[j * nx + i]) return false;
+    }
+    return true;
+  };
+  const placements: Placement[] = [];
+  for (let z = 0; z < nz; z++) {
+    for (let x = 0; x < nx; x++) {
+      if (filled[z * nx + x]) continue;
+      for (const entry of CATALOGUE[layer]) {
+        const [sx, sz] = entry.part.studs;
+        const swapped = !fits(x, z, sx, sz);
+        if (swapped && !fits(x, z, sz, sx)) continue;
+        const [w, d] = swapped ? [sz, sx] : [sx, sz];
+        for (let j = z; j < z + d; j++) {
+          for (let i = x; i < x + w; i++) filled[j * nx + i] = true;
+        }
+        placements.push({ ...entry, x, z, w, d, swapped });
+        break;
+      }
+    }
+  }
+  return placements;
+};
+
+const layouts = new Map<string, Placement[]>();
+const layoutOf = (nx: number, nz: number, layer: Layer) => {
+  const key = `${nx}x${nz}:${layer}`;
+  let layout = layouts.get(key);
+  if (!layout) {
+    layout = tileFootprint(nx, nz, layer);
+    layouts.set(key, layout);
+  }
+  return layout;
+};
+
+// 長度換成整數單位；exact 表示在容許誤差內
+const toUnits = (length: number, unit: number) => {
+  const units = length / unit;
+  const count = Math.round(units);
+  return { count, exact: Math.abs(units - count) <= TOLERANCE };
+};
+
+type BrickPlan = { layers: Layer[]; nx: number; nz: number; approximate: boolean };
+
+// 積木 → 由下往上的各層；無法表示時回傳原因
+const planBrick = (brick: BrickData): BrickPlan | string => {
+  const x = toUnits(brick.size[0], STUD);
+  const z = toUnits(brick.size[2], STUD);
+  const plates = toUnits(brick.size[1] / LDU, LDU_PLATE_HEIGHT);
+  if (x.count < 1 || z.count < 1) {
+    return `footprint ${round(brick.size[0] / STUD)} x ${round(brick.size[2] / STUD)} studs is narrower than half a stud`;
+  }
+  if (plates.count < 1) return `height ${round(brick.size[1] / LDU)} LDU is thinner than half a plate`;
+
+  const plateStack = LDU_BRICK_HEIGHT / LDU_PLATE_HEIGHT;
+  let bricks = Math.floor(plates.count / plateStack);
+  let extra = plates.count % plateStack;
+  // 平滑磚的頂層必須是薄板高度
+  if (brick.tile && extra === 0) {
+    bricks--;
+    extra = plateStack;
+  }
+  const layers: Layer[] = [...Array(bricks).fill('brick'), ...Array(extra).fill('plate')];
+  if (brick.tile) layers[layers.length - 1] = 'tile';
+  return { layers, nx: x.count, nz: z.count, approximate: !x.exact || !z.exact || !plates.exact };
+};
+
+const formatNumber = (v: number) => {
+  const r = round(v);
+  return Object.is(r, -0) ? '0' : String(r);
+};
+
+const QUARTER_TURN = new THREE.Matrix4().makeRotationY(Math.PI / 2);
+const tmpOffset = new THREE.Matrix4();
+
+// 一個零件 → LDraw type 1 行；center 為零件中心在場景中的姿態
+const toPartLine = (center: THREE.Matrix4, entry: CatalogueEntry, swapped: boolean, color: number) => {
+  const world = center.clone();
+  // LDraw 零件的長邊在 X 軸，尺寸反過來時轉 90 度
+  if (swapped) world.multiply(QUARTER_TURN);
+
+  // 中心點移到頂面 (零件原點)，再轉回 LDraw 座標
+  const top = tmpOffset.makeTranslation(0, entry.part.height * LDU / 2, 0);
+  const ldraw = LDRAW_TO_WORLD.clone().multiply(world).multiply(top).multiply(LDRAW_TO_WORLD);
+  const e = ldraw.elements; // column-major
+  const x = Math.round(e[12] / LDU);
+  const y = Math.round(e[13] / LDU);
+  const z = Math.round(e[14] / LDU);
+  const m = [e[0], e[4], e[8], e[1], e[5], e[9], e[2], e[6], e[10]].map(formatNumber);
+
+  return ['1', color, x, y, z, ...m, `${entry.id}.dat`].join(' ');
+};
+
+// 單個積木 → 各層各零件的 type 1 行 (堆疊底部對齊積木底面、底面置中)
+const toPartLines = (brick: BrickData, plan: BrickPlan, color: number) => {
+  const world = new THREE.Matrix4().compose(
+    new THREE.Vector3(...brick.pos),
+    new THREE.Quaternion().setFromEuler(new THREE.Euler(...(brick.rotation ?? [0, 0, 0]))),
+    new THREE.Vector3(1, 1, 1)
+  );
+  const lines: string[] = [];
+  let bottom = -brick.size[1] / 2;
+  plan.layers.forEach(layer => {
+    layoutOf(plan.nx, plan.nz, layer).forEach(placement => {
+      const height = placement.part.height * LDU;
+      const center = world.clone().multiply(tmpOffset.makeTranslation(
+        (placement.x + placement.w / 2 - plan.nx / 2) * STUD,
+        bottom + height / 2,
+        (placement.z + placement.d / 2 - plan.nz / 2) * STUD
+      ));
+      lines.push(toPartLine(center, placement, placement.swapped, color));
+    });
+    bottom += (layer === 'brick' ? LDU_BRICK_HEIGHT : LDU_PLATE_HEIGHT) * LDU;
+  });
+  return lines;
+};
+
+export const exportLDraw = (bricks: BrickData[], name: string): LDrawExport => {
+  const fileName = `${name.replace(/[^\w-]+/g, '_')}.ldr`;
+  const lines = [
+    `0 FILE ${fileName}`,
+    `0 ${name}`,
+    `0 Name: ${fileName}`,
+    '0 Author: lego_build',
+    '0 !LDRAW_ORG Unofficial_Model'
+  ];
+  const approximated: string[] = [];
+  const skipped: SkippedBrick[] = [];
+  let exported = 0;
+  let parts = 0;
+
+  const stages = Array.from(new Set(bricks.map(b => b.stage))).sort((a, b) => a - b);
+  stages.forEach(stage => {
+    let stepHasParts = false;
+    bricks.filter(b => b.stage === stage).forEach(brick => {
+      const plan = planBrick(brick);
+      if (typeof plan === 'string') {
+        skipped.push({ id: brick.id, size: brick.size, reason: plan });
+        return;
+      }
+      if (plan.approximate) approximated.push(brick.id);
+      const color = nearestLDrawColor(brick.color, getFinish(brick.color).opacity < 1);
+      const partLines = toPartLines(brick, plan, color);
+      lines.push(...partLines);
+      parts += partLines.length;
+      exported++;
+      stepHasParts = true;
+    });
+    if (stepHasParts) lines.push('0 STEP');
+  });
+
+  // 無法輸出的積木以註解列在檔尾，開啟檔案時也看得到
+  skipped.forEach(s => lines.push(`0 // skipped ${s.id}: ${s.reason}`));
+  lines.push('0 NOFILE', '');
+  return { text: lines.join('\r\n'), exported, parts, approximated, skipped };
+};
@@ -0,0 +1,178 @@
+import * as THREE from 'three';
+import { LEGO_COLORS, findByHex } from './palette';
+import { Random } from './random';
+
+// --- 積木模型共用定義 ---
+// 所有積木模型 (無人機、台北101 ...) 共用的資料型別、材質與飛入/飛出設定
+
+export type Vec3 = [number, number, number];
+
+export type BrickData = {
+  id: string;
+  pos: Vec3;      // 實際世界座標 (積木中心)
+  size: Vec3;     // 積木尺寸 (寬, 高, 深)
+  color: string;
+  stage: number;  // 組裝階段，數字越小越早飛入
+  rotation?: Vec3;
+  tile?: boolean; // 平滑磚：頂部沒有凸起
+};
+
+// --- 樂高單位 ---
+// 1 顆凸起的間距 (stud pitch) 對應的世界座標長度，其餘尺寸依真實比例換算
+export const STUD = 0.25;
+export const PLATE_HEIGHT = STUD * 0.4;
+export const BRICK_HEIGHT = STUD * 1.2;
+
+// 樂高材質設定 (各模型共用，皆取自官方色票)
+export const MATERIALS = {
+  // 無人機
+  BODY_WHITE: LEGO_COLORS.WHITE.hex,             // 機身亮白
+  BODY_GREY: LEGO_COLORS.LIGHT_BLUISH_GREY.hex,  // 機身結構灰
+  DARK_MECH: LEGO_COLORS.DARK_BLUISH_GREY.hex,   // 深色機械件
+  BLACK_PROP: LEGO_COLORS.BLACK.hex,             // 螺旋槳黑
+  ORANGE_ACCENT: LEGO_COLORS.ORANGE.hex,         // 翼尖橙色
+  LENS_GLASS: LEGO_COLORS.PEARL_DARK_GREY.hex,   // 鏡頭本體
+  LENS_FRONT: LEGO_COLORS.TRANS_DARK_BLUE.hex,   // 鏡頭玻璃
+  SENSOR_BLACK: LEGO_COLORS.BLACK.hex,           // 感測器
+  LED_GREEN: LEGO_COLORS.TRANS_BRIGHT_GREEN.hex, // 狀態燈
+  LED_RED: LEGO_COLORS.TRANS_RED.hex,            // 尾燈
+  // 台北 101
+  GLASS_GREEN: LEGO_COLORS.TRANS_GREEN.hex,      // 101 經典綠玻璃
+  GLASS_LIGHT: LEGO_COLORS.SAND_GREEN.hex,       // 亮一點的綠
+  CONCRETE: LEGO_COLORS.LIGHT_GREY.hex,          // 混凝土灰
+  GOLD: LEGO_COLORS.PEARL_GOLD.hex,              // 裝飾金
+  STEEL: LEGO_COLORS.FLAT_SILVER.hex,            // 鋼構
+  NIGHT_LIGHT: LEGO_COLORS.BRIGHT_LIGHT_YELLOW.hex // 夜間燈光
+};
+
+// 材質表面質感 (依顏色決定：透明色與金屬色取自色票，個別顏色可再覆寫)
+export type MaterialFinish = {
+  roughness: number;
+  metalness: number;
+  opacity: number;
+};
+
+const DEFAULT_FINISH: MaterialFinish = { roughness: 0.2, metalness: 0.1, opacity: 1 };
+const TRANSPARENT_FINISH: Partial<MaterialFinish> = { roughness: 0.1, metalness: 0.1, opacity: 0.6 };
+const METALLIC_FINISH: Partial<MaterialFinish> = { roughness: 0.25, metalness: 0.8 };
+
+const FINISHES: { [color: string]: Partial<MaterialFinish> } = {
+  [MATERIALS.GLASS_GREEN]: { roughness: 0.1, metalness: 0.3, opacity: 0.9 },
+  [MATERIALS.GLASS_LIGHT]: { roughness: 0.1, metalness: 0.3 },
+  [MATERIALS.CONCRETE]: { roughness: 0.1, metalness: 0.3 },
+  [MATERIALS.GOLD]: { roughness: 0.1, metalness: 0.8 },
+  [MATERIALS.STEEL]: { roughness: 0.1, metalness: 0.3 },
+};
+
+const paletteFinish = (color: string) => {
+  const entry = findByHex(color);
+  if (entry?.transparent) return TRANSPARENT_FINISH;
+  if (entry?.metallic) return METALLIC_FINISH;
+  return undefined;
+};
+
+export const getFinish = (color: string): MaterialFinish => ({ ...DEFAULT_FINISH, ...paletteFinish(color), ...FINISHES[color] });
+
+// --- 飛入 / 飛出行為 ---
+export type FlyConfig = {
+  scatterRadius: [number, number]; // 散落半徑範圍 (min, max)
+  scatterHeight: [number, number]; // 散落高度範圍 (min, max)
+  stageJitter: number;             // 同階段積木的隨機延遲 (以階段為單位)
+  flightStages: number;            // 從散落位置飛到組裝位置所需的時間 (以階段為單位)
+};
+
+// 隨機生成初始散落位置 (在天空上方)；random 由 brickRandom(種子, 積木 id) 提供，確保可重現
+export const randomScatter = (fly: FlyConfig, random: Random) => {
+  const angle = random() * Math.PI * 2;
+  const radius = fly.scatterRadius[0] + random() * (fly.scatterRadius[1] - fly.scatterRadius[0]);
+  return new THREE.Vector3(
+    Math.cos(angle) * radius,
+    fly.scatterHeight[0] + random() * (fly.scatterHeight[1] - fly.scatterHeight[0]),
+    Math.sin(angle) * radius
+  );
+};
+
+// 積木開始飛入的階段門檻：階段本身加上一點隨機延遲，讓同一層不會完全同時到達
+export const randomThreshold = (stage: number, fly: FlyConfig, random: Random) =>
+  stage + random() * fly.stageJitter;
+
+// 時間軸走到 time 時積木的飛行進度 (0 = 散落位置、1 = 組裝位置)，先快後慢地落定；
+// 完全由時間決定，時間軸倒轉或拖曳時積木就沿原路來回
+export const flightProgress = (time: number, threshold: number, fly: FlyConfig) => {
+  const t = THREE.MathUtils.clamp((time - threshold) / fly.flightStages, 0, 1);
+  return 1 - (1 - t) ** 3;
+};
+
+// 積木的位置與姿態 (例如物理模擬後積木停下的地方，可取代隨機的散落位置)
+export type BrickPose = {
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+};
+
+// 拆解進度 (0 = 仍在組裝位置、1 = 回到散落位置)：與組裝共用同一段時間只是反向走，
+// 所以最後裝上的積木 (螺旋槳、塔頂) 最先拆下、最早的底盤最後拆
+export const teardownProgress = (time: number, threshold: number, fly: FlyConfig) =>
+  THREE.MathUtils.clamp(1 - (time - threshold) / fly.flightStages, 0, 1);
+
+// 依底面尺寸換算凸起數量 (寬 x 深)，平滑磚或寬度不足一顆凸起的零件回傳 null
+export const getStudGrid = (brick: Pick<BrickData, 'size' | 'tile'>): [number, number] | null => {
+  if (brick.tile) return null;
+  const nx = Math.round(brick.size[0] / STUD);
+  const nz = Math.round(brick.size[2] / STUD);
+  if (nx < 1 || nz < 1) return null;
+  return [nx, nz];
+};
+
+// 積木尺寸描述 (凸起 x 凸起 + 種類)，非整數的尺寸保留一位小數
+const formatUnits = (v: number) => (Math.abs(v - Math.round(v)) < 0.05 ? String(Math.round(v)) : v.toFixed(1));
+
+export const describeBrickSize = (brick: Pick<BrickData, 'size' | 'tile'>) => {
+  const footprint = `${formatUnits(brick.size[0] / STUD)}x${formatUnits(brick.size[2] / STUD)}`;
+  const plates = brick.size[1] / PLATE_HEIGHT;
+  if (brick.tile) return `${footprint} 平滑磚`;
+  if (Math.abs(plates - 1) < 0.05) return `${footprint} 薄板`;
+  if (Math.abs(plates - 3) < 0.05) return `${footprint} 積木`;
+  return `${footprint} (高 ${formatUnits(plates)} 板)`;
+};
+
+export const getMaxStage = (bricks: BrickData[]) =>
+  bricks.reduce((max, b) => Math.max(max, b.stage), 0);
+
+// 整個組裝過程的長度 (以階段為單位)：最後一批積木的最晚起飛時間再加上飛行時間
+export const getAssemblyDuration = (bricks: BrickData[], fly: FlyConfig) =>
+  getMaxStage(bricks) + fly.stageJitter + fly.flightStages;
+
+// 模型外框 (含積木尺寸)
+export const getBounds = (bricks: BrickData[]) => {
+  const min: Vec3 = [Infinity, Infinity, Infinity];
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+  bricks.forEach(b => {
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], b.pos[axis] - b.size[axis] / 2);
+      max[axis] = Math.max(max[axis], b.pos[axis] + b.size[axis] / 2);
+    }
+  });
+  if (!bricks.length) return { min: [0, 0, 0] as Vec3, max: [0, 0, 0] as Vec3 };
+  return { min, max };
+};
+
+// 匯入的模型沒有手調參數，依模型大小推算散落範圍
+export const createFlyConfig = (bricks: BrickData[]): FlyConfig => {
+  const { min, max } = getBounds(bricks);
+  const radius = Math.max(max[0] - min[0], max[2] - min[2], 1);
+  const height = max[1] - min[1];
+  return {
+    scatterRadius: [radius * 1.5, radius * 3],
+    scatterHeight: [height + radius, height + radius * 2],
+    stageJitter: 0.5,
+    flightStages: 1
+  };
+};
+
+// --- 模型定義 ---
+export type BrickModelDefinition = {
+  id: string;
+  label: string;
+  generate: () => BrickData[];
+  fly: FlyConfig;
+};
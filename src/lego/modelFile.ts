@@ -0,0 +1,79 @@
+import { BrickData, Vec3 } from './model';
+
+// --- 積木模型檔 (JSON) ---
+// 編輯器存檔與模型庫播放共用的格式；格式變動時提高版本並在 MIGRATIONS 補上轉換
+
+export const MODEL_FILE_FORMAT = 'lego_build/brick-model';
+export const MODEL_FILE_VERSION = 1;
+
+export type ModelFile = {
+  format: typeof MODEL_FILE_FORMAT;
+  version: number;
+  name: string;
+  bricks: BrickData[];
+};
+
+// JSON.parse 出來、尚未檢查的物件
+type RawFile = Record<string, unknown>;
+
+// 舊版本 → 下一版本的轉換，key 為舊版本號
+const MIGRATIONS: Record<number, (data: RawFile) => RawFile> = {};
+
+const isObject = (v: unknown): v is RawFile => typeof v === 'object' && v !== null;
+const isVec3 = (v: unknown): v is Vec3 =>
+  Array.isArray(v) && v.length === 3 && v.every(n => typeof n === 'number' && Number.isFinite(n));
+const isStage = (v: unknown): v is number => typeof v === 'number' && Number.isInteger(v) && v >= 0;
+
+const readBrick = (raw: unknown, index: number): BrickData => {
+  const where = `brick #${index}`;
+  if (!isObject(raw)) throw new Error(`${where} is not an object`);
+  const { id, pos, size, color, stage, rotation, tile } = raw;
+  if (typeof id !== 'string' || !id) throw new Error(`${where} has no id`);
+  if (!isVec3(pos)) throw new Error(`${where} (${id}) has an invalid pos`);
+  if (!isVec3(size) || size.some(v => v <= 0)) throw new Error(`${where} (${id}) has an invalid size`);
+  if (typeof color !== 'string') throw new Error(`${where} (${id}) has no color`);
+  if (!isStage(stage)) throw new Error(`${where} (${id}) has an invalid stage`);
+  if (rotation !== undefined && !isVec3(rotation)) throw new Error(`${where} (${id}) has an invalid rotation`);
+
+  const brick: BrickData = { id, pos, size, color, stage };
+  if (rotation) brick.rotation = rotation;
+  if (tile) brick.tile = true;
+  return brick;
+};
+
+export const serializeModel = (name: string, bricks: BrickData[]) => {
+  const file: ModelFile = { format: MODEL_FILE_FORMAT, version: MODEL_FILE_VERSION, name, bricks };
+  return JSON.stringify(file, null, 2);
+};
+
+export const parseModelFile = (text: string): ModelFile => {
+  const parsed: unknown = JSON.parse(text);
+  if (!isObject(parsed) || parsed.format !== MODEL_FILE_FORMAT) throw new Error('Not a brick model file');
+  let data = parsed;
+  let version = data.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error(`Invalid model file version "${String(version)}"`);
+  }
+  if (version > MODEL_FILE_VERSION) {
+    throw new Error(`Model file version ${version} is newer than supported version ${MODEL_FILE_VERSION}`);
+  }
+  while (version < MODEL_FILE_VERSION) {
+    data = { ...MIGRATIONS[version](data), version: version + 1 };
+    version++;
+  }
+  if (!Array.isArray(data.bricks)) throw new Error('Model file has no bricks');
+
+  const bricks = data.bricks.map(readBrick);
+  const ids = new Set<string>();
+  bricks.forEach(b => {
+    if (ids.has(b.id)) throw new Error(`Duplicate brick id "${b.id}"`);
+    ids.add(b.id);
+  });
+
+  return {
+    format: MODEL_FILE_FORMAT,
+    version: MODEL_FILE_VERSION,
+    name: typeof data.name === 'string' && data.name ? data.name : 'Untitled',
+    bricks
+  };
+};
@@ -0,0 +1,136 @@
+import { BrickData, BrickModelDefinition, MATERIALS } from '../model';
+
+// --- 生成高解析度無人機模型 ---
+export const generateComplexDrone = () => {
+  const bricks: BrickData[] = [];
+  let idCounter = 0;
+  
+  // 輔助函數：添加積木
+  // pos: 中心座標, size: 尺寸 (W, H, D)
+  // tile: 平滑磚 (頂部無凸起)
+  const add = (x: number, y: number, z: number, w: number, h: number, d: number, color: string, stage: number, rot?: [number, number, number], tile?: boolean) => {
+    bricks.push({
+      id: `b_${idCounter++}`,
+      pos: [x, y, z],
+      size: [w, h, d],
+      color,
+      stage,
+      rotation: rot,
+      tile
+    });
+  };
+
+  // 單位轉換: 1 unit = 1 standard block size roughly
+  // 使用較小的單位來構建細節 (scale 0.2)
+  const S = 0.25; // 基礎網格大小
+
+  // --- 階段 0: 機身底盤 (Chassis) ---
+  // 底部主板 (長條型)
+  for (let z = -4; z <= 4; z++) {
+    for (let x = -1; x <= 1; x++) {
+      add(x*S*2, 0, z*S*2, S*2, S, S*2, MATERIALS.BODY_GREY, 0);
+    }
+  }
+  // 下腹部感測器區
+  add(0, -S, 0, S*4, S/2, S*4, MATERIALS.DARK_MECH, 0);
+  add(0, -S*1.5, 0, S*2, S/2, S*2, MATERIALS.SENSOR_BLACK, 0);
+
+  // --- 階段 1: 核心結構與電池艙 (Core & Battery) ---
+  // 機身加高
+  for (let z = -3; z <= 3; z++) {
+     add(0.5*S*2, S, z*S*2, S*2, S, S*2, MATERIALS.BODY_WHITE, 1);
+     add(-0.5*S*2, S, z*S*2, S*2, S, S*2, MATERIALS.BODY_WHITE, 1);
+  }
+  // 電池艙隆起 (後方)
+  for (let z = 1; z <= 3; z++) {
+    add(0, S*2, z*S*2, S*3.8, S, S*2, MATERIALS.BODY_GREY, 1);
+  }
+  // 尾部散熱孔細節
+  add(0, S*2, 4*S*2, S*3, S, S/2, MATERIALS.DARK_MECH, 1);
+
+  // --- 階段 2: 外殼修飾 (Shell) ---
+  // 機頭圓潤化 (前緣)
+  add(0, S, -4*S*2 - S, S*3, S, S*2, MATERIALS.BODY_WHITE, 2);
+  // 機背流線型
+  add(0, S*2.5, 0, S*3.5, S/2, S*6, MATERIALS.BODY_WHITE, 2, undefined, true);
+  // 側邊裝飾線條
+  add(1.2*S*2, S*0.5, 0, S/2, S, S*8, MATERIALS.DARK_MECH, 2);
+  add(-1.2*S*2, S*0.5, 0, S/2, S, S*8, MATERIALS.DARK_MECH, 2);
+
+  // --- 階段 3: 機臂 (Arms) ---
+  // 前機臂 (向外展開)
+  const armLen = 6;
+  const armThick = S;
+  // 左前
+  for(let i=1; i<=armLen; i++) {
+    add((-2*S) - (i*S), S, (-3*S) - (i*S*0.5), S*2, armThick, S*2, MATERIALS.BODY_GREY, 3);
+  }
+  // 右前
+  for(let i=1; i<=armLen; i++) {
+    add((2*S) + (i*S), S, (-3*S) - (i*S*0.5), S*2, armThick, S*2, MATERIALS.BODY_GREY, 3);
+  }
+  // 左後 (較低)
+  for(let i=1; i<=armLen; i++) {
+    add((-2*S) - (i*S), 0, (3*S) + (i*S*0.5), S*2, armThick, S*2, MATERIALS.BODY_GREY, 3);
+  }
+  // 右後 (較低)
+  for(let i=1; i<=armLen; i++) {
+    add((2*S) + (i*S), 0, (3*S) + (i*S*0.5), S*2, armThick, S*2, MATERIALS.BODY_GREY, 3);
+  }
+  // 機臂腳墊
+  add((-2*S) - (armLen*S), -S, (-3*S) - (armLen*S*0.5), S, S, S, MATERIALS.DARK_MECH, 3);
+  add((2*S) + (armLen*S), -S, (-3*S) - (armLen*S*0.5), S, S, S, MATERIALS.DARK_MECH, 3);
+
+  // --- 階段 4: 鏡頭雲台 (Gimbal) ---
+  // 懸掛支架
+  add(0, -S, -4.5*S*2, S*2, S, S*2, MATERIALS.DARK_MECH, 4);
+  // 鏡頭主體 (黑色方塊)
+  add(0, -S*2, -4.5*S*2, S*2.5, S*2, S*2.5, MATERIALS.LENS_GLASS, 4);
+  // 鏡頭圈 (灰色環)
+  add(0, -S*2, -4.5*S*2 - S*1.5, S*1.5, S*1.5, S/2, MATERIALS.BODY_GREY, 4);
+  // 鏡頭玻璃
+  add(0, -S*2, -4.5*S*2 - S*1.8, S, S, S/4, MATERIALS.LENS_FRONT, 4, undefined, true);
+
+  // --- 階段 5: 螺旋槳與馬達 (Props) ---
+  const motorPositions = [
+    { x: (-2*S) - (armLen*S), z: (-3*S) - (armLen*S*0.5), y: S + armThick }, // FL
+    { x: (2*S) + (armLen*S), z: (-3*S) - (armLen*S*0.5), y: S + armThick },  // FR
+    { x: (-2*S) - (armLen*S), z: (3*S) + (armLen*S*0.5), y: 0 + armThick },  // BL
+    { x: (2*S) + (armLen*S), z: (3*S) + (armLen*S*0.5), y: 0 + armThick },   // BR
+  ];
+
+  motorPositions.forEach(pos => {
+    // 馬達座
+    add(pos.x, pos.y, pos.z, S*2.5, S, S*2.5, MATERIALS.DARK_MECH, 5);
+    // 轉軸
+    add(pos.x, pos.y + S, pos.z, S, S/2, S, MATERIALS.BODY_WHITE, 5);
+    
+    // 槳葉 (兩片) - 這裡做成靜態的「積木」，旋轉由父級 Group 控制
+    // 為了視覺效果，我們把槳葉拆成幾段小板
+    const bladeLen = 5;
+    // Blade 1
+    for(let k=1; k<=bladeLen; k++) {
+       const color = k === bladeLen ? MATERIALS.ORANGE_ACCENT : MATERIALS.BLACK_PROP;
+       add(pos.x + k*S*0.8, pos.y + S*1.2, pos.z + k*S*0.2, S*1.5, S/5, S, color, 5, [0, 0.2, 0], true);
+    }
+    // Blade 2
+    for(let k=1; k<=bladeLen; k++) {
+       const color = k === bladeLen ? MATERIALS.ORANGE_ACCENT : MATERIALS.BLACK_PROP;
+       add(pos.x - k*S*0.8, pos.y + S*1.2, pos.z - k*S*0.2, S*1.5, S/5, S, color, 5, [0, 0.2, 0], true);
+    }
+  });
+
+  return bricks;
+};
+
+export const droneModel: BrickModelDefinition = {
+  id: 'drone',
+  label: '積木無人機',
+  generate: generateComplexDrone,
+  fly: {
+    scatterRadius: [10, 30],
+    scatterHeight: [15, 30],
+    stageJitter: 0.67,
+    flightStages: 1
+  }
+};
@@ -0,0 +1,91 @@
+import { BrickData, BrickModelDefinition, MATERIALS } from '../model';
+
+// --- 生成台北101積木數據 ---
+export const generateTaipei101 = () => {
+  const bricks: BrickData[] = [];
+  let idCounter = 0;
+  
+  const add = (x: number, y: number, z: number, w: number, h: number, d: number, color: string, stage: number) => {
+    bricks.push({
+      id: `t101_${idCounter++}`,
+      pos: [x, y, z],
+      size: [w, h, d],
+      color,
+      stage
+    });
+  };
+
+  const S = 0.5; // 基礎單位
+  let currentY = 0;
+  let stage = 0;
+
+  // 1. 基座 (Shopping Mall Base) - 梯形感，分三層縮進
+  // Base Layer 1
+  for(let x = -4; x <= 4; x+=2) {
+    for(let z = -4; z <= 4; z+=2) {
+      add(x*S, currentY, z*S, S*1.8, S, S*1.8, MATERIALS.CONCRETE, stage);
+    }
+  }
+  currentY += S; stage++;
+  
+  // Base Layer 2
+  for(let x = -3; x <= 3; x+=2) {
+    for(let z = -3; z <= 3; z+=2) {
+      add(x*S, currentY, z*S, S*1.8, S, S*1.8, MATERIALS.CONCRETE, stage);
+    }
+  }
+  currentY += S; stage++;
+
+  // Base Layer 3 (Transition)
+  add(0, currentY, 0, S*5, S, S*5, MATERIALS.GLASS_GREEN, stage);
+  currentY += S; stage++;
+
+  // 2. 主塔身 (8個倒梯形斗狀結構)
+  // 每個斗狀結構由 2-3 層組成，從下往上變大
+  for (let segment = 0; segment < 8; segment++) {
+    // 斗狀底部 (較窄)
+    add(0, currentY, 0, S*4, S, S*4, MATERIALS.GLASS_GREEN, stage);
+    // 角落裝飾 (如意紋飾位置)
+    add(S*2.2, currentY, S*2.2, S, S, S, MATERIALS.GOLD, stage);
+    add(-S*2.2, currentY, S*2.2, S, S, S, MATERIALS.GOLD, stage);
+    add(S*2.2, currentY, -S*2.2, S, S, S, MATERIALS.GOLD, stage);
+    add(-S*2.2, currentY, -S*2.2, S, S, S, MATERIALS.GOLD, stage);
+    currentY += S; 
+    
+    // 斗狀中部
+    add(0, currentY, 0, S*4.5, S, S*4.5, MATERIALS.GLASS_GREEN, stage);
+    currentY += S;
+
+    // 斗狀頂部 (最寬)
+    add(0, currentY, 0, S*5.2, S, S*5.2, MATERIALS.GLASS_LIGHT, stage);
+    currentY += S;
+    
+    // 下一個結構的間隔
+    stage++;
+  }
+
+  // 3. 塔頂 (Top)
+  // 收縮層
+  add(0, currentY, 0, S*3, S, S*3, MATERIALS.CONCRETE, stage);
+  currentY += S; stage++;
+  
+  add(0, currentY, 0, S*2, S*2, S*2, MATERIALS.GLASS_GREEN, stage);
+  currentY += S*2; stage++;
+
+  // 4. 尖塔 (Spire)
+  add(0, currentY + S*2, 0, S*0.5, S*6, S*0.5, MATERIALS.STEEL, stage);
+  
+  return bricks;
+};
+
+export const taipei101Model: BrickModelDefinition = {
+  id: 't101',
+  label: '台北 101',
+  generate: generateTaipei101,
+  fly: {
+    scatterRadius: [20, 50],
+    scatterHeight: [40, 60],
+    stageJitter: 0,
+    flightStages: 1.5 // 飛得稍慢，更有「建造」感
+  }
+};
@@ -0,0 +1,89 @@
+import * as THREE from 'three';
+import { BrickData } from './model';
+
+// --- 有向包圍盒 (OBB) 與分離軸測試 ---
+// 積木檢查、結構分析與物理模擬共用
+
+export type OBB = {
+  center: THREE.Vector3;
+  axes: [THREE.Vector3, THREE.Vector3, THREE.Vector3]; // 本地 X / Y / Z 軸 (單位向量)
+  half: [number, number, number];
+};
+
+export const createOBB = (center: THREE.Vector3, quaternion: THREE.Quaternion, half: [number, number, number]): OBB => ({
+  center: center.clone(),
+  axes: [
+    new THREE.Vector3(1, 0, 0).applyQuaternion(quaternion),
+    new THREE.Vector3(0, 1, 0).applyQuaternion(quaternion),
+    new THREE.Vector3(0, 0, 1).applyQuaternion(quaternion)
+  ],
+  half
+});
+
+export const brickToOBB = (brick: BrickData) => createOBB(
+  new THREE.Vector3(...brick.pos),
+  brick.rotation ? new THREE.Quaternion().setFromEuler(new THREE.Euler(...brick.rotation)) : new THREE.Quaternion(),
+  [brick.size[0] / 2, brick.size[1] / 2, brick.size[2] / 2]
+);
+
+// 世界座標下的軸對齊外框
+export const obbBounds = (obb: OBB) => {
+  const extent = [0, 1, 2].map(axis =>
+    obb.axes.reduce((sum, a, i) => sum + Math.abs(a.getComponent(axis)) * obb.half[i], 0)
+  );
+  return {
+    min: [obb.center.x - extent[0], obb.center.y - extent[1], obb.center.z - extent[2]],
+    max: [obb.center.x + extent[0], obb.center.y + extent[1], obb.center.z + extent[2]]
+  };
+};
+
+const projectRadius = (obb: OBB, axis: THREE.Vector3) =>
+  obb.half[0] * Math.abs(obb.axes[0].dot(axis)) +
+  obb.half[1] * Math.abs(obb.axes[1].dot(axis)) +
+  obb.half[2] * Math.abs(obb.axes[2].dot(axis));
+
+const tmpDelta = new THREE.Vector3();
+const tmpAxis = new THREE.Vector3();
+
+// 分離軸測試：separation > 0 表示兩盒之間的間隙，< 0 表示重疊深度；
+// axis 為分離量最大的軸 (由 a 指向 b)，物理模擬用來推開兩個盒子
+export const obbSeparation = (a: OBB, b: OBB) => {
+  tmpDelta.subVectors(b.center, a.center);
+  let best = -Infinity;
+  const bestAxis = new THREE.Vector3();
+
+  const test = (axis: THREE.Vector3) => {
+    const lengthSq = axis.lengthSq();
+    if (lengthSq < 1e-10) return; // 平行邊的外積，略過
+    tmpAxis.copy(axis).divideScalar(Math.sqrt(lengthSq));
+    const distance = tmpDelta.dot(tmpAxis);
+    const separation = Math.abs(distance) - projectRadius(a, tmpAxis) - projectRadius(b, tmpAxis);
+    if (separation > best) {
+      best = separation;
+      bestAxis.copy(tmpAxis).multiplyScalar(distance < 0 ? -1 : 1);
+    }
+  };
+
+  a.axes.forEach(axis => test(axis));
+  b.axes.forEach(axis => test(axis));
+  const cross = new THREE.Vector3();
+  a.axes.forEach(axisA => b.axes.forEach(axisB => test(cross.crossVectors(axisA, axisB))));
+
+  return { separation: best, axis: bestAxis };
+};
+
+// 寬相位 (sweep and prune)：沿 X 軸排序後只測外框相交 (含 margin) 的配對
+export const forEachNearbyPair = (obbs: OBB[], margin: number, visit: (i: number, j: number) => void) => {
+  const bounds = obbs.map(obbBounds);
+  const order = obbs.map((_, i) => i).sort((i, j) => bounds[i].min[0] - bounds[j].min[0]);
+  for (let oi = 0; oi < order.length; oi++) {
+    const i = order[oi];
+    for (let oj = oi + 1; oj < order.length; oj++) {
+      const j = order[oj];
+      if (bounds[j].min[0] > bounds[i].max[0] + margin) break;
+      if (bounds[j].min[1] > bounds[i].max[1] + margin || bounds[i].min[1] > bounds[j].max[1] + margin) continue;
+      if (bounds[j].min[2] > bounds[i].max[2] + margin || bounds[i].min[2] > bounds[j].max[2] + margin) continue;
+      visit(Math.min(i, j), Math.max(i, j));
+    }
+  }
+};
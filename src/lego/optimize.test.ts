@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { BrickData, PLATE_HEIGHT, STUD } from './model';
+import { optimizeBricks } from './optimize';
+
+const RED = '#B40000';
+const BLUE = '#1E5AA8';
+
+// 一格 1x1 薄板，x、z 為凸起索引、level 為第幾層
+const cell = (x: number, z: number, level: number, color = RED, stage = 0): BrickData => ({
+  id: `c_${x}_${z}_${level}_${color}`,
+  pos: [(x + 0.5) * STUD, (level + 0.5) * PLATE_HEIGHT, (z + 0.5) * STUD],
+  size: [STUD, PLATE_HEIGHT, STUD],
+  color,
+  stage
+});
+
+const area = (x0: number, z0: number, w: number, d: number, level: number, color = RED, stage = 0) => {
+  const cells: BrickData[] = [];
+  for (let x = x0; x < x0 + w; x++) {
+    for (let z = z0; z < z0 + d; z++) cells.push(cell(x, z, level, color, stage));
+  }
+  return cells;
+};
+
+const studsOf = (brick: BrickData) => [Math.round(brick.size[0] / STUD), Math.round(brick.size[2] / STUD)];
+
+// 兩顆積木的底面是否重疊 (以凸起為單位)
+const overlapsFootprint = (a: BrickData, b: BrickData) =>
+  [0, 2].every(axis => Math.abs(a.pos[axis] - b.pos[axis]) < (a.size[axis] + b.size[axis]) / 2 - 1e-6);
+
+describe('optimizeBricks', () => {
+  it('merges same-colour cells into catalogue parts', () => {
+    const result = optimizeBricks(area(0, 0, 8, 2, 0));
+    expect(result).toMatchObject({ before: 16, after: 1, saved: 15, mergedGroups: 1, offGrid: [] });
+    expect(studsOf(result.bricks[0])).toEqual([8, 2]);
+  });
+
+  it('keeps colours and stages apart', () => {
+    const result = optimizeBricks([...area(0, 0, 4, 1, 0), ...area(4, 0, 4, 1, 0, BLUE), ...area(0, 1, 4, 1, 0, RED, 1)]);
+    expect(result.after).toBe(3);
+    expect(result.mergedGroups).toBe(3);
+    expect(result.bricks.map(b => [b.color, b.stage])).toEqual([[RED, 0], [BLUE, 0], [RED, 1]]);
+  });
+
+  it('staggers seams between two layers', () => {
+    const result = optimizeBricks([...area(0, 0, 4, 4, 0), ...area(0, 0, 4, 4, 1)]);
+    expect(result.after).toBe(4);
+    const lower = result.bricks.filter(b => b.pos[1] < PLATE_HEIGHT);
+    const upper = result.bricks.filter(b => b.pos[1] > PLATE_HEIGHT);
+    expect(lower.map(studsOf)).toEqual([[4, 2], [4, 2]]);
+    expect(upper.map(studsOf)).toEqual([[2, 4], [2, 4]]);
+    // 每顆上層積木都跨在兩顆下層積木上
+    upper.forEach(top => expect(lower.filter(bottom => overlapsFootprint(top, bottom))).toHaveLength(2));
+  });
+
+  it('reports off-grid and rotated bricks instead of silently dropping them', () => {
+    const offGrid = { ...cell(0, 0, 0), id: 'off', size: [STUD * 1.8, PLATE_HEIGHT, STUD * 1.8] as BrickData['size'] };
+    const rotated = { ...cell(3, 0, 0), id: 'rot', rotation: [0, 0.4, 0] as BrickData['rotation'] };
+    const single = cell(6, 0, 0, BLUE);
+    const result = optimizeBricks([offGrid, rotated, single]);
+    expect(result.offGrid).toEqual(['off', 'rot']);
+    expect(result.saved).toBe(0);
+    expect(result.mergedGroups).toBe(0);
+    expect(result.bricks).toEqual([offGrid, rotated, single]);
+  });
+});
@@ -0,0 +1,227 @@
+import { BrickData, STUD } from './model';
+
+// --- 積木合併最佳化 ---
+// 把同一層、同顏色、同階段的相鄰格子合併成實際存在的零件尺寸 (1x1 ... 2x8)，
+// 並讓接縫與下一層錯開 (像砌磚一樣)，合併後才扣得住
+
+export type OptimizeResult = {
+  bricks: BrickData[];
+  before: number;
+  after: number;
+  saved: number;
+  mergedGroups: number; // 實際採用合併結果的群組數
+  offGrid: string[];    // 有旋轉或底面不在凸起網格上、因此沒有參與合併的積木 id
+};
+
+// 可用的零件底面 (長 x 寬，凸起數)，面積大的優先
+const CATALOGUE: [number, number][] = [
+  [8, 2], [6, 2], [4, 2], [3, 2], [2, 2],
+  [8, 1], [6, 1], [4, 1], [3, 1], [2, 1], [1, 1]
+];
+
+const STUD_TOLERANCE = 0.05;
+// 評分權重：面積為主，跨過下層接縫加分、與下層接縫對齊扣分
+const AREA_WEIGHT = 4;
+
+const toStudIndex = (v: number) => {
+  const n = v / STUD;
+  const r = Math.round(n);
+  return Math.abs(n - r) <= STUD_TOLERANCE ? r : null;
+};
+
+const heightKey = (y: number) => y.toFixed(4);
+const cellKey = (x: number, z: number) => `${x},${z}`;
+
+// 可拆成 1x1 格子的積木：沒有旋轉、底面為整數凸起且對齊網格
+const toCells = (brick: BrickData) => {
+  if (brick.rotation && brick.rotation.some(r => Math.abs(r) > 1e-6)) return null;
+  const x0 = toStudIndex(brick.pos[0] - brick.size[0] / 2);
+  const x1 = toStudIndex(brick.pos[0] + brick.size[0] / 2);
+  const z0 = toStudIndex(brick.pos[2] - brick.size[2] / 2);
+  const z1 = toStudIndex(brick.pos[2] + brick.size[2] / 2);
+  if (x0 === null || x1 === null || z0 === null || z1 === null || x1 <= x0 || z1 <= z0) return null;
+  const cells: [number, number][] = [];
+  for (let x = x0; x < x1; x++) {
+    for (let z = z0; z < z1; z++) cells.push([x, z]);
+  }
+  return cells;
+};
+
+type Group = {
+  key: string;
+  bottom: number;
+  template: BrickData; // 高度、顏色、階段、平滑磚取自第一顆
+  members: number[];   // 原始積木索引
+  cells: Map<string, [number, number]>;
+};
+
+type Placement = { x: number; z: number; w: number; d: number };
+
+// 每層頂面的格子歸屬 (用來判斷接縫位置)
+type LayerMap = Map<string, number>;
+
+const placeCells = (layer: LayerMap, p: Placement, owner: number) => {
+  for (let x = p.x; x < p.x + p.w; x++) {
+    for (let z = p.z; z < p.z + p.d; z++) layer.set(cellKey(x, z), owner);
+  }
+};
+
+// 兩格之間是否為下層的接縫 (兩邊都有積木、但屬於不同積木)
+const isSeam = (below: LayerMap | undefined, a: string, b: string) => {
+  if (!below) return false;
+  const oa = below.get(a);
+  const ob = below.get(b);
+  return oa !== undefined && ob !== undefined && oa !== ob;
+};
+
+const scorePlacement = (p: Placement, below: LayerMap | undefined) => {
+  let bridged = 0;
+  let aligned = 0;
+  // 垂直於 X 的邊
+  for (let x = p.x; x <= p.x + p.w; x++) {
+    for (let z = p.z; z < p.z + p.d; z++) {
+      if (!isSeam(below, cellKey(x - 1, z), cellKey(x, z))) continue;
+      if (x === p.x || x === p.x + p.w) aligned++;
+      else bridged++;
+    }
+  }
+  // 垂直於 Z 的邊
+  for (let z = p.z; z <= p.z + p.d; z++) {
+    for (let x = p.x; x < p.x + p.w; x++) {
+      if (!isSeam(below, cellKey(x, z - 1), cellKey(x, z))) continue;
+      if (z === p.z || z === p.z + p.d) aligned++;
+      else bridged++;
+    }
+  }
+  return p.w * p.d * AREA_WEIGHT + bridged - aligned;
+};
+
+// 貪婪覆蓋：依序找第一個未覆蓋的格子，以它為角落挑分數最高的零件
+const coverGroup = (group: Group, below: LayerMap | undefined) => {
+  const free = new Set(group.cells.keys());
+  const order = Array.from(group.cells.values()).sort((a, b) => a[1] - b[1] || a[0] - b[0]);
+  const placements: Placement[] = [];
+
+  const fits = (p: Placement) => {
+    for (let x = p.x; x < p.x + p.w; x++) {
+      for (let z = p.z; z < p.z + p.d; z++) {
+        if (!free.has(cellKey(x, z))) return false;
+      }
+    }
+    return true;
+  };
+
+  order.forEach(([x, z]) => {
+    if (!free.has(cellKey(x, z))) return;
+    let best: Placement = { x, z, w: 1, d: 1 };
+    let bestScore = -Infinity;
+    CATALOGUE.forEach(([long, short]) => {
+      [[long, short], [short, long]].forEach(([w, d]) => {
+        const p = { x, z, w, d };
+        if (!fits(p)) return;
+        const score = scorePlacement(p, below);
+        if (score > bestScore) {
+          bestScore = score;
+          best = p;
+        }
+      });
+    });
+    for (let cx = best.x; cx < best.x + best.w; cx++) {
+      for (let cz = best.z; cz < best.z + best.d; cz++) free.delete(cellKey(cx, cz));
+    }
+    placements.push(best);
+  });
+
+  return placements;
+};
+
+export const optimizeBricks = (bricks: BrickData[]): OptimizeResult => {
+  const groups = new Map<string, Group>();
+  const groupOf = new Map<number, Group>();
+  const offGrid: string[] = [];
+
+  bricks.forEach((brick, i) => {
+    const cells = toCells(brick);
+    if (!cells) {
+      offGrid.push(brick.id);
+      return;
+    }
+    const bottom = brick.pos[1] - brick.size[1] / 2;
+    const key = [heightKey(bottom), heightKey(brick.size[1]), brick.color, brick.stage, !!brick.tile].join('|');
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, bottom, template: brick, members: [], cells: new Map() };
+      groups.set(key, group);
+    }
+    group.members.push(i);
+    cells.forEach(c => group!.cells.set(cellKey(c[0], c[1]), c));
+    groupOf.set(i, group);
+  });
+
+  // 由下往上處理，才知道下一層的接縫在哪裡
+  const layers = new Map<string, LayerMap>();
+  const layerAt = (y: number) => {
+    const key = heightKey(y);
+    if (!layers.has(key)) layers.set(key, new Map());
+    return layers.get(key)!;
+  };
+  const results = new Map<Group, BrickData[] | null>(); // null = 保留原始積木
+  let owner = 0;
+  let mergeCounter = 0;
+  let mergedGroups = 0;
+
+  Array.from(groups.values()).sort((a, b) => a.bottom - b.bottom).forEach(group => {
+    const top = group.bottom + group.template.size[1];
+    const placements = coverGroup(group, layers.get(heightKey(group.bottom)));
+    const layer = layerAt(top);
+
+    if (placements.length >= group.members.length) {
+      // 合併沒有比較少，保留原本的積木
+      group.members.forEach(i => {
+        toCells(bricks[i])!.forEach(([x, z]) => placeCells(layer, { x, z, w: 1, d: 1 }, owner));
+        owner++;
+      });
+      results.set(group, null);
+      return;
+    }
+
+    mergedGroups++;
+    const t = group.template;
+    results.set(group, placements.map(p => {
+      placeCells(layer, p, owner++);
+      const brick: BrickData = {
+        id: `opt_${mergeCounter++}`,
+        pos: [(p.x + p.w / 2) * STUD, t.pos[1], (p.z + p.d / 2) * STUD],
+        size: [p.w * STUD, t.size[1], p.d * STUD],
+        color: t.color,
+        stage: t.stage
+      };
+      if (t.tile) brick.tile = true;
+      return brick;
+    }));
+  });
+
+  // 依原本順序輸出：群組的合併結果放在該群組第一顆積木的位置
+  const output: BrickData[] = [];
+  const emitted = new Set<Group>();
+  bricks.forEach((brick, i) => {
+    const group = groupOf.get(i);
+    const merged = group ? results.get(group) : null;
+    if (!group || !merged) {
+      output.push(brick);
+      return;
+    }
+    if (emitted.has(group)) return;
+    emitted.add(group);
+    output.push(...merged);
+  });
+
+  return {
+    bricks: output,
+    before: bricks.length,
+    after: output.length,
+    saved: bricks.length - output.length,
+    mergedGroups,
+    offGrid
+  };
+};
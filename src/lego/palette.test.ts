@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { LEGO_COLORS, PALETTE, nearestLegoColor } from './palette';
+
+describe('nearestLegoColor', () => {
+  it('maps off-palette colours to the closest official colour in sRGB', () => {
+    expect(nearestLegoColor('#FF0000')).toBe(LEGO_COLORS.RED);
+    expect(nearestLegoColor('#FFFF00')).toBe(LEGO_COLORS.YELLOW);
+    expect(nearestLegoColor('#0000FF')).toBe(LEGO_COLORS.BLUE);
+    expect(nearestLegoColor('#87CEEB')).toBe(LEGO_COLORS.LIGHT_BLUE);
+    expect(nearestLegoColor('#8B4513')).toBe(LEGO_COLORS.DARK_ORANGE);
+    expect(nearestLegoColor('#A0A0A0')).toBe(LEGO_COLORS.LIGHT_BLUISH_GREY);
+    expect(nearestLegoColor('#000000')).toBe(LEGO_COLORS.BLACK);
+    expect(nearestLegoColor('#FFFFFF')).toBe(LEGO_COLORS.WHITE);
+  });
+
+  it('keeps official colours unchanged', () => {
+    PALETTE.forEach(color => expect(nearestLegoColor(color.hex, !!color.transparent)).toBe(color));
+  });
+
+  it('matches transparent colours only against transparent ones', () => {
+    expect(nearestLegoColor('#FF0000', true)).toBe(LEGO_COLORS.TRANS_RED);
+    expect(nearestLegoColor('#FFFFFF', true)).toBe(LEGO_COLORS.TRANS_CLEAR);
+    expect(nearestLegoColor('#0000FF', true)).toBe(LEGO_COLORS.TRANS_DARK_BLUE);
+  });
+});
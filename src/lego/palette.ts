@@ -0,0 +1,103 @@
+import * as THREE from 'three';
+
+// --- 官方樂高色票 ---
+// id 為樂高官方顏色編號、ldraw 為 LDraw 顏色代碼，hex 取自 LDraw 官方設定檔 (LDConfig)
+
+export type LegoColor = {
+  id: number;
+  ldraw: number;
+  name: string;
+  hex: string;
+  transparent?: boolean;
+  metallic?: boolean;
+};
+
+export const LEGO_COLORS = {
+  BLACK: { id: 26, ldraw: 0, name: 'Black', hex: '#1B2A34' },
+  BLUE: { id: 23, ldraw: 1, name: 'Blue', hex: '#1E5AA8' },
+  GREEN: { id: 28, ldraw: 2, name: 'Green', hex: '#00852B' },
+  DARK_TURQUOISE: { id: 107, ldraw: 3, name: 'Dark Turquoise', hex: '#069D9F' },
+  RED: { id: 21, ldraw: 4, name: 'Red', hex: '#B40000' },
+  DARK_PINK: { id: 47, ldraw: 5, name: 'Dark Pink', hex: '#D3359D' },
+  BROWN: { id: 25, ldraw: 6, name: 'Brown', hex: '#543324' },
+  LIGHT_GREY: { id: 2, ldraw: 7, name: 'Light Grey', hex: '#8A928D' },
+  DARK_GREY: { id: 27, ldraw: 8, name: 'Dark Grey', hex: '#545955' },
+  LIGHT_BLUE: { id: 45, ldraw: 9, name: 'Light Blue', hex: '#97CBD9' },
+  BRIGHT_GREEN: { id: 37, ldraw: 10, name: 'Bright Green', hex: '#58AB41' },
+  LIGHT_TURQUOISE: { id: 116, ldraw: 11, name: 'Light Turquoise', hex: '#00AAA4' },
+  SALMON: { id: 4, ldraw: 12, name: 'Salmon', hex: '#F06D61' },
+  PINK: { id: 9, ldraw: 13, name: 'Pink', hex: '#F6A9BB' },
+  YELLOW: { id: 24, ldraw: 14, name: 'Yellow', hex: '#FAC80A' },
+  WHITE: { id: 1, ldraw: 15, name: 'White', hex: '#F4F4F4' },
+  TAN: { id: 5, ldraw: 19, name: 'Tan', hex: '#E4CD9E' },
+  ORANGE: { id: 106, ldraw: 25, name: 'Orange', hex: '#D67923' },
+  DARK_TAN: { id: 138, ldraw: 28, name: 'Dark Tan', hex: '#958A73' },
+  REDDISH_BROWN: { id: 192, ldraw: 70, name: 'Reddish Brown', hex: '#5F3109' },
+  LIGHT_BLUISH_GREY: { id: 194, ldraw: 71, name: 'Light Bluish Grey', hex: '#969696' },
+  DARK_BLUISH_GREY: { id: 199, ldraw: 72, name: 'Dark Bluish Grey', hex: '#646464' },
+  BRIGHT_LIGHT_YELLOW: { id: 226, ldraw: 226, name: 'Bright Light Yellow', hex: '#FFEC6C' },
+  DARK_BLUE: { id: 140, ldraw: 272, name: 'Dark Blue', hex: '#19325A' },
+  DARK_GREEN: { id: 141, ldraw: 288, name: 'Dark Green', hex: '#00451A' },
+  DARK_RED: { id: 154, ldraw: 320, name: 'Dark Red', hex: '#720012' },
+  MEDIUM_AZURE: { id: 322, ldraw: 322, name: 'Medium Azure', hex: '#36AEBF' },
+  SAND_GREEN: { id: 151, ldraw: 378, name: 'Sand Green', hex: '#A0BCAC' },
+  DARK_ORANGE: { id: 38, ldraw: 484, name: 'Dark Orange', hex: '#91501C' },
+  // 金屬色
+  PEARL_DARK_GREY: { id: 316, ldraw: 148, name: 'Pearl Dark Grey', hex: '#575857', metallic: true },
+  FLAT_SILVER: { id: 315, ldraw: 179, name: 'Flat Silver', hex: '#898788', metallic: true },
+  PEARL_GOLD: { id: 297, ldraw: 297, name: 'Pearl Gold', hex: '#AA7F2E', metallic: true },
+  // 透明色
+  TRANS_DARK_BLUE: { id: 43, ldraw: 33, name: 'Trans Dark Blue', hex: '#0020A0', transparent: true },
+  TRANS_GREEN: { id: 48, ldraw: 34, name: 'Trans Green', hex: '#237841', transparent: true },
+  TRANS_BRIGHT_GREEN: { id: 311, ldraw: 35, name: 'Trans Bright Green', hex: '#56E646', transparent: true },
+  TRANS_RED: { id: 41, ldraw: 36, name: 'Trans Red', hex: '#C91A09', transparent: true },
+  TRANS_BLACK: { id: 111, ldraw: 40, name: 'Trans Black', hex: '#635F52', transparent: true },
+  TRANS_LIGHT_BLUE: { id: 42, ldraw: 43, name: 'Trans Light Blue', hex: '#AEE9EF', transparent: true },
+  TRANS_YELLOW: { id: 44, ldraw: 46, name: 'Trans Yellow', hex: '#F5CD2F', transparent: true },
+  TRANS_CLEAR: { id: 40, ldraw: 47, name: 'Trans Clear', hex: '#FCFCFC', transparent: true }
+} satisfies { [key: string]: LegoColor };
+
+export const PALETTE: LegoColor[] = Object.values(LEGO_COLORS);
+
+const byLDraw = new Map(PALETTE.map(c => [c.ldraw, c]));
+const byHex = new Map(PALETTE.map(c => [c.hex.toUpperCase(), c]));
+
+export const findByLDraw = (code: number) => byLDraw.get(code);
+export const findByHex = (hex: string) => byHex.get(hex.toUpperCase());
+
+// --- 最接近的官方色 ---
+// THREE.Color 內部存的是線性值 (ColorManagement 預設開啟)，redmean 要用 sRGB 的 0 ~ 255
+const tmpColor = new THREE.Color();
+const tmpRgb = { r: 0, g: 0, b: 0 };
+const hexToRgb = (hex: string) => {
+  const { r, g, b } = tmpColor.set(hex).getRGB(tmpRgb, THREE.SRGBColorSpace);
+  return [r * 255, g * 255, b * 255];
+};
+
+const ENTRIES = PALETTE.map(color => ({ color, rgb: hexToRgb(color.hex) }));
+const nearestCache = new Map<string, LegoColor>();
+
+// 以 "redmean" 加權距離比對 (比單純 RGB 距離更接近人眼感受)，透明色只與透明色比對
+export const nearestLegoColor = (hex: string, transparent = false): LegoColor => {
+  const key = `${hex}|${transparent}`;
+  const cached = nearestCache.get(key);
+  if (cached) return cached;
+
+  const [r, g, b] = hexToRgb(hex);
+  let best = ENTRIES[0].color;
+  let bestDist = Infinity;
+  for (const entry of ENTRIES) {
+    if (!!entry.color.transparent !== transparent) continue;
+    const rm = (r + entry.rgb[0]) / 2;
+    const dr = r - entry.rgb[0];
+    const dg = g - entry.rgb[1];
+    const db = b - entry.rgb[2];
+    const dist = (2 + rm / 256) * dr * dr + 4 * dg * dg + (2 + (255 - rm) / 256) * db * db;
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = entry.color;
+    }
+  }
+  nearestCache.set(key, best);
+  return best;
+};
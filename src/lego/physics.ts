@@ -0,0 +1,376 @@
+import * as THREE from 'three';
+import { BrickData } from './model';
+import { OBB, forEachNearbyPair, obbSeparation } from './obb';
+import { Random } from './random';
+
+// --- 輕量剛體模擬 (墜機 / 地震的「摔碎」拆解) ---
+// 每顆積木視為實心長方體：重力、盒對盒碰撞 (分離軸找法線)、地面接觸與摩擦，
+// 以固定時間步長的序列衝量法求解；低速一段時間的積木進入睡眠，散落的積木最後會靜止
+
+export type RigidBody = {
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  velocity: THREE.Vector3;
+  angularVelocity: THREE.Vector3;
+  invMass: number;
+  invInertia: THREE.Vector3; // 本體座標下主轉動慣量的倒數
+  obb: OBB;                  // 與 position / quaternion 同步的碰撞盒
+  sleeping: boolean;
+  idle: number;              // 連續低速的時間 (秒)
+};
+
+// 地震：地面水平來回晃動，越高的積木晃得越厲害
+type Quake = {
+  start: number;
+  duration: number;
+  amplitude: number; // 最大水平加速度
+  frequency: number; // Hz
+  direction: THREE.Vector3;
+};
+
+export type PhysicsWorld = {
+  bodies: RigidBody[];
+  fused: Set<string>; // 模型裡本來就互相嵌入的積木配對 (i:j)，彼此不碰撞
+  groundY: number;
+  height: number; // 初始模型高度 (地震的高度加權)
+  time: number;
+  disturbed: number; // 最近一次墜機 / 地震的時間
+  accumulator: number;
+  quake: Quake | null;
+};
+
+const GRAVITY = 9.8;
+const FIXED_STEP = 1 / 120;
+const MAX_STEPS = 4;        // 每幀最多模擬幾步 (掉幀時寧可變慢動作)
+const ITERATIONS = 8;
+const RESTITUTION = 0.2;
+const BOUNCE_SPEED = 1;     // 撞擊速度超過這個值才反彈，避免靜置時抖動
+const FRICTION = 0.6;
+const SLOP = 0.005;         // 允許的穿透量
+const CORRECTION = 0.4;     // 每步推開穿透量的比例
+const LINEAR_DAMPING = 0.02;
+const ANGULAR_DAMPING = 0.05;
+const SLEEP_SPEED = 0.1;
+const SLEEP_SPIN = 0.3;
+const SLEEP_TIME = 0.5;
+const WAKE_SPEED = 0.5;
+const SETTLE_TIMEOUT = 10;  // 受擾動後這麼久仍在微動的積木直接讓它睡著
+
+// 盒子的 8 個角 (以半邊長的正負號表示)
+const CORNERS = [-1, 1].flatMap(x => [-1, 1].flatMap(y => [-1, 1].map(z => [x, y, z])));
+
+const createBody = (brick: BrickData, transform?: THREE.Matrix4): RigidBody => {
+  const position = new THREE.Vector3(...brick.pos);
+  const quaternion = brick.rotation
+    ? new THREE.Quaternion().setFromEuler(new THREE.Euler(...brick.rotation))
+    : new THREE.Quaternion();
+  if (transform) {
+    position.applyMatrix4(transform);
+    quaternion.premultiply(new THREE.Quaternion().setFromRotationMatrix(transform));
+  }
+  const [w, h, d] = brick.size;
+  const mass = w * h * d;
+  const half: [number, number, number] = [w / 2, h / 2, d / 2];
+  return {
+    position,
+    quaternion,
+    velocity: new THREE.Vector3(),
+    angularVelocity: new THREE.Vector3(),
+    invMass: 1 / mass,
+    invInertia: new THREE.Vector3(12 / (mass * (h * h + d * d)), 12 / (mass * (w * w + d * d)), 12 / (mass * (w * w + h * h))),
+    obb: { center: position.clone(), axes: [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()], half },
+    sleeping: false,
+    idle: 0
+  };
+};
+
+// transform：積木座標 → 模擬座標 (例如飛行中的無人機，把目前的姿態一起帶進來)
+// 已經陷進地面的積木 (模型底部低於地面) 以模型底部為地面，避免一開始就被彈飛
+export const createPhysicsWorld = (bricks: BrickData[], options: { groundY: number, transform?: THREE.Matrix4 }): PhysicsWorld => {
+  const bodies = bricks.map(brick => createBody(brick, options.transform));
+  bodies.forEach(syncOBB);
+  const bottom = Math.min(...bodies.map(b => lowestPoint(b.obb)));
+  const top = Math.max(...bodies.map(b => b.position.y));
+  const groundY = Math.min(options.groundY, bottom);
+  // 模型中刻意重疊的零件 (例如嵌在機身裡的裝飾) 若照常碰撞會一開始就互相彈開
+  const fused = new Set<string>();
+  forEachNearbyPair(bodies.map(b => b.obb), 0, (i, j) => {
+    if (obbSeparation(bodies[i].obb, bodies[j].obb).separation < -SLOP) fused.add(`${i}:${j}`);
+  });
+  return { bodies, fused, groundY, height: Math.max(top - groundY, 1), time: 0, disturbed: 0, accumulator: 0, quake: null };
+};
+
+const syncOBB = (body: RigidBody) => {
+  body.obb.center.copy(body.position);
+  body.obb.axes[0].set(1, 0, 0).applyQuaternion(body.quaternion);
+  body.obb.axes[1].set(0, 1, 0).applyQuaternion(body.quaternion);
+  body.obb.axes[2].set(0, 0, 1).applyQuaternion(body.quaternion);
+};
+
+const lowestPoint = (obb: OBB) =>
+  obb.center.y - obb.axes.reduce((sum, axis, i) => sum + Math.abs(axis.y) * obb.half[i], 0);
+
+const cornerOf = (obb: OBB, signs: number[], out: THREE.Vector3) =>
+  out.copy(obb.center)
+    .addScaledVector(obb.axes[0], signs[0] * obb.half[0])
+    .addScaledVector(obb.axes[1], signs[1] * obb.half[1])
+    .addScaledVector(obb.axes[2], signs[2] * obb.half[2]);
+
+const tmpLocal = new THREE.Vector3();
+const containsPoint = (obb: OBB, point: THREE.Vector3) => {
+  tmpLocal.subVectors(point, obb.center);
+  return obb.axes.every((axis, i) => Math.abs(tmpLocal.dot(axis)) <= obb.half[i] + SLOP);
+};
+
+const wake = (body: RigidBody) => {
+  body.sleeping = false;
+  body.idle = 0;
+};
+
+// --- 外力 ---
+
+// 墜機：所有積木以模型中心為原點向外炸開並隨機翻轉
+export const shatter = (world: PhysicsWorld, random: Random, strength = 3) => {
+  const center = world.bodies.reduce((sum, b) => sum.add(b.position), new THREE.Vector3()).divideScalar(world.bodies.length);
+  world.bodies.forEach(body => {
+    const outward = body.position.clone().sub(center);
+    outward.y = Math.max(outward.y, 0);
+    if (outward.lengthSq() < 1e-6) outward.set(random() - 0.5, 0, random() - 0.5);
+    body.velocity.copy(outward.normalize().multiplyScalar(strength * (0.5 + random())));
+    body.velocity.y += strength * random();
+    body.angularVelocity.set(random() - 0.5, random() - 0.5, random() - 0.5).multiplyScalar(strength * 4);
+    wake(body);
+  });
+  world.disturbed = world.time;
+};
+
+// 地震：沿隨機的水平方向晃動 duration 秒
+export const startQuake = (world: PhysicsWorld, random: Random, amplitude = 12, duration = 4) => {
+  const angle = random() * Math.PI * 2;
+  world.quake = {
+    start: world.time,
+    duration,
+    amplitude,
+    frequency: 2 + random(),
+    direction: new THREE.Vector3(Math.cos(angle), 0, Math.sin(angle))
+  };
+  world.bodies.forEach(wake);
+  world.disturbed = world.time;
+};
+
+// --- 接觸 ---
+type Contact = {
+  a: RigidBody;
+  b: RigidBody | null; // null = 地面
+  point: THREE.Vector3;
+  normal: THREE.Vector3; // 把 a 推離 b 的方向
+  depth: number;
+  share: number;         // 同一組接觸的點數倒數 (位置修正平分)
+  bounce: number;        // 反彈的目標速度
+  impulse: number;       // 累積的法向衝量
+};
+
+const tmpVel = new THREE.Vector3();
+const tmpVelB = new THREE.Vector3();
+const tmpR = new THREE.Vector3();
+const tmpCross = new THREE.Vector3();
+const tmpInv = new THREE.Quaternion();
+
+// 世界座標下的 I⁻¹ · v
+const applyInvInertia = (body: RigidBody, v: THREE.Vector3, out: THREE.Vector3) =>
+  out.copy(v).applyQuaternion(tmpInv.copy(body.quaternion).invert()).multiply(body.invInertia).applyQuaternion(body.quaternion);
+
+const pointVelocity = (body: RigidBody | null, point: THREE.Vector3, out: THREE.Vector3) => {
+  if (!body) return out.set(0, 0, 0);
+  return out.crossVectors(body.angularVelocity, tmpR.subVectors(point, body.position)).add(body.velocity);
+};
+
+const isDynamic = (body: RigidBody | null): body is RigidBody => !!body && !body.sleeping;
+
+// 在 point 沿 direction 施加衝量所需的「有效質量倒數」
+const inverseMassAlong = (body: RigidBody | null, point: THREE.Vector3, direction: THREE.Vector3) => {
+  if (!isDynamic(body)) return 0;
+  tmpR.subVectors(point, body.position);
+  tmpCross.crossVectors(tmpR, direction);
+  applyInvInertia(body, tmpCross, tmpCross);
+  return body.invMass + tmpCross.cross(tmpR).dot(direction);
+};
+
+const applyImpulse = (body: RigidBody | null, point: THREE.Vector3, impulse: THREE.Vector3) => {
+  if (!isDynamic(body)) return;
+  body.velocity.addScaledVector(impulse, body.invMass);
+  tmpR.subVectors(point, body.position);
+  applyInvInertia(body, tmpCross.crossVectors(tmpR, impulse), tmpCross);
+  body.angularVelocity.add(tmpCross);
+};
+
+const makeContact = (a: RigidBody, b: RigidBody | null, point: THREE.Vector3, normal: THREE.Vector3, depth: number, share: number): Contact => {
+  const approach = pointVelocity(a, point, tmpVel).sub(pointVelocity(b, point, tmpVelB)).dot(normal);
+  return {
+    a, b, point, normal, depth, share,
+    bounce: approach < -BOUNCE_SPEED ? -approach * RESTITUTION : 0,
+    impulse: 0
+  };
+};
+
+const collectContacts = (world: PhysicsWorld) => {
+  const contacts: Contact[] = [];
+  const up = new THREE.Vector3(0, 1, 0);
+
+  // 地面
+  world.bodies.forEach(body => {
+    if (body.sleeping || lowestPoint(body.obb) > world.groundY) return;
+    const points = CORNERS
+      .map(signs => cornerOf(body.obb, signs, new THREE.Vector3()))
+      .filter(p => p.y < world.groundY);
+    points.forEach(p => contacts.push(makeContact(body, null, p, up, world.groundY - p.y, 1 / points.length)));
+  });
+
+  // 積木之間：分離軸給出法線與穿透深度，接觸點取互相陷入對方的角
+  forEachNearbyPair(world.bodies.map(b => b.obb), 0, (i, j) => {
+    const a = world.bodies[i];
+    const b = world.bodies[j];
+    if ((a.sleeping && b.sleeping) || world.fused.has(`${i}:${j}`)) return;
+    const { separation, axis } = obbSeparation(a.obb, b.obb);
+    if (separation >= 0) return;
+
+    // 醒著的積木撞上睡著的積木時把它叫醒
+    const relative = pointVelocity(a, a.position, tmpVel).sub(pointVelocity(b, b.position, tmpVelB)).length();
+    if (relative > WAKE_SPEED) {
+      wake(a);
+      wake(b);
+    }
+
+    const normal = axis.clone().negate();
+    const points = [
+      ...CORNERS.map(signs => cornerOf(a.obb, signs, new THREE.Vector3())).filter(p => containsPoint(b.obb, p)),
+      ...CORNERS.map(signs => cornerOf(b.obb, signs, new THREE.Vector3())).filter(p => containsPoint(a.obb, p))
+    ];
+    // 邊對邊交叉時兩邊的角都不在對方裡面，改用兩盒中心的中點
+    if (!points.length) points.push(a.position.clone().add(b.position).multiplyScalar(0.5));
+    points.forEach(p => contacts.push(makeContact(a, b, p, normal, -separation, 1 / points.length)));
+  });
+
+  return contacts;
+};
+
+// --- 求解 ---
+const tmpImpulse = new THREE.Vector3();
+const tmpTangent = new THREE.Vector3();
+
+const solveContact = (c: Contact) => {
+  const relative = pointVelocity(c.a, c.point, tmpVel).sub(pointVelocity(c.b, c.point, tmpVelB));
+  const vn = relative.dot(c.normal);
+  const kn = inverseMassAlong(c.a, c.point, c.normal) + inverseMassAlong(c.b, c.point, c.normal);
+  if (kn <= 0) return;
+
+  // 法向：累積衝量不得為負 (只推不拉)
+  const previous = c.impulse;
+  c.impulse = Math.max(previous + (c.bounce - vn) / kn, 0);
+  const jn = c.impulse - previous;
+  tmpImpulse.copy(c.normal).multiplyScalar(jn);
+  applyImpulse(c.a, c.point, tmpImpulse);
+  applyImpulse(c.b, c.point, tmpImpulse.negate());
+
+  // 切向摩擦：上限為目前法向衝量 × 摩擦係數
+  tmpTangent.copy(relative).addScaledVector(c.normal, -vn);
+  const speed = tmpTangent.length();
+  if (speed < 1e-6) return;
+  tmpTangent.divideScalar(speed);
+  const kt = inverseMassAlong(c.a, c.point, tmpTangent) + inverseMassAlong(c.b, c.point, tmpTangent);
+  if (kt <= 0) return;
+  const jt = Math.min(speed / kt, FRICTION * c.impulse);
+  tmpImpulse.copy(tmpTangent).multiplyScalar(-jt);
+  applyImpulse(c.a, c.point, tmpImpulse);
+  applyImpulse(c.b, c.point, tmpImpulse.negate());
+};
+
+// 把穿透的積木直接推開 (依質量分配)
+const correctPosition = (c: Contact) => {
+  const depth = Math.max(c.depth - SLOP, 0) * CORRECTION * c.share;
+  if (!depth) return;
+  const invA = isDynamic(c.a) ? c.a.invMass : 0;
+  const invB = isDynamic(c.b) ? c.b.invMass : 0;
+  const total = invA + invB;
+  if (!total) return;
+  c.a.position.addScaledVector(c.normal, (depth * invA) / total);
+  if (c.b && invB) c.b.position.addScaledVector(c.normal, (-depth * invB) / total);
+};
+
+const tmpSpin = new THREE.Quaternion();
+
+const integrate = (body: RigidBody, dt: number) => {
+  body.velocity.multiplyScalar(1 - LINEAR_DAMPING * dt);
+  body.angularVelocity.multiplyScalar(1 - ANGULAR_DAMPING * dt);
+  body.position.addScaledVector(body.velocity, dt);
+  // q += ½ · ω · q · dt
+  const w = body.angularVelocity;
+  tmpSpin.set(w.x * dt * 0.5, w.y * dt * 0.5, w.z * dt * 0.5, 0).multiply(body.quaternion);
+  body.quaternion.set(
+    body.quaternion.x + tmpSpin.x,
+    body.quaternion.y + tmpSpin.y,
+    body.quaternion.z + tmpSpin.z,
+    body.quaternion.w + tmpSpin.w
+  ).normalize();
+};
+
+const updateSleep = (body: RigidBody, dt: number, timeout: boolean) => {
+  if (timeout || (body.velocity.length() < SLEEP_SPEED && body.angularVelocity.length() < SLEEP_SPIN)) {
+    body.idle += dt;
+    if (body.idle > SLEEP_TIME) {
+      body.sleeping = true;
+      body.velocity.set(0, 0, 0);
+      body.angularVelocity.set(0, 0, 0);
+    }
+  } else {
+    body.idle = 0;
+  }
+};
+
+const substep = (world: PhysicsWorld, dt: number) => {
+  const quake = world.quake;
+  const shaking = !!quake && world.time - quake.start < quake.duration;
+  const shake = shaking
+    ? quake.amplitude * Math.sin(2 * Math.PI * quake.frequency * (world.time - quake.start))
+    : 0;
+
+  world.bodies.forEach(body => {
+    if (shaking) wake(body);
+    if (body.sleeping) return;
+    body.velocity.y -= GRAVITY * dt;
+    if (shaking) {
+      const sway = 0.3 + 0.7 * THREE.MathUtils.clamp((body.position.y - world.groundY) / world.height, 0, 1);
+      body.velocity.addScaledVector(quake!.direction, shake * sway * dt);
+    }
+  });
+
+  const contacts = collectContacts(world);
+  for (let k = 0; k < ITERATIONS; k++) contacts.forEach(solveContact);
+
+  world.bodies.forEach(body => {
+    if (body.sleeping) return;
+    integrate(body, dt);
+  });
+  contacts.forEach(correctPosition);
+  const timeout = world.time - world.disturbed > SETTLE_TIMEOUT;
+  world.bodies.forEach(body => {
+    if (body.sleeping) return;
+    syncOBB(body);
+    if (!shaking) updateSleep(body, dt, timeout);
+  });
+
+  world.time += dt;
+  if (quake && !shaking) world.quake = null;
+};
+
+// 以固定步長推進 delta 秒
+export const stepPhysics = (world: PhysicsWorld, delta: number) => {
+  world.accumulator = Math.min(world.accumulator + delta, FIXED_STEP * MAX_STEPS);
+  while (world.accumulator >= FIXED_STEP) {
+    substep(world, FIXED_STEP);
+    world.accumulator -= FIXED_STEP;
+  }
+};
+
+// 全部積木都已靜止
+export const isSettled = (world: PhysicsWorld) => !world.quake && world.bodies.every(b => b.sleeping);
@@ -0,0 +1,46 @@
+import { createContext, useContext } from 'react';
+
+// --- 可重現的隨機數 ---
+// 積木的散落位置與飛入時機都由「種子 + 積木 id」決定：同一個種子在任何環境 (含 headless)
+// 都會得到完全相同的畫面，重新掛載元件 (StrictMode) 也不會重抽
+
+export type Random = () => number;
+
+// FNV-1a 32-bit 字串雜湊
+export const hashString = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32：32-bit 狀態的快速 PRNG，回傳 [0, 1)
+export const mulberry32 = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// 每顆積木各自的隨機序列，與積木的繪製順序、數量無關
+export const brickRandom = (seed: number, id: string) => mulberry32(hashString(`${seed}:${id}`));
+
+// 產生新的種子 (唯一使用 Math.random 的地方)
+export const randomSeed = () => Math.floor(Math.random() * 1e9);
+
+// 網址參數 ?seed=：數字直接使用，其他文字取雜湊
+export const readSeedParam = (search: string) => {
+  const value = new URLSearchParams(search).get('seed');
+  if (!value) return null;
+  return /^\d+$/.test(value) ? Number(value) % 4294967296 : hashString(value);
+};
+
+export const SeedContext = createContext(0);
+
+export const useSeed = () => useContext(SeedContext);
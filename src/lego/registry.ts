@@ -0,0 +1,25 @@
+import { BrickModelDefinition } from './model';
+import { droneModel } from './models/drone';
+import { taipei101Model } from './models/taipei101';
+
+// --- 模型註冊表 ---
+// 新的積木作品只需要寫一個生成器並在這裡註冊，不必複製整個頁面
+const models = new Map<string, BrickModelDefinition>();
+
+export const registerModel = (model: BrickModelDefinition) => {
+  if (models.has(model.id)) {
+    throw new Error(`Brick model "${model.id}" is already registered`);
+  }
+  models.set(model.id, model);
+};
+
+export const getModel = (id: string) => {
+  const model = models.get(id);
+  if (!model) throw new Error(`Unknown brick model "${id}"`);
+  return model;
+};
+
+export const listModels = () => Array.from(models.values());
+
+registerModel(droneModel);
+registerModel(taipei101Model);
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { BRICK_HEIGHT, BrickData, PLATE_HEIGHT, STUD } from './model';
+import { analyzeStructure } from './structure';
+
+// 以凸起 / 薄板為單位擺放：x、z 為底面左前角，y 為底面高度 (薄板數)
+const brick = (id: string, x: number, y: number, z: number, w: number, h: number, d: number): BrickData => ({
+  id,
+  pos: [(x + w / 2) * STUD, y * PLATE_HEIGHT + h / 2, (z + d / 2) * STUD],
+  size: [w * STUD, h, d * STUD],
+  color: '#B40000',
+  stage: 0
+});
+
+// 懸臂：2x2 的兩層底座，上面往 +X 伸出兩片 1x4 薄板，末端再放一顆 1x1
+const cantilever = [
+  brick('base', 0, 0, 0, 2, BRICK_HEIGHT, 2),
+  brick('column', 0, 3, 0, 2, BRICK_HEIGHT, 2),
+  brick('arm', 0, 6, 0, 4, PLATE_HEIGHT, 1),
+  brick('arm2', 3, 7, 0, 4, PLATE_HEIGHT, 1),
+  brick('tip', 6, 8, 0, 1, BRICK_HEIGHT, 1)
+];
+const ids = (bricks: BrickData[], indices: number[]) => indices.map(i => bricks[i].id).sort();
+
+describe('analyzeStructure', () => {
+  it('finds the weak points of a cantilevered arm', () => {
+    const report = analyzeStructure(cantilever);
+    expect(report.connections.map(c => [...ids(cantilever, [c.a, c.b]), c.studs, c.kind])).toEqual([
+      ['base', 'column', 4, 'studs'],
+      ['arm', 'column', 2, 'studs'],
+      ['arm', 'arm2', 1, 'studs'],
+      ['arm2', 'tip', 1, 'studs']
+    ]);
+    expect(report.components).toHaveLength(1);
+    expect(report.isolated).toEqual([]);
+    expect(report.detached).toEqual([]);
+    // 鏈狀結構：每個連接都是橋，兩端各只有一個連接
+    expect(report.bridges).toHaveLength(4);
+    expect(ids(cantilever, report.weakBricks)).toEqual(['base', 'tip']);
+    expect(report.scores[cantilever.findIndex(b => b.id === 'tip')]).toBe(0.8);
+
+    // 重心超出 2x2 底座一點點：會往伸出的方向倒
+    const volumes = cantilever.map(b => b.size[0] * b.size[1] * b.size[2]);
+    const comX = cantilever.reduce((sum, b, i) => sum + b.pos[0] * volumes[i], 0) / volumes.reduce((a, b) => a + b, 0);
+    expect(report.tipMargin).toBeCloseTo(2 * STUD - comX, 6);
+    expect(report.tipMargin).toBeLessThan(0);
+    expect(analyzeStructure(cantilever.slice(0, 3)).tipMargin).toBeGreaterThan(0);
+  });
+
+  it('counts embedded bricks as connected', () => {
+    // 半嵌進柱子側面的裝飾，沒有上下疊合
+    const trim = brick('trim', 1.5, 4, 0.5, 1, PLATE_HEIGHT, 1);
+    const bricks = [...cantilever, trim];
+    const report = analyzeStructure(bricks);
+    const embedded = report.connections.filter(c => c.kind === 'embedded');
+    expect(embedded.map(c => ids(bricks, [c.a, c.b]))).toEqual([['column', 'trim']]);
+    expect(report.components).toHaveLength(1);
+    expect(ids(bricks, report.weakBricks)).toContain('trim');
+  });
+
+  it('tells unconnected bricks apart from other components', () => {
+    const bricks = [
+      ...cantilever,
+      brick('loose', 10, 6, 0, 1, BRICK_HEIGHT, 1),
+      brick('pair-lower', 14, 6, 0, 2, PLATE_HEIGHT, 2),
+      brick('pair-upper', 14, 7, 0, 2, PLATE_HEIGHT, 2)
+    ];
+    const report = analyzeStructure(bricks);
+    expect(report.components[report.mainComponent]).toHaveLength(cantilever.length);
+    expect(ids(bricks, report.isolated)).toEqual(['loose']);
+    expect(ids(bricks, report.detached)).toEqual(['pair-lower', 'pair-upper']);
+    expect(report.scores.slice(cantilever.length)).toEqual([1, 0.9, 0.9]);
+  });
+});
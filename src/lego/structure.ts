@@ -0,0 +1,222 @@
+import * as THREE from 'three';
+import { BrickData, PLATE_HEIGHT, STUD, getStudGrid } from './model';
+import { brickToOBB, forEachNearbyPair, obbBounds, obbSeparation } from './obb';
+
+// --- 結構連接圖與穩定度分析 ---
+// 下層積木的頂面 (凸起) 與上層積木的底面 (管柱) 貼合且重疊時視為相連；
+// 模型裡刻意互相嵌入的積木 (物理模擬中「熔接」的配對) 也視為相連。
+// 依此找出連通塊、只靠一個連接點掛著的零件，以及整體重心是否落在底座範圍內
+
+export type Connection = {
+  a: number;
+  b: number;
+  studs: number;
+  kind: 'studs' | 'embedded'; // 凸起扣合 / 互相嵌入
+};
+
+export type StructureReport = {
+  connections: Connection[];
+  components: number[][];    // 每個連通塊包含的積木索引
+  mainComponent: number;     // 最大的連通塊 (模型主體)
+  isolated: number[];        // 沒有任何連接、也不在地面上的積木
+  detached: number[];        // 與其他積木相連，但屬於主體以外的連通塊
+  weakBricks: number[];      // 只有一個連接的積木
+  bridges: Connection[];     // 移除後模型會斷開的連接
+  scores: number[];          // 每顆積木的弱點分數 (0 穩固 ~ 1 脫落)
+  centerOfMass: THREE.Vector3;
+  footprint: [number, number][]; // 底座凸包 (XZ)
+  tipMargin: number;         // 重心到底座邊緣的距離，負值表示會傾倒
+};
+
+const FACE_TOLERANCE = 1e-3;
+// 上下錯位在半片薄板以內仍視為扣合 (穿插的部分交給模型檢查回報)
+const CONTACT_TOLERANCE = PLATE_HEIGHT / 2 + FACE_TOLERANCE;
+// 穿插超過這個深度才算嵌入 (與物理模擬的熔接門檻相同)
+const EMBED_DEPTH = 0.005;
+
+// 重疊範圍內大約有幾顆凸起相扣
+const overlapStuds = (overlapX: number, overlapZ: number) =>
+  Math.max(1, Math.round(overlapX / STUD)) * Math.max(1, Math.round(overlapZ / STUD));
+
+export const buildConnectionGraph = (bricks: BrickData[]) => {
+  const obbs = bricks.map(brickToOBB);
+  const bounds = obbs.map(obbBounds);
+  const connections: Connection[] = [];
+
+  forEachNearbyPair(obbs, CONTACT_TOLERANCE, (i, j) => {
+    const [lower, upper] = bounds[i].max[1] <= bounds[j].max[1] ? [i, j] : [j, i];
+    const lb = bounds[lower];
+    const ub = bounds[upper];
+    const overlapX = Math.min(lb.max[0], ub.max[0]) - Math.max(lb.min[0], ub.min[0]);
+    const overlapZ = Math.min(lb.max[2], ub.max[2]) - Math.max(lb.min[2], ub.min[2]);
+
+    // 上下疊合：平滑磚頂面沒有凸起無法往上接，且至少要蓋住半顆凸起才扣得住
+    if (Math.abs(lb.max[1] - ub.min[1]) <= CONTACT_TOLERANCE && getStudGrid(bricks[lower])
+      && overlapX >= STUD / 2 && overlapZ >= STUD / 2) {
+      connections.push({ a: i, b: j, studs: overlapStuds(overlapX, overlapZ), kind: 'studs' });
+      return;
+    }
+    // 互相嵌入 (例如嵌在機身裡的裝飾、插進機臂的馬達座)
+    if (obbSeparation(obbs[i], obbs[j]).separation < -EMBED_DEPTH) {
+      connections.push({ a: i, b: j, studs: overlapStuds(Math.max(overlapX, 0), Math.max(overlapZ, 0)), kind: 'embedded' });
+    }
+  });
+
+  return connections;
+};
+
+// 以 Tarjan 演算法找出橋 (bridge)
+const findBridges = (count: number, adjacency: { to: number; edge: number }[][]) => {
+  const order = new Array(count).fill(-1);
+  const low = new Array(count).fill(0);
+  const bridges: number[] = [];
+  let time = 0;
+
+  const visit = (node: number, parentEdge: number) => {
+    order[node] = low[node] = time++;
+    adjacency[node].forEach(({ to, edge }) => {
+      if (edge === parentEdge) return;
+      if (order[to] === -1) {
+        visit(to, edge);
+        low[node] = Math.min(low[node], low[to]);
+        if (low[to] > order[node]) bridges.push(edge);
+      } else {
+        low[node] = Math.min(low[node], order[to]);
+      }
+    });
+  };
+
+  for (let i = 0; i < count; i++) {
+    if (order[i] === -1) visit(i, -1);
+  }
+  return bridges;
+};
+
+// 凸包 (Andrew's monotone chain)
+const convexHull = (points: [number, number][]) => {
+  const sorted = [...points].sort((p, q) => p[0] - q[0] || p[1] - q[1]);
+  if (sorted.length < 3) return sorted;
+  const cross = (o: [number, number], a: [number, number], b: [number, number]) =>
+    (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+  const lower: [number, number][] = [];
+  sorted.forEach(p => {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+    lower.push(p);
+  });
+  const upper: [number, number][] = [];
+  [...sorted].reverse().forEach(p => {
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+    upper.push(p);
+  });
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+};
+
+// 點到凸包邊緣的帶號距離 (內部為正)
+const hullMargin = (hull: [number, number][], x: number, z: number) => {
+  if (hull.length < 3) return -Infinity;
+  let margin = Infinity;
+  hull.forEach((a, i) => {
+    const b = hull[(i + 1) % hull.length];
+    const ex = b[0] - a[0];
+    const ez = b[1] - a[1];
+    const length = Math.hypot(ex, ez) || 1;
+    // 逆時針凸包：左側為內部
+    margin = Math.min(margin, (ex * (z - a[1]) - ez * (x - a[0])) / length);
+  });
+  return margin;
+};
+
+export const analyzeStructure = (bricks: BrickData[]): StructureReport => {
+  const connections = buildConnectionGraph(bricks);
+  const adjacency = bricks.map(() => [] as { to: number; edge: number }[]);
+  connections.forEach((c, edge) => {
+    adjacency[c.a].push({ to: c.b, edge });
+    adjacency[c.b].push({ to: c.a, edge });
+  });
+
+  // 連通塊
+  const componentOf = new Array(bricks.length).fill(-1);
+  const components: number[][] = [];
+  bricks.forEach((_, start) => {
+    if (componentOf[start] !== -1) return;
+    const members: number[] = [];
+    const stack = [start];
+    componentOf[start] = components.length;
+    while (stack.length) {
+      const node = stack.pop()!;
+      members.push(node);
+      adjacency[node].forEach(({ to }) => {
+        if (componentOf[to] === -1) {
+          componentOf[to] = components.length;
+          stack.push(to);
+        }
+      });
+    }
+    components.push(members);
+  });
+
+  // 最大的連通塊視為主體，其他都是會掉下來的零件
+  let mainComponent = 0;
+  components.forEach((members, ci) => {
+    if (members.length > components[mainComponent].length) mainComponent = ci;
+  });
+
+  // 地面 = 模型最低點
+  const bottoms = bricks.map(b => b.pos[1] - b.size[1] / 2);
+  const groundY = Math.min(...bottoms);
+  const onGround = bricks.map((_, i) => bottoms[i] <= groundY + FACE_TOLERANCE);
+
+  const bridges = findBridges(bricks.length, adjacency).map(e => connections[e]);
+  const bridgeEnds = new Set(bridges.flatMap(c => [c.a, c.b]));
+  const weakBricks = bricks.map((_, i) => i).filter(i => adjacency[i].length === 1);
+
+  // 孤立的積木 (放在地上的除外) 與屬於其他連通塊的積木分開列出
+  const isolated = bricks.map((_, i) => i).filter(i => adjacency[i].length === 0 && !onGround[i]);
+  const detached = bricks.map((_, i) => i).filter(i => adjacency[i].length > 0 && componentOf[i] !== mainComponent);
+
+  // 弱點分數：未相連 > 其他連通塊 > 單一連接 > 橋的端點 > 只扣一顆凸起
+  const scores = bricks.map((_, i) => {
+    if (adjacency[i].length === 0) return onGround[i] ? 0 : 1;
+    if (componentOf[i] !== mainComponent) return 0.9;
+    if (adjacency[i].length === 1 && !onGround[i]) return 0.8;
+    if (bridgeEnds.has(i)) return 0.6;
+    const studs = adjacency[i].reduce((n, { edge }) => n + connections[edge].studs, 0);
+    return studs <= 1 ? 0.4 : 0;
+  });
+
+  // 重心 (質量與體積成正比) 與底座凸包
+  const centerOfMass = new THREE.Vector3();
+  let mass = 0;
+  bricks.forEach(b => {
+    const m = b.size[0] * b.size[1] * b.size[2];
+    centerOfMass.addScaledVector(new THREE.Vector3(...b.pos), m);
+    mass += m;
+  });
+  if (mass > 0) centerOfMass.divideScalar(mass);
+
+  const basePoints: [number, number][] = [];
+  bricks.forEach((b, i) => {
+    if (!onGround[i]) return;
+    const box = obbBounds(brickToOBB(b));
+    basePoints.push([box.min[0], box.min[2]], [box.max[0], box.min[2]], [box.max[0], box.max[2]], [box.min[0], box.max[2]]);
+  });
+  const footprint = convexHull(basePoints);
+
+  return {
+    connections,
+    components,
+    mainComponent,
+    isolated,
+    detached,
+    weakBricks,
+    bridges,
+    scores,
+    centerOfMass,
+    footprint,
+    tipMargin: hullMargin(footprint, centerOfMass.x, centerOfMass.z)
+  };
+};
+
+// 熱度圖顏色：綠 (穩固) → 黃 → 紅 (脆弱)
+export const heatColor = (score: number) =>
+  `#${new THREE.Color().setHSL((1 - score) * 0.33, 0.9, 0.5).getHexString()}`;
@@ -0,0 +1,59 @@
+import * as THREE from 'three';
+import { BrickData } from './model';
+import { LEGO_COLORS, LegoColor, findByHex, nearestLegoColor } from './palette';
+
+// --- 配色主題 ---
+// 透過 BrickInstances 的 colorOf 即時換色，不改動模型資料 (零件表與匯出仍是原色)
+
+export type ColorTheme = {
+  id: string;
+  label: string;
+  recolor?: (color: string) => string; // 沒有 recolor 表示維持原色
+};
+
+const isTransparent = (color: string) => !!findByHex(color)?.transparent;
+
+// 依亮度把原本的顏色對應到一組由暗到亮的官方色，透明件換成指定的透明色
+const rampTheme = (id: string, label: string, ramp: LegoColor[], transparent: LegoColor): ColorTheme => {
+  const cache = new Map<string, string>();
+  const tmp = new THREE.Color();
+  return {
+    id,
+    label,
+    recolor: color => {
+      let result = cache.get(color);
+      if (!result) {
+        if (isTransparent(color)) {
+          result = transparent.hex;
+        } else {
+          const { r, g, b } = tmp.set(color).convertLinearToSRGB();
+          const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+          result = ramp[Math.min(ramp.length - 1, Math.floor(luminance * ramp.length))].hex;
+        }
+        cache.set(color, result);
+      }
+      return result;
+    }
+  };
+};
+
+export const THEMES: ColorTheme[] = [
+  { id: 'original', label: '原色' },
+  // 匯入的模型 (LDraw 直接色、體素化貼圖) 換成最接近的官方色
+  { id: 'official', label: '官方色', recolor: color => nearestLegoColor(color, isTransparent(color)).hex },
+  rampTheme('classic', '經典灰',
+    [LEGO_COLORS.BLACK, LEGO_COLORS.DARK_BLUISH_GREY, LEGO_COLORS.LIGHT_BLUISH_GREY, LEGO_COLORS.WHITE],
+    LEGO_COLORS.TRANS_CLEAR),
+  rampTheme('gold', '黃金',
+    [LEGO_COLORS.REDDISH_BROWN, LEGO_COLORS.PEARL_GOLD, LEGO_COLORS.PEARL_GOLD, LEGO_COLORS.BRIGHT_LIGHT_YELLOW],
+    LEGO_COLORS.TRANS_YELLOW),
+  rampTheme('navy', '海軍藍',
+    [LEGO_COLORS.DARK_BLUE, LEGO_COLORS.BLUE, LEGO_COLORS.MEDIUM_AZURE, LEGO_COLORS.WHITE],
+    LEGO_COLORS.TRANS_LIGHT_BLUE)
+];
+
+export const nextTheme = (theme: ColorTheme) => THEMES[(THEMES.indexOf(theme) + 1) % THEMES.length];
+
+// 給 colorOf 使用的換色函式 (原色主題回傳 undefined)
+export const themeColorOf = (theme: ColorTheme) =>
+  theme.recolor ? (brick: BrickData) => theme.recolor!(brick.color) : undefined;
@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+
+// --- 組裝時間軸 ---
+// 時間以「階段」為單位：time = k 時第 k 階段的積木開始起飛，time = duration 時全部落定。
+// 積木位置完全由 time 決定 (見 flightProgress)，播放、暫停、倒帶、拖曳都只是改變 time
+
+export type TimelineState = {
+  time: number;
+  playing: boolean;
+  direction: 1 | -1;     // 1 = 組裝、-1 = 倒帶拆解
+  speed: number;         // 組裝倍速
+  teardownSpeed: number; // 拆解倍速
+};
+
+export type TimelineEvent =
+  | { type: 'stage', stage: number, direction: 1 | -1 } // 跨過階段邊界 (正向：開始組裝該階段；反向：該階段被拆回)
+  | { type: 'complete' }                                 // 組裝到底
+  | { type: 'rewound' };                                 // 倒帶回起點
+
+export type TimelineConfig = {
+  duration: number;
+  maxStage: number;
+  stagesPerSecond: number; // 1 倍速時每秒前進的階段數
+};
+
+export const TIMELINE_SPEEDS = [0.25, 0.5, 1, 2, 4];
+// 拆解倍速 (預設比組裝快)
+export const TEARDOWN_SPEEDS = [0.5, 1, 2, 3, 5];
+
+export const INITIAL_TIMELINE: TimelineState = { time: 0, playing: false, direction: 1, speed: 1, teardownSpeed: 3 };
+
+// from → to 之間跨過的階段邊界 (依經過的順序)
+export const crossedStages = (from: number, to: number, maxStage: number) => {
+  const stages: number[] = [];
+  if (to > from) {
+    for (let k = Math.floor(from) + 1; k <= Math.min(Math.floor(to), maxStage); k++) stages.push(k);
+  } else {
+    for (let k = Math.min(Math.floor(from), maxStage); k > Math.floor(to); k--) stages.push(k);
+  }
+  return stages;
+};
+
+// 把時間移到 to (夾在 0 ~ duration 之間)，並列出途中發生的事件
+export const moveTimeline = (state: TimelineState, to: number, config: TimelineConfig) => {
+  const from = state.time;
+  const time = Math.min(Math.max(to, 0), config.duration);
+  const direction: 1 | -1 = time >= from ? 1 : -1;
+  const events: TimelineEvent[] = crossedStages(from, time, config.maxStage)
+    .map((stage): TimelineEvent => ({ type: 'stage', stage, direction }));
+  if (from < config.duration && time >= config.duration) events.push({ type: 'complete' });
+  if (from > 0 && time <= 0) events.push({ type: 'rewound' });
+  return { state: { ...state, time }, events };
+};
+
+// 播放中前進 delta 秒，走到盡頭自動停止
+export const advanceTimeline = (state: TimelineState, delta: number, config: TimelineConfig) => {
+  if (!state.playing) return { state, events: [] as TimelineEvent[] };
+  const rate = config.stagesPerSecond * (state.direction < 0 ? -state.teardownSpeed : state.speed);
+  const moved = moveTimeline(state, state.time + delta * rate, config);
+  const atEnd = state.direction > 0 ? moved.state.time >= config.duration : moved.state.time <= 0;
+  // 倒帶回起點後，下次播放改回正向
+  const direction: 1 | -1 = atEnd ? 1 : state.direction;
+  return { state: { ...moved.state, playing: !atEnd, direction }, events: moved.events };
+};
+
+export const currentStage = (time: number, maxStage: number) => Math.min(Math.max(Math.floor(time), 0), maxStage);
+
+// --- React hook ---
+// 頁面持有時間軸；場景內的模型以 useTimelineClock 推進，底部的 TimelineBar 負責操作
+export const useAssemblyTimeline = ({ duration, maxStage, stagesPerSecond, onEvent }: TimelineConfig & {
+  onEvent?: (event: TimelineEvent) => void
+}) => {
+  const [state, setState] = useState(INITIAL_TIMELINE);
+  // 每幀推進時以 ref 為準，避免同一幀內的多次操作讀到舊的 state
+  const stateRef = useRef(state);
+  const configRef = useRef<TimelineConfig>({ duration, maxStage, stagesPerSecond });
+  configRef.current = { duration, maxStage, stagesPerSecond };
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  const commit = useCallback((next: TimelineState, events: TimelineEvent[] = []) => {
+    stateRef.current = next;
+    setState(next);
+    events.forEach(event => onEventRef.current?.(event));
+  }, []);
+
+  const seek = useCallback((time: number) => {
+    const moved = moveTimeline(stateRef.current, time, configRef.current);
+    commit(moved.state, moved.events);
+  }, [commit]);
+
+  const tick = useCallback((delta: number) => {
+    if (!stateRef.current.playing) return;
+    const advanced = advanceTimeline(stateRef.current, delta, configRef.current);
+    commit(advanced.state, advanced.events);
+  }, [commit]);
+
+  // 播放 (正向組裝)；已組裝到底時從頭開始
+  const play = useCallback(() => {
+    if (stateRef.current.time >= configRef.current.duration) seek(0);
+    commit({ ...stateRef.current, playing: true, direction: 1 });
+  }, [commit, seek]);
+
+  // 倒帶拆解：依階段反向，最後裝上的積木最先拆下
+  const rewind = useCallback(() => {
+    if (stateRef.current.time > 0) commit({ ...stateRef.current, playing: true, direction: -1 });
+  }, [commit]);
+
+  const pause = useCallback(() => commit({ ...stateRef.current, playing: false }), [commit]);
+
+  const toggle = useCallback(() => {
+    const { playing, direction } = stateRef.current;
+    if (playing) pause();
+    else if (direction > 0) play();
+    else rewind();
+  }, [pause, play, rewind]);
+
+  const setSpeed = useCallback((speed: number) => commit({ ...stateRef.current, speed }), [commit]);
+  const setTeardownSpeed = useCallback((teardownSpeed: number) => commit({ ...stateRef.current, teardownSpeed }), [commit]);
+
+  // 回到起點並停止 (積木直接回到散落位置)
+  const reset = useCallback(() => {
+    seek(0);
+    commit({ ...stateRef.current, playing: false, direction: 1 });
+  }, [commit, seek]);
+
+  // 模型改變 (例如合併最佳化) 後總長度可能變短
+  useEffect(() => {
+    if (stateRef.current.time > duration) seek(duration);
+  }, [duration, seek]);
+
+  return useMemo(() => ({
+    ...state,
+    duration,
+    maxStage,
+    stage: currentStage(state.time, maxStage),
+    complete: state.time >= duration,
+    teardown: state.direction < 0,
+    tick, seek, play, pause, toggle, rewind, setSpeed, setTeardownSpeed, reset,
+    jumpToStage: (stage: number) => seek(Math.min(Math.max(stage, 0), maxStage))
+  }), [state, duration, maxStage, tick, seek, play, pause, toggle, rewind, setSpeed, setTeardownSpeed, reset]);
+};
+
+export type AssemblyTimeline = ReturnType<typeof useAssemblyTimeline>;
+
+// 在 Canvas 內每幀推進時間軸
+export const useTimelineClock = (timeline: Pick<AssemblyTimeline, 'tick'>) => {
+  const { tick } = timeline;
+  useFrame((state, delta) => tick(delta));
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { BRICK_HEIGHT, BrickData, STUD } from './model';
+import { collectIssues, validateModel } from './validate';
+
+// 2x2 基本磚，x、z 為底面左前角 (凸起)、level 為第幾層
+const brick = (id: string, x: number, z: number, level: number): BrickData => ({
+  id,
+  pos: [(x + 1) * STUD, (level + 0.5) * BRICK_HEIGHT, (z + 1) * STUD],
+  size: [2 * STUD, BRICK_HEIGHT, 2 * STUD],
+  color: '#B40000',
+  stage: level
+});
+
+describe('validateModel', () => {
+  it('accepts a stacked wall', () => {
+    const report = validateModel([brick('a', 0, 0, 0), brick('b', 2, 0, 0), brick('c', 1, 0, 1)]);
+    expect(report).toEqual({ overlaps: [], floating: [], offGrid: [] });
+  });
+
+  it('reports overlapping, floating and off-grid bricks', () => {
+    const offGrid = brick('d', 6, 0, 0);
+    offGrid.pos[0] += STUD / 2;
+    const report = validateModel([
+      brick('a', 0, 0, 0),
+      brick('b', 1, 0, 0), // 與 a 重疊一個凸起
+      brick('c', 0, 0, 3), // 懸在半空
+      offGrid
+    ]);
+    expect(report.overlaps.map(o => [o.a, o.b])).toEqual([['a', 'b']]);
+    expect(report.overlaps[0].depth).toBeCloseTo(STUD, 6);
+    expect(report.floating).toEqual(['c']);
+    expect(report.offGrid).toEqual([{ id: 'd', axes: ['x'] }]);
+    expect(collectIssues(report)).toEqual(new Map([['d', 'warning'], ['a', 'error'], ['b', 'error'], ['c', 'error']]));
+  });
+
+  it('skips the grid check for freely rotated bricks', () => {
+    const rotated = { ...brick('r', 0, 0, 0), rotation: [0, 0.3, 0] as BrickData['rotation'] };
+    rotated.pos[0] += STUD / 3;
+    expect(validateModel([rotated]).offGrid).toEqual([]);
+  });
+});
@@ -0,0 +1,75 @@
+import { BrickData, PLATE_HEIGHT, STUD, getBounds } from './model';
+import { brickToOBB, forEachNearbyPair, obbSeparation } from './obb';
+
+// --- 積木模型檢查 ---
+// 找出互相穿插的積木、沒有接觸任何東西的懸空積木，以及不在凸起網格上的積木。
+// 純函式，可直接在測試中呼叫，也用於檢視器的紅色標示
+
+export type Overlap = { a: string; b: string; depth: number };
+export type OffGrid = { id: string; axes: ('x' | 'y' | 'z')[] };
+
+export type ValidationReport = {
+  overlaps: Overlap[];
+  floating: string[];
+  offGrid: OffGrid[];
+};
+
+export type ValidationOptions = {
+  overlapTolerance?: number; // 小於此深度的重疊視為貼合
+  contactTolerance?: number; // 小於此間隙視為接觸
+  checkVerticalGrid?: boolean;
+};
+
+const onGrid = (value: number, step: number) => {
+  const units = value / step;
+  return Math.abs(units - Math.round(units)) < 1e-3;
+};
+
+export const validateModel = (bricks: BrickData[], options: ValidationOptions = {}): ValidationReport => {
+  const overlapTolerance = options.overlapTolerance ?? 1e-3;
+  const contactTolerance = options.contactTolerance ?? 1e-3;
+  const checkVerticalGrid = options.checkVerticalGrid ?? true;
+
+  const obbs = bricks.map(brickToOBB);
+  const overlaps: Overlap[] = [];
+  const touching = new Set<number>();
+
+  forEachNearbyPair(obbs, contactTolerance, (i, j) => {
+    const { separation } = obbSeparation(obbs[i], obbs[j]);
+    if (separation <= contactTolerance) {
+      touching.add(i);
+      touching.add(j);
+    }
+    if (separation < -overlapTolerance) {
+      overlaps.push({ a: bricks[i].id, b: bricks[j].id, depth: -separation });
+    }
+  });
+
+  // 最底層的積木放在地面上，不算懸空
+  const groundY = getBounds(bricks).min[1];
+  const floating = bricks
+    .filter((b, i) => !touching.has(i) && b.pos[1] - b.size[1] / 2 > groundY + contactTolerance)
+    .map(b => b.id);
+
+  // 網格檢查只針對沒有任意旋轉的積木：底面角落需落在凸起間距上，底部高度需落在薄板高度上
+  const offGrid: OffGrid[] = [];
+  bricks.forEach(b => {
+    if (b.rotation && b.rotation.some(r => !onGrid(r, Math.PI / 2))) return;
+    const axes: OffGrid['axes'] = [];
+    if (!onGrid(b.pos[0] - b.size[0] / 2, STUD)) axes.push('x');
+    if (checkVerticalGrid && !onGrid(b.pos[1] - b.size[1] / 2, PLATE_HEIGHT)) axes.push('y');
+    if (!onGrid(b.pos[2] - b.size[2] / 2, STUD)) axes.push('z');
+    if (axes.length) offGrid.push({ id: b.id, axes });
+  });
+
+  return { overlaps, floating, offGrid };
+};
+
+// 檢視器標示用：每顆有問題的積木對應的嚴重程度
+export const collectIssues = (report: ValidationReport) => {
+  const issues = new Map<string, 'error' | 'warning'>();
+  report.offGrid.forEach(o => issues.set(o.id, 'warning'));
+  report.overlaps.forEach(o => { issues.set(o.a, 'error'); issues.set(o.b, 'error'); });
+  report.floating.forEach(id => issues.set(id, 'error'));
+  return issues;
+};
@@ -0,0 +1,205 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { BRICK_HEIGHT, BrickData, STUD } from './model';
+import { nearestLegoColor } from './palette';
+
+// --- 3D 模型體素化 ---
+// 把 glTF / OBJ 網格的表面取樣到以凸起為單位的網格上，每個格子輸出一顆 1x1 積木，
+// 顏色取自材質顏色、頂點顏色或貼圖並換成最接近的官方色，由下往上一層一個組裝階段 (同 generateTaipei101)
+
+export type VoxelizeOptions = {
+  resolution?: number; // 模型最長邊切成幾顆凸起
+};
+
+export type VoxelizeResult = {
+  bricks: BrickData[];
+  size: [number, number, number]; // 格子數 (寬, 高, 深)
+};
+
+export const MESH_FILE_PATTERN = /\.(glb|gltf|obj)$/i;
+
+// --- 讀檔 ---
+// 只支援單一檔案：.gltf 的外部 .bin / 貼圖無法一起讀入，建議使用 .glb
+export const loadMeshFile = async (file: File): Promise<THREE.Object3D> => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.obj')) {
+    return new OBJLoader().parse(await file.text());
+  }
+  const data = name.endsWith('.glb') ? await file.arrayBuffer() : await file.text();
+  return new Promise((resolve, reject) => {
+    new GLTFLoader().parse(data, '', gltf => resolve(gltf.scene), err => reject(err));
+  });
+};
+
+// --- 顏色取樣 ---
+const textureCache = new WeakMap<THREE.Texture, ImageData | null>();
+
+const readTexture = (texture: THREE.Texture) => {
+  if (textureCache.has(texture)) return textureCache.get(texture)!;
+  let data: ImageData | null = null;
+  const image = texture.image as CanvasImageSource & { width: number, height: number } | undefined;
+  if (image && image.width && image.height && typeof document !== 'undefined') {
+    const canvas = document.createElement('canvas');
+    canvas.width = image.width;
+    canvas.height = image.height;
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+      ctx.drawImage(image, 0, 0);
+      data = ctx.getImageData(0, 0, image.width, image.height);
+    }
+  }
+  textureCache.set(texture, data);
+  return data;
+};
+
+const sampleTexture = (texture: THREE.Texture, uv: THREE.Vector2, out: THREE.Color) => {
+  const data = readTexture(texture);
+  if (!data) return false;
+  const u = uv.x - Math.floor(uv.x);
+  const v = uv.y - Math.floor(uv.y);
+  const x = Math.min(data.width - 1, Math.floor(u * data.width));
+  const y = Math.min(data.height - 1, Math.floor((texture.flipY ? 1 - v : v) * data.height));
+  const i = (y * data.width + x) * 4;
+  // 貼圖為 sRGB，換成線性色再與材質顏色相乘
+  out.setRGB(data.data[i] / 255, data.data[i + 1] / 255, data.data[i + 2] / 255, THREE.SRGBColorSpace);
+  return true;
+};
+
+type Sampler = (bary: THREE.Vector3, out: THREE.Color) => void;
+
+// 針對一個三角形建立顏色取樣函式：材質顏色 × 頂點顏色 × 貼圖
+const createSampler = (
+  material: THREE.Material,
+  geometry: THREE.BufferGeometry,
+  indices: [number, number, number]
+): Sampler => {
+  const base = (material as THREE.MeshStandardMaterial).color?.clone() ?? new THREE.Color('#cccccc');
+  const map = (material as THREE.MeshStandardMaterial).map ?? null;
+  const colors = geometry.getAttribute('color');
+  const uvs = geometry.getAttribute('uv');
+  const vertexColors = (material as THREE.MeshStandardMaterial).vertexColors && colors
+    ? indices.map(i => new THREE.Color(colors.getX(i), colors.getY(i), colors.getZ(i)))
+    : null;
+  const triangleUvs = map && uvs ? indices.map(i => new THREE.Vector2(uvs.getX(i), uvs.getY(i))) : null;
+  const uv = new THREE.Vector2();
+  const texel = new THREE.Color();
+
+  return (bary, out) => {
+    out.copy(base);
+    if (vertexColors) {
+      out.multiply(texel.setRGB(
+        vertexColors[0].r * bary.x + vertexColors[1].r * bary.y + vertexColors[2].r * bary.z,
+        vertexColors[0].g * bary.x + vertexColors[1].g * bary.y + vertexColors[2].g * bary.z,
+        vertexColors[0].b * bary.x + vertexColors[1].b * bary.y + vertexColors[2].b * bary.z
+      ));
+    }
+    if (map && triangleUvs) {
+      uv.set(0, 0)
+        .addScaledVector(triangleUvs[0], bary.x)
+        .addScaledVector(triangleUvs[1], bary.y)
+        .addScaledVector(triangleUvs[2], bary.z);
+      if (sampleTexture(map, uv, texel)) out.multiply(texel);
+    }
+  };
+};
+
+// 每個格子累積的顏色票數：取最多的顏色而不是平均，避免交界處混出不存在的顏色
+type Voxel = Map<string, number>;
+
+export const voxelize = (object: THREE.Object3D, options: VoxelizeOptions = {}): VoxelizeResult => {
+  const resolution = options.resolution ?? 32;
+  object.updateMatrixWorld(true);
+
+  const box = new THREE.Box3().setFromObject(object);
+  if (box.isEmpty()) return { bricks: [], size: [0, 0, 0] };
+  const extent = box.getSize(new THREE.Vector3());
+  // 水平一格 = 一顆凸起，垂直一格 = 一塊積木高，依比例換算成模型座標
+  const cell = Math.max(extent.x, extent.y * STUD / BRICK_HEIGHT, extent.z) / resolution;
+  const cellSize = new THREE.Vector3(cell, cell * BRICK_HEIGHT / STUD, cell);
+  const dims: [number, number, number] = [
+    Math.max(1, Math.ceil(extent.x / cellSize.x)),
+    Math.max(1, Math.ceil(extent.y / cellSize.y)),
+    Math.max(1, Math.ceil(extent.z / cellSize.z))
+  ];
+
+  const voxels = new Map<number, Voxel>();
+  const keyOf = (x: number, y: number, z: number) => (y * dims[2] + z) * dims[0] + x;
+  const clampCell = (v: number, n: number) => Math.min(n - 1, Math.max(0, Math.floor(v)));
+
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const p = new THREE.Vector3();
+  const bary = new THREE.Vector3();
+  const color = new THREE.Color();
+
+  object.traverse(child => {
+    const mesh = child as THREE.Mesh;
+    if (!mesh.isMesh) return;
+    const geometry = mesh.geometry;
+    const position = geometry.getAttribute('position');
+    if (!position) return;
+    const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+    const index = geometry.getIndex();
+    const triangleCount = (index ? index.count : position.count) / 3;
+    const groups = geometry.groups.length
+      ? geometry.groups
+      : [{ start: 0, count: triangleCount * 3, materialIndex: 0 }];
+
+    groups.forEach(group => {
+      const material = materials[group.materialIndex ?? 0] ?? materials[0];
+      for (let t = group.start; t < group.start + group.count; t += 3) {
+        const indices: [number, number, number] = index
+          ? [index.getX(t), index.getX(t + 1), index.getX(t + 2)]
+          : [t, t + 1, t + 2];
+        // 轉成以格子為單位的座標
+        [a, b, c].forEach((v, k) => v
+          .fromBufferAttribute(position, indices[k])
+          .applyMatrix4(mesh.matrixWorld)
+          .sub(box.min)
+          .divide(cellSize));
+        const sample = createSampler(material, geometry, indices);
+
+        // 取樣間距小於半格，確保表面不漏洞
+        const steps = Math.max(1, Math.ceil(Math.max(a.distanceTo(b), b.distanceTo(c), c.distanceTo(a)) * 2));
+        for (let i = 0; i <= steps; i++) {
+          for (let j = 0; j <= steps - i; j++) {
+            bary.set(i / steps, j / steps, (steps - i - j) / steps);
+            p.set(0, 0, 0).addScaledVector(a, bary.x).addScaledVector(b, bary.y).addScaledVector(c, bary.z);
+            const key = keyOf(clampCell(p.x, dims[0]), clampCell(p.y, dims[1]), clampCell(p.z, dims[2]));
+            sample(bary, color);
+            const hex = nearestLegoColor(`#${color.getHexString()}`).hex;
+            let voxel = voxels.get(key);
+            if (!voxel) voxels.set(key, voxel = new Map());
+            voxel.set(hex, (voxel.get(hex) ?? 0) + 1);
+          }
+        }
+      }
+    });
+  });
+
+  // 格子 → 積木：置中於原點 (邊緣對齊凸起網格)、底部貼齊地面，一層一個階段
+  const offsetX = Math.floor(dims[0] / 2);
+  const offsetZ = Math.floor(dims[2] / 2);
+  const bricks: BrickData[] = [];
+  voxels.forEach((voxel, key) => {
+    const x = key % dims[0];
+    const z = Math.floor(key / dims[0]) % dims[2];
+    const y = Math.floor(key / (dims[0] * dims[2]));
+    bricks.push({
+      id: `v_${x}_${y}_${z}`,
+      pos: [
+        (x + 0.5 - offsetX) * STUD,
+        (y + 0.5) * BRICK_HEIGHT,
+        (z + 0.5 - offsetZ) * STUD
+      ],
+      size: [STUD, BRICK_HEIGHT, STUD],
+      color: Array.from(voxel.entries()).reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0],
+      stage: y
+    });
+  });
+  bricks.sort((p, q) => p.stage - q.stage);
+
+  return { bricks, size: dims };
+};
@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { BATTERY_ENDURANCES, Battery, BatteryPhase, BatterySettings } from '../flight/battery';
+
+const FONT = '"Microsoft JhengHei", sans-serif';
+
+const PHASE_TEXT: Record<BatteryPhase, string> = {
+  normal: '電量正常',
+  warning: '⚠ 電量偏低，請準備返航',
+  returning: '↩ 電量不足，自動返航中',
+  landing: '⬇ 自動降落中',
+  landed: '已降落，請更換電池',
+  empty: '✕ 電量耗盡，馬達停轉'
+};
+
+const chargeColor = (charge: number, settings: BatterySettings) =>
+  charge <= settings.returnHome ? '#ff3333' : charge <= settings.warn ? '#ffcc00' : '#33cc66';
+
+// --- 電池面板：電量條、預估剩餘時間、狀態，以及續航與門檻設定 ---
+const BatteryPanel = ({ battery, phase, settings, onSettings, onReplace, accent }: {
+  battery: React.MutableRefObject<Battery>,
+  phase: BatteryPhase,
+  settings: BatterySettings,
+  onSettings: (settings: BatterySettings) => void,
+  onReplace: () => void,
+  accent: string
+}) => {
+  const [showSettings, setShowSettings] = useState(false);
+
+  // 電量每幀都在變，只在這個元件裡更新
+  const [charge, setCharge] = useState(1);
+  const [drain, setDrain] = useState(0);
+  useEffect(() => {
+    let rafId: number;
+    const update = () => {
+      setCharge(battery.current.charge);
+      setDrain(battery.current.drain);
+      rafId = requestAnimationFrame(update);
+    };
+    rafId = requestAnimationFrame(update);
+    return () => cancelAnimationFrame(rafId);
+  }, [battery]);
+
+  const color = chargeColor(charge, settings);
+  const slider = (key: 'warn' | 'returnHome', label: string) => (
+    <label style={{ display: 'block' }}>
+      {label} {Math.round(settings[key] * 100)}%
+      <input
+        type="range" min={0} max={0.5} step={0.05}
+        value={settings[key]}
+        onChange={(e) => onSettings({ ...settings, [key]: Number(e.target.value) })}
+        style={{ width: '100%', accentColor: accent }}
+      />
+    </label>
+  );
+
+  return (
+    <div style={{
+      padding: '10px',
+      background: 'rgba(0,0,0,0.6)',
+      border: `1px solid ${phase === 'normal' ? 'rgba(255,255,255,0.1)' : color}`,
+      borderRadius: '4px',
+      color: '#ccc',
+      fontFamily: FONT,
+      fontSize: '0.8rem'
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '4px' }}>
+        <span style={{ color: '#fff' }}>🔋 電池</span>
+        <span style={{ color, fontVariantNumeric: 'tabular-nums' }}>{Math.round(charge * 100)}%</span>
+      </div>
+      <div style={{ height: '8px', background: '#333', borderRadius: '2px', overflow: 'hidden' }}>
+        <div style={{ width: `${charge * 100}%`, height: '100%', background: color }} />
+      </div>
+      <div style={{ marginTop: '4px', display: 'flex', justifyContent: 'space-between' }}>
+        <span style={{ color: phase === 'normal' ? '#888' : color }}>{PHASE_TEXT[phase]}</span>
+        {drain > 0 && <span>約 {Math.ceil(charge / drain)} 秒</span>}
+      </div>
+
+      <div style={{ display: 'flex', gap: '6px', marginTop: '6px' }}>
+        <button
+          onClick={onReplace}
+          style={{ flex: 1, padding: '4px', background: 'rgba(0,0,0,0.6)', color: '#ccc', border: '1px solid rgba(255,255,255,0.2)', borderRadius: '4px', cursor: 'pointer', fontFamily: FONT }}
+        >
+          🔄 更換電池
+        </button>
+        <button
+          onClick={() => setShowSettings(!showSettings)}
+          title="電池設定"
+          style={{ padding: '4px 8px', background: showSettings ? accent : 'rgba(0,0,0,0.6)', color: showSettings ? '#000' : '#ccc', border: '1px solid rgba(255,255,255,0.2)', borderRadius: '4px', cursor: 'pointer' }}
+        >
+          ⚙
+        </button>
+      </div>
+
+      {showSettings && (
+        <div style={{ marginTop: '6px' }}>
+          <label style={{ display: 'block', marginBottom: '4px' }}>
+            懸停續航{' '}
+            <select value={settings.endurance} onChange={(e) => onSettings({ ...settings, endurance: Number(e.target.value) })}>
+              {BATTERY_ENDURANCES.map(s => <option key={s} value={s}>{s / 60} 分鐘</option>)}
+            </select>
+          </label>
+          {slider('warn', '低電量警告')}
+          {slider('returnHome', '自動返航')}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatteryPanel;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { GIMBAL_PITCH_RANGE, GIMBAL_YAW_RANGE, GimbalSettings, PIP } from '../flight/gimbal';
+
+const FONT = '"Microsoft JhengHei", sans-serif';
+
+const buttonStyle = (active: boolean, accent: string): React.CSSProperties => ({
+  flex: 1,
+  padding: '4px 8px',
+  background: active ? accent : 'rgba(0,0,0,0.6)',
+  color: active ? '#000' : '#ccc',
+  border: `1px solid ${active ? accent : 'rgba(255,255,255,0.2)'}`,
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontFamily: FONT,
+  fontSize: '0.8rem'
+});
+
+// --- 航拍畫面的外框與控制列 ---
+// 畫面本身由 Canvas 裡的 GimbalView 畫在同一個位置，這裡只畫框線、標題、切換 / 拍照與雲台角度
+const GimbalPanel = ({ settings, onSettings, fullscreen, onFullscreen, onSnapshot, accent }: {
+  settings: GimbalSettings,
+  onSettings: (settings: GimbalSettings) => void,
+  fullscreen: boolean,
+  onFullscreen: (fullscreen: boolean) => void,
+  onSnapshot: () => void,
+  accent: string
+}) => (
+  <div style={{
+    position: 'absolute',
+    top: PIP.top,
+    right: PIP.right,
+    width: PIP.width,
+    fontFamily: FONT,
+    fontSize: '0.8rem',
+    color: '#ccc'
+  }}>
+    <div style={{
+      position: 'relative',
+      height: PIP.height,
+      boxSizing: 'border-box',
+      border: `1px solid ${accent}`,
+      borderRadius: '4px'
+    }}>
+      <span style={{ position: 'absolute', top: 4, left: 6, color: '#fff', textShadow: '0 0 3px #000' }}>
+        {fullscreen ? '主畫面' : '🎥 航拍畫面'}
+      </span>
+    </div>
+    <div style={{
+      marginTop: '6px',
+      padding: '8px',
+      background: 'rgba(0,0,0,0.7)',
+      border: '1px solid #444',
+      borderRadius: '4px',
+      pointerEvents: 'auto'
+    }}>
+      <div style={{ display: 'flex', gap: '6px', marginBottom: '6px' }}>
+        <button onClick={() => onFullscreen(!fullscreen)} style={buttonStyle(fullscreen, accent)}>⛶ 全螢幕航拍</button>
+        <button onClick={onSnapshot} style={buttonStyle(false, accent)}>📷 拍照</button>
+      </div>
+      <label style={{ display: 'block' }}>
+        雲台俯仰 {settings.pitch}°
+        <input
+          type="range" min={GIMBAL_PITCH_RANGE[0]} max={GIMBAL_PITCH_RANGE[1]} step={1}
+          value={settings.pitch}
+          onChange={(e) => onSettings({ ...settings, pitch: Number(e.target.value) })}
+          style={{ width: '100%', accentColor: accent }}
+        />
+      </label>
+      <label style={{ display: 'block' }}>
+        雲台平移 {settings.yaw}°
+        <input
+          type="range" min={GIMBAL_YAW_RANGE[0]} max={GIMBAL_YAW_RANGE[1]} step={1}
+          value={settings.yaw}
+          onChange={(e) => onSettings({ ...settings, yaw: Number(e.target.value) })}
+          style={{ width: '100%', accentColor: accent }}
+        />
+      </label>
+    </div>
+  </div>
+);
+
+export default GimbalPanel;
@@ -0,0 +1,185 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MISSION_SPEEDS, Mission, MissionProgress, Waypoint, parseMission, serializeMission } from '../flight/mission';
+import { downloadText } from '../download';
+
+const FONT = '"Microsoft JhengHei", sans-serif';
+
+const buttonStyle = (active: boolean, accent: string): React.CSSProperties => ({
+  padding: '6px 10px',
+  background: active ? accent : 'rgba(0,0,0,0.6)',
+  color: active ? '#000' : '#ccc',
+  border: `1px solid ${active ? accent : 'rgba(255,255,255,0.2)'}`,
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontFamily: FONT,
+  fontSize: '0.8rem'
+});
+
+const inputStyle: React.CSSProperties = {
+  width: '52px',
+  background: 'rgba(255,255,255,0.1)',
+  color: '#fff',
+  border: '1px solid #555',
+  borderRadius: '3px'
+};
+
+const progressText = (progress: MissionProgress | null, count: number) => {
+  if (!progress) return count ? '尚未執行' : '點擊「規劃航點」後在地面上點選';
+  if (progress.phase === 'done') return '任務完成';
+  const label = `航點 ${progress.leg + 1} / ${count}`;
+  return progress.phase === 'hover' ? `${label} 懸停中` : `前往${label}`;
+};
+
+// --- 航點任務面板：航點列表 (高度、懸停秒數)、巡航速度、執行與進度、JSON 存檔 ---
+const MissionPanel = ({ mission, onMission, planning, onPlanning, running, onRunning, progress, accent, left = '30px' }: {
+  mission: Mission,
+  onMission: (mission: Mission) => void,
+  planning: boolean,
+  onPlanning: (planning: boolean) => void,
+  running: boolean,
+  onRunning: (running: boolean) => void,
+  progress: React.MutableRefObject<MissionProgress | null>,
+  accent: string,
+  left?: string // 左側有零件表時往右讓開
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState('');
+
+  // 進度每幀都在變，只在這個元件裡更新
+  const [current, setCurrent] = useState<MissionProgress | null>(null);
+  useEffect(() => {
+    let rafId: number;
+    const update = () => {
+      setCurrent(progress.current);
+      rafId = requestAnimationFrame(update);
+    };
+    rafId = requestAnimationFrame(update);
+    return () => cancelAnimationFrame(rafId);
+  }, [progress]);
+
+  const { waypoints } = mission;
+  const updateWaypoint = (index: number, patch: Partial<Waypoint>) =>
+    onMission({ ...mission, waypoints: waypoints.map((w, i) => (i === index ? { ...w, ...patch } : w)) });
+  const removeWaypoint = (index: number) =>
+    onMission({ ...mission, waypoints: waypoints.filter((_, i) => i !== index) });
+
+  const importMission = async (file: File) => {
+    try {
+      const loaded = parseMission(await file.text());
+      onRunning(false);
+      onMission(loaded);
+      setMessage(`已載入 ${loaded.waypoints.length} 個航點`);
+    } catch (err) {
+      setMessage(`無法讀取 ${file.name}：${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '50%',
+      left,
+      transform: 'translateY(-50%)',
+      width: '260px',
+      maxHeight: '60%',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '8px',
+      padding: '15px',
+      background: 'rgba(0,0,0,0.7)',
+      border: '1px solid #444',
+      borderRadius: '8px',
+      color: '#ccc',
+      fontFamily: FONT,
+      fontSize: '0.85rem',
+      pointerEvents: 'auto'
+    }}>
+      <h3 style={{ margin: 0, color: '#fff' }}>航點任務</h3>
+
+      {/* 任務進度 */}
+      <div>
+        <div style={{ height: '6px', background: '#333', borderRadius: '3px', overflow: 'hidden' }}>
+          <div style={{ width: `${(current?.fraction ?? 0) * 100}%`, height: '100%', background: accent }} />
+        </div>
+        <div style={{ marginTop: '4px', display: 'flex', justifyContent: 'space-between' }}>
+          <span>{progressText(current, waypoints.length)}</span>
+          {current && current.phase !== 'done' && <span>剩餘 {current.remaining.toFixed(1)} 秒</span>}
+        </div>
+      </div>
+
+      <div style={{ display: 'flex', gap: '6px' }}>
+        <button onClick={() => onPlanning(!planning)} style={{ ...buttonStyle(planning, accent), flex: 1 }}>
+          📍 規劃航點
+        </button>
+        <button
+          onClick={() => onRunning(!running)}
+          disabled={!waypoints.length}
+          style={{ ...buttonStyle(running, accent), flex: 1, opacity: waypoints.length ? 1 : 0.5 }}
+        >
+          {running ? '⏹ 停止' : '▶ 執行'}
+        </button>
+      </div>
+
+      {/* 航點列表 */}
+      <div style={{ overflowY: 'auto', minHeight: 0 }}>
+        {waypoints.map((waypoint, i) => (
+          <div key={i} style={{ display: 'flex', alignItems: 'center', gap: '6px', padding: '3px 0', borderBottom: '1px solid #333' }}>
+            <span style={{ width: '20px', color: accent }}>{i + 1}</span>
+            <label>
+              高{' '}
+              <input
+                type="number" min={0} step={0.5}
+                value={waypoint.altitude}
+                onChange={(e) => updateWaypoint(i, { altitude: Math.max(0, Number(e.target.value)) })}
+                style={inputStyle}
+              />
+            </label>
+            <label>
+              停{' '}
+              <input
+                type="number" min={0} step={0.5}
+                value={waypoint.hover}
+                onChange={(e) => updateWaypoint(i, { hover: Math.max(0, Number(e.target.value)) })}
+                style={inputStyle}
+              />
+            </label>
+            <button onClick={() => removeWaypoint(i)} title="刪除航點" style={{ ...buttonStyle(false, accent), padding: '2px 6px' }}>✕</button>
+          </div>
+        ))}
+      </div>
+
+      <label>
+        巡航速度{' '}
+        <select value={mission.speed} onChange={(e) => onMission({ ...mission, speed: Number(e.target.value) })}>
+          {MISSION_SPEEDS.map(s => <option key={s} value={s}>{s} m/s</option>)}
+        </select>
+      </label>
+
+      <div style={{ display: 'flex', gap: '6px' }}>
+        <button onClick={() => downloadText('mission.json', serializeMission(mission), 'application/json')} style={{ ...buttonStyle(false, accent), flex: 1 }}>
+          💾 儲存
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} style={{ ...buttonStyle(false, accent), flex: 1 }}>
+          📂 載入
+        </button>
+        <button onClick={() => { onRunning(false); onMission({ ...mission, waypoints: [] }); }} style={{ ...buttonStyle(false, accent), flex: 1 }}>
+          🗑 清除
+        </button>
+      </div>
+      {message && <div style={{ fontSize: '0.75rem', color: '#888' }}>{message}</div>}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json"
+        style={{ display: 'none' }}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) importMission(file);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+};
+
+export default MissionPanel;
@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { CENTERED, PilotInput, PilotSettings, RateMode } from '../flight/pilot';
+
+const FONT = '"Microsoft JhengHei", sans-serif';
+const STICK_SIZE = 90;
+
+// 搖桿位置指示：x 向右、y 向上 (-1 ~ 1)
+const Stick = ({ x, y, label, accent }: { x: number, y: number, label: string, accent: string }) => (
+  <div style={{ textAlign: 'center' }}>
+    <div style={{
+      position: 'relative',
+      width: STICK_SIZE,
+      height: STICK_SIZE,
+      border: '1px solid rgba(255,255,255,0.3)',
+      borderRadius: '8px',
+      background: 'rgba(0,0,0,0.6)'
+    }}>
+      <div style={{ position: 'absolute', left: '50%', top: 0, bottom: 0, borderLeft: '1px dashed rgba(255,255,255,0.15)' }} />
+      <div style={{ position: 'absolute', top: '50%', left: 0, right: 0, borderTop: '1px dashed rgba(255,255,255,0.15)' }} />
+      <div style={{
+        position: 'absolute',
+        width: 14,
+        height: 14,
+        borderRadius: '50%',
+        background: accent,
+        left: (x + 1) / 2 * STICK_SIZE - 7,
+        top: (1 - y) / 2 * STICK_SIZE - 7
+      }} />
+    </div>
+    <div style={{ fontSize: '0.75rem', marginTop: '4px' }}>{label}</div>
+  </div>
+);
+
+// --- 手動飛行面板：Mode 2 搖桿指示、自穩 / 特技切換、expo 與死區 ---
+const PilotPanel = ({ input, settings, onSettings, accent, left = '30px' }: {
+  input: React.MutableRefObject<PilotInput>,
+  settings: PilotSettings,
+  onSettings: (settings: PilotSettings) => void,
+  accent: string,
+  left?: string // 左側有零件表時往右讓開
+}) => {
+  // 搖桿每幀都在變，只在這個小元件裡更新，不讓整個頁面重繪
+  const [current, setCurrent] = useState<PilotInput>({ sticks: CENTERED, source: 'keyboard' });
+  useEffect(() => {
+    let rafId: number;
+    const update = () => {
+      setCurrent(input.current);
+      rafId = requestAnimationFrame(update);
+    };
+    rafId = requestAnimationFrame(update);
+    return () => cancelAnimationFrame(rafId);
+  }, [input]);
+
+  const { sticks, source } = current;
+  const modeButton = (mode: RateMode, label: string) => (
+    <button
+      onClick={() => onSettings({ ...settings, rateMode: mode })}
+      style={{
+        flex: 1,
+        padding: '6px',
+        background: settings.rateMode === mode ? accent : 'rgba(0,0,0,0.6)',
+        color: settings.rateMode === mode ? '#000' : '#ccc',
+        border: `1px solid ${settings.rateMode === mode ? accent : 'rgba(255,255,255,0.2)'}`,
+        borderRadius: '4px',
+        cursor: 'pointer',
+        fontFamily: FONT
+      }}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '50%',
+      left,
+      transform: 'translateY(-50%)',
+      width: '220px',
+      padding: '15px',
+      background: 'rgba(0,0,0,0.7)',
+      border: '1px solid #444',
+      borderRadius: '8px',
+      color: '#ccc',
+      fontFamily: FONT,
+      fontSize: '0.85rem',
+      pointerEvents: 'auto'
+    }}>
+      <h3 style={{ margin: '0 0 10px', color: '#fff' }}>手動飛行</h3>
+      <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+        <Stick x={sticks.yaw} y={sticks.throttle} label="油門 / 偏航" accent={accent} />
+        <Stick x={sticks.roll} y={sticks.pitch} label="俯仰 / 橫滾" accent={accent} />
+      </div>
+      <div style={{ margin: '8px 0', fontSize: '0.75rem', color: '#888' }}>
+        {source === 'gamepad' ? '🎮 手把輸入' : '⌨ W/S 油門・A/D 偏航・方向鍵俯仰與橫滾'}
+      </div>
+      <div style={{ display: 'flex', gap: '6px', marginBottom: '10px' }}>
+        {modeButton('angle', '自穩')}
+        {modeButton('acro', '特技')}
+      </div>
+      <label style={{ display: 'block' }}>
+        Expo {settings.expo.toFixed(2)}
+        <input
+          type="range" min={0} max={1} step={0.05}
+          value={settings.expo}
+          onChange={(e) => onSettings({ ...settings, expo: Number(e.target.value) })}
+          style={{ width: '100%', accentColor: accent }}
+        />
+      </label>
+      <label style={{ display: 'block' }}>
+        死區 {settings.deadzone.toFixed(2)}
+        <input
+          type="range" min={0} max={0.3} step={0.01}
+          value={settings.deadzone}
+          onChange={(e) => onSettings({ ...settings, deadzone: Number(e.target.value) })}
+          style={{ width: '100%', accentColor: accent }}
+        />
+      </label>
+    </div>
+  );
+};
+
+export default PilotPanel;
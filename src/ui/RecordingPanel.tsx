@@ -0,0 +1,128 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  FlightRecording, Recorder, parseRecording, serializeRecordingCsv, serializeRecordingJson
+} from '../flight/recording';
+import { downloadText } from '../download';
+
+const FONT = '"Microsoft JhengHei", sans-serif';
+
+const buttonStyle = (active: boolean, accent: string): React.CSSProperties => ({
+  flex: 1,
+  padding: '6px 8px',
+  background: active ? accent : 'rgba(0,0,0,0.6)',
+  color: active ? '#000' : '#ccc',
+  border: `1px solid ${active ? accent : 'rgba(255,255,255,0.2)'}`,
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontFamily: FONT,
+  fontSize: '0.8rem'
+});
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+// --- 飛行紀錄面板：錄製、幽靈機重播、CSV / JSON 匯出與匯入 ---
+const RecordingPanel = ({ recorder, recording, onRecording, replay, onReplay, replaying, onReplaying, accent, left = '30px' }: {
+  recorder: React.MutableRefObject<Recorder>,
+  recording: boolean,
+  onRecording: (recording: boolean) => void,
+  replay: FlightRecording | null,
+  onReplay: (replay: FlightRecording | null) => void,
+  replaying: boolean,
+  onReplaying: (replaying: boolean) => void,
+  accent: string,
+  left?: string // 左側有零件表時往右讓開
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState('');
+
+  // 錄製時間每幀都在變，只在這個元件裡更新
+  const [elapsed, setElapsed] = useState(0);
+  useEffect(() => {
+    if (!recording) return;
+    let rafId: number;
+    const update = () => {
+      setElapsed(recorder.current.time);
+      rafId = requestAnimationFrame(update);
+    };
+    rafId = requestAnimationFrame(update);
+    return () => cancelAnimationFrame(rafId);
+  }, [recorder, recording]);
+
+  const importRecording = async (file: File) => {
+    try {
+      const loaded = parseRecording(await file.text());
+      onReplay(loaded);
+      onReplaying(true);
+      setMessage(`已載入 ${file.name}`);
+    } catch (err) {
+      setMessage(`無法讀取 ${file.name}：${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <div style={{
+      position: 'absolute',
+      bottom: '30px',
+      left,
+      width: '250px',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '8px',
+      padding: '12px',
+      background: 'rgba(0,0,0,0.7)',
+      border: '1px solid #444',
+      borderRadius: '8px',
+      color: '#ccc',
+      fontFamily: FONT,
+      fontSize: '0.85rem',
+      pointerEvents: 'auto'
+    }}>
+      <h3 style={{ margin: 0, color: '#fff' }}>飛行紀錄</h3>
+
+      <button onClick={() => onRecording(!recording)} style={buttonStyle(recording, '#ff3333')}>
+        {recording ? `⏹ 停止錄製 (${formatTime(elapsed)})` : '⏺ 開始錄製'}
+      </button>
+
+      {replay ? (
+        <>
+          <div style={{ fontSize: '0.75rem', color: '#888' }}>
+            紀錄長度 {formatTime(replay.duration)}・{replay.frames.length} 幀
+          </div>
+          <div style={{ display: 'flex', gap: '6px' }}>
+            <button onClick={() => onReplaying(!replaying)} style={buttonStyle(replaying, accent)}>
+              {replaying ? '⏸ 暫停重播' : '▶ 幽靈機重播'}
+            </button>
+            <button onClick={() => onReplay(null)} title="移除幽靈機" style={{ ...buttonStyle(false, accent), flex: 'none' }}>✕</button>
+          </div>
+          <div style={{ display: 'flex', gap: '6px' }}>
+            <button onClick={() => downloadText('flight.csv', serializeRecordingCsv(replay), 'text/csv')} style={buttonStyle(false, accent)}>
+              💾 CSV
+            </button>
+            <button onClick={() => downloadText('flight.json', serializeRecordingJson(replay), 'application/json')} style={buttonStyle(false, accent)}>
+              💾 JSON
+            </button>
+          </div>
+        </>
+      ) : (
+        <div style={{ fontSize: '0.75rem', color: '#888' }}>錄製一段飛行後，可用幽靈機重播並與目前的飛行比較</div>
+      )}
+
+      <button onClick={() => fileInputRef.current?.click()} style={buttonStyle(false, accent)}>📂 匯入紀錄 (CSV / JSON)</button>
+      {message && <div style={{ fontSize: '0.75rem', color: '#888' }}>{message}</div>}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,.json"
+        style={{ display: 'none' }}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) importRecording(file);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+};
+
+export default RecordingPanel;
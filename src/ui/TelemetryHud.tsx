@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Telemetry, TelemetryReadout, UNIT_SYSTEMS, UnitSystemId, formatValue, readTelemetry
+} from '../flight/telemetry';
+import { useCompactLayout } from './useCompactLayout';
+
+const FONT = '"Microsoft JhengHei", sans-serif';
+const PX_PER_DEGREE = 1.5; // 姿態儀的俯仰刻度
+const MIN_MAP_RANGE = 10;  // 小地圖最少顯示起飛點周圍幾公尺
+
+// --- 姿態儀：機身右傾時地平線往左上轉、機頭抬起時地平線下移 ---
+const Horizon = ({ pitch, roll, size, accent }: { pitch: number, roll: number, size: number, accent: string }) => {
+  const c = size / 2;
+  return (
+    <svg width={size} height={size} viewBox={`0 0 ${size} ${size}`}>
+      <defs>
+        <clipPath id="hud-horizon">
+          <circle cx={c} cy={c} r={c - 1} />
+        </clipPath>
+      </defs>
+      <g clipPath="url(#hud-horizon)">
+        <g transform={`rotate(${-roll} ${c} ${c}) translate(0 ${pitch * PX_PER_DEGREE})`}>
+          <rect x={-size} y={c - size * 3} width={size * 3} height={size * 3} fill="#2a5d8f" />
+          <rect x={-size} y={c} width={size * 3} height={size * 3} fill="#6b4a2b" />
+          <line x1={-size} y1={c} x2={size * 2} y2={c} stroke="#fff" strokeWidth={1.5} />
+          {[-20, -10, 10, 20].map(deg => (
+            <line
+              key={deg}
+              x1={c - (Math.abs(deg) === 10 ? 10 : 18)}
+              x2={c + (Math.abs(deg) === 10 ? 10 : 18)}
+              y1={c - deg * PX_PER_DEGREE}
+              y2={c - deg * PX_PER_DEGREE}
+              stroke="rgba(255,255,255,0.7)"
+            />
+          ))}
+        </g>
+      </g>
+      {/* 固定的機身符號 */}
+      <path d={`M ${c - 24} ${c} H ${c - 8} L ${c} ${c + 6} L ${c + 8} ${c} H ${c + 24}`} fill="none" stroke={accent} strokeWidth={3} />
+      <circle cx={c} cy={c} r={c - 1} fill="none" stroke="rgba(255,255,255,0.4)" />
+    </svg>
+  );
+};
+
+// --- 小地圖：俯視，上方為起飛時的機頭方向 (-Z)，起飛點置中 ---
+const MiniMap = ({ telemetry, heading, size, accent }: { telemetry: Telemetry, heading: number, size: number, accent: string }) => {
+  const { home, position, trail } = telemetry;
+  const range = Math.max(MIN_MAP_RANGE, ...trail.map(([x, z]) => Math.max(Math.abs(x - home.x), Math.abs(z - home.z)) * 1.15));
+  const c = size / 2;
+  const toMap = (x: number, z: number) => [c + (x - home.x) / range * c, c + (z - home.z) / range * c];
+  const points = trail.map(([x, z]) => toMap(x, z).join(',')).join(' ');
+  const [dx, dy] = toMap(position.x, position.z);
+  return (
+    <svg width={size} height={size} viewBox={`0 0 ${size} ${size}`} style={{ background: 'rgba(0,0,0,0.5)', borderRadius: '4px' }}>
+      <line x1={c} y1={0} x2={c} y2={size} stroke="rgba(255,255,255,0.1)" />
+      <line x1={0} y1={c} x2={size} y2={c} stroke="rgba(255,255,255,0.1)" />
+      <polyline points={points} fill="none" stroke={accent} strokeOpacity={0.7} strokeWidth={1.5} />
+      <text x={c} y={c + 4} textAnchor="middle" fontSize={11} fill="#fff">H</text>
+      <path d="M 0 -6 L 4 5 L 0 2 L -4 5 Z" fill="#fff" transform={`translate(${dx} ${dy}) rotate(${heading})`} />
+      <text x={4} y={size - 4} fontSize={9} fill="#888">±{range.toFixed(0)} m</text>
+    </svg>
+  );
+};
+
+// --- 飛行遙測 HUD：高度、速度、爬升率、航向、離家距離、姿態儀與小地圖 ---
+const TelemetryHud = ({ telemetry, accent }: {
+  telemetry: React.MutableRefObject<Telemetry>,
+  accent: string
+}) => {
+  const compact = useCompactLayout();
+  const [units, setUnits] = useState<UnitSystemId>('metric');
+
+  // 遙測每幀都在變，只在這個元件裡更新
+  const [readout, setReadout] = useState<TelemetryReadout>(() => readTelemetry(telemetry.current));
+  useEffect(() => {
+    let rafId: number;
+    const update = () => {
+      setReadout(readTelemetry(telemetry.current));
+      rafId = requestAnimationFrame(update);
+    };
+    rafId = requestAnimationFrame(update);
+    return () => cancelAnimationFrame(rafId);
+  }, [telemetry]);
+
+  const system = UNIT_SYSTEMS[units];
+  const rows: [string, string][] = [
+    ['高度', formatValue(readout.altitude, system.length)],
+    ['地速', formatValue(readout.groundSpeed, system.speed)],
+    ['爬升', formatValue(readout.verticalSpeed, system.climb)],
+    ['航向', `${readout.heading.toFixed(0).padStart(3, '0')}°`],
+    ['離家', formatValue(readout.distance, system.length)]
+  ];
+  const instrument = compact ? 72 : 110;
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: compact ? '8px' : '20px',
+      left: compact ? '8px' : '50%',
+      right: compact ? '8px' : undefined,
+      transform: compact ? undefined : 'translateX(-50%)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: compact ? '8px' : '15px',
+      padding: compact ? '6px' : '10px 15px',
+      background: 'rgba(0,0,0,0.6)',
+      border: '1px solid #444',
+      borderRadius: '8px',
+      color: '#ccc',
+      fontFamily: FONT,
+      fontSize: compact ? '0.7rem' : '0.85rem'
+    }}>
+      <Horizon pitch={readout.pitch} roll={readout.roll} size={instrument} accent={accent} />
+      <div style={{ flex: compact ? 1 : undefined }}>
+        <div style={{
+          display: 'grid',
+          gridTemplateColumns: compact ? 'repeat(4, auto)' : 'auto auto',
+          columnGap: '10px',
+          rowGap: '2px'
+        }}>
+          {rows.map(([label, value]) => (
+            <React.Fragment key={label}>
+              <span>{label}</span>
+              <span style={{ color: '#fff', fontVariantNumeric: 'tabular-nums', textAlign: 'right' }}>{value}</span>
+            </React.Fragment>
+          ))}
+        </div>
+        <select
+          value={units}
+          onChange={(e) => setUnits(e.target.value as UnitSystemId)}
+          style={{ marginTop: '6px', pointerEvents: 'auto', fontSize: 'inherit' }}
+        >
+          {(Object.keys(UNIT_SYSTEMS) as UnitSystemId[]).map(id => (
+            <option key={id} value={id}>{UNIT_SYSTEMS[id].label}</option>
+          ))}
+        </select>
+      </div>
+      <MiniMap telemetry={telemetry.current} heading={readout.heading} size={instrument} accent={accent} />
+    </div>
+  );
+};
+
+export default TelemetryHud;
@@ -0,0 +1,84 @@
+import React from 'react';
+import { AssemblyTimeline, TEARDOWN_SPEEDS, TIMELINE_SPEEDS } from '../lego/timeline';
+
+const FONT = '"Microsoft JhengHei", sans-serif';
+
+const controlStyle = (active: boolean, accent: string): React.CSSProperties => ({
+  padding: '4px 10px',
+  background: active ? accent : 'rgba(0,0,0,0.6)',
+  color: active ? '#000' : '#ccc',
+  border: `1px solid ${active ? accent : 'rgba(255,255,255,0.2)'}`,
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontFamily: FONT,
+  fontSize: '0.85rem'
+});
+
+// --- 組裝時間軸控制列：播放 / 暫停、拖曳進度、跳到指定階段、組裝與拆解倍速 ---
+const TimelineBar = ({ timeline, accent }: {
+  timeline: AssemblyTimeline,
+  accent: string
+}) => {
+  const { time, duration, maxStage, stage, playing, speed, teardownSpeed } = timeline;
+  const stages = Array.from({ length: maxStage + 1 }, (_, i) => i);
+
+  // 已經進入目前階段一段時間時，「上一階段」先回到目前階段的開頭
+  const previousStage = () => timeline.jumpToStage(time - stage > 0.05 ? stage : stage - 1);
+  const nextStage = () => (stage < maxStage ? timeline.jumpToStage(stage + 1) : timeline.seek(duration));
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '8px', maxWidth: '860px', margin: '0 auto 20px', fontFamily: FONT, color: '#ccc' }}>
+      <button onClick={previousStage} title="上一階段" style={controlStyle(false, accent)}>⏮</button>
+      <button onClick={timeline.toggle} title={playing ? '暫停' : '播放'} style={controlStyle(playing, accent)}>
+        {playing ? '⏸' : '▶'}
+      </button>
+      <button onClick={nextStage} title="下一階段" style={controlStyle(false, accent)}>⏭</button>
+      <div style={{ flex: 1 }}>
+        <input
+          type="range"
+          min={0}
+          max={duration}
+          step={0.01}
+          value={time}
+          onChange={(e) => timeline.seek(Number(e.target.value))}
+          style={{ width: '100%', accentColor: accent, cursor: 'pointer' }}
+        />
+        {/* 階段刻度：點擊跳到該階段開始組裝的時間點 */}
+        <div style={{ position: 'relative', height: '14px' }}>
+          {stages.map(k => (
+            <span
+              key={k}
+              onClick={() => timeline.jumpToStage(k)}
+              style={{
+                position: 'absolute',
+                left: `${(k / duration) * 100}%`,
+                transform: 'translateX(-50%)',
+                fontSize: '0.7rem',
+                cursor: 'pointer',
+                color: k <= stage ? accent : '#666'
+              }}
+            >
+              {k}
+            </span>
+          ))}
+        </div>
+      </div>
+      <span style={{ minWidth: '80px', fontSize: '0.85rem' }}>
+        階段 {stage} / {maxStage}
+      </span>
+      {TIMELINE_SPEEDS.map(s => (
+        <button key={s} onClick={() => timeline.setSpeed(s)} style={controlStyle(s === speed, accent)}>
+          {s}x
+        </button>
+      ))}
+      <label style={{ fontSize: '0.85rem', whiteSpace: 'nowrap' }}>
+        拆解{' '}
+        <select value={teardownSpeed} onChange={(e) => timeline.setTeardownSpeed(Number(e.target.value))}>
+          {TEARDOWN_SPEEDS.map(s => <option key={s} value={s}>{s}x</option>)}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default TimelineBar;
@@ -0,0 +1,29 @@
+import React from 'react';
+
+// --- 頁面底部的小型切換按鈕 (說明書、零件表、檢查 ...) ---
+const ToolButton = ({ active, accent, onClick, children }: {
+  active: boolean,
+  accent: string,
+  onClick: () => void,
+  children: React.ReactNode
+}) => (
+  <button
+    onClick={onClick}
+    style={{
+      padding: '8px 16px',
+      background: active ? accent : 'rgba(0,0,0,0.6)',
+      color: active ? '#000' : '#ccc',
+      border: `1px solid ${active ? accent : 'rgba(255,255,255,0.2)'}`,
+      borderRadius: '16px',
+      cursor: 'pointer',
+      fontFamily: '"Microsoft JhengHei", sans-serif',
+      fontSize: '0.9rem',
+      fontWeight: active ? 'bold' : 'normal',
+      transition: 'all 0.2s'
+    }}
+  >
+    {children}
+  </button>
+);
+
+export default ToolButton;
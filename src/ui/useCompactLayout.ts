@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+
+// --- 窄螢幕 (手機直向) 判斷 ---
+const COMPACT_QUERY = '(max-width: 700px)';
+
+export const useCompactLayout = () => {
+  const [compact, setCompact] = useState(() => window.matchMedia(COMPACT_QUERY).matches);
+  useEffect(() => {
+    const media = window.matchMedia(COMPACT_QUERY);
+    const handleChange = () => setCompact(media.matches);
+    media.addEventListener('change', handleChange);
+    return () => media.removeEventListener('change', handleChange);
+  }, []);
+  return compact;
+};